@@ -0,0 +1,103 @@
+import { createClient } from "@supabase/supabase-js";
+import { createElement } from "react";
+import { renderToStaticMarkup } from "react-dom/server";
+import Markdown, { defaultUrlTransform } from "react-markdown";
+import remarkGfm from "remark-gfm";
+import { fetchLivePosts, type PostRow } from "../src/lib/postData";
+import { fetchAuthorProfiles, type AuthorProfile } from "../src/lib/authorData";
+import { isStoragePath, stripMarkdown } from "../src/lib/markdown";
+
+/* ===========================
+   Post data for build-time outputs (feeds, sitemap, pre-rendered pages).
+   Reads the same VITE_SUPABASE_* env the app is built with.
+=========================== */
+
+const BUCKET = "loopblogimages";
+
+let cached: Promise<PostRow[]> | null = null;
+let cachedAuthors: Promise<AuthorProfile[]> | null = null;
+
+function buildClient(env: Record<string, string | undefined>) {
+  const url = env.VITE_SUPABASE_URL;
+  const key = env.VITE_SUPABASE_ANON_KEY;
+  if (!url || !key) throw new Error("Missing VITE_SUPABASE_URL / VITE_SUPABASE_ANON_KEY");
+  return createClient(url, key, { auth: { persistSession: false } });
+}
+
+/** Live posts, fetched once per build no matter how many plugins ask. */
+export function loadBuildPosts(env: Record<string, string | undefined>) {
+  if (!cached) cached = (async () => fetchLivePosts(buildClient(env)))();
+  return cached;
+}
+
+/** Author profiles, fetched once per build. */
+export function loadBuildAuthors(env: Record<string, string | undefined>) {
+  if (!cachedAuthors) cachedAuthors = (async () => fetchAuthorProfiles(buildClient(env)))();
+  return cachedAuthors;
+}
+
+/** Escapes text for XML/HTML bodies and attribute values. */
+export function escapeXml(s: string) {
+  return s
+    .replace(/&/g, "&amp;")
+    .replace(/</g, "&lt;")
+    .replace(/>/g, "&gt;")
+    .replace(/"/g, "&quot;")
+    .replace(/'/g, "&apos;");
+}
+
+/** Supabase errors are plain objects, not Error instances. */
+export function describeError(e: unknown) {
+  if (e && typeof e === "object" && "message" in e) return String(e.message);
+  return String(e);
+}
+
+/** Same URL supabase.storage.getPublicUrl() gives the app. */
+export function storagePublicUrl(env: Record<string, string | undefined>, path: string) {
+  const base = (env.VITE_SUPABASE_URL ?? "").replace(/\/+$/, "");
+  const encoded = path.split("/").map(encodeURIComponent).join("/");
+  return `${base}/storage/v1/object/public/${BUCKET}/${encoded}`;
+}
+
+export function imageMimeType(path: string) {
+  const ext = path.split(".").pop()?.toLowerCase();
+  switch (ext) {
+    case "png":
+      return "image/png";
+    case "webp":
+      return "image/webp";
+    case "gif":
+      return "image/gif";
+    case "avif":
+      return "image/avif";
+    case "svg":
+      return "image/svg+xml";
+    default:
+      return "image/jpeg";
+  }
+}
+
+/**
+ * Whether the post gets a pre-rendered page. Slugs come from slugify();
+ * anything else can't safely become a file name.
+ */
+export function hasStaticPage(p: PostRow) {
+  return /^[a-z0-9][a-z0-9_-]*$/i.test(p.slug || p.id);
+}
+
+/** The excerpt, or the start of the body as plain text. */
+export function postSummary(p: PostRow, max = 280) {
+  if (p.excerpt?.trim()) return p.excerpt.trim();
+  const text = stripMarkdown(p.body_md ?? "");
+  return text.length > max ? text.slice(0, max).trimEnd() + "…" : text;
+}
+
+/**
+ * Post body as HTML, through the same Markdown pipeline the app renders with.
+ * Inline images stored as bucket paths become public URLs.
+ */
+export function renderMarkdown(md: string, env: Record<string, string | undefined>) {
+  const urlTransform = (url: string, key: string) =>
+    key === "src" && isStoragePath(url) ? storagePublicUrl(env, url) : defaultUrlTransform(url);
+  return renderToStaticMarkup(createElement(Markdown, { remarkPlugins: [remarkGfm], urlTransform }, md));
+}
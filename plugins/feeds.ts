@@ -0,0 +1,282 @@
+import type { Plugin } from "vite";
+import { postPath, type PostRow } from "../src/lib/postData";
+import { authorPath, HANDLE_PATTERN, type AuthorProfile } from "../src/lib/authorData";
+import { absoluteUrl, SITE } from "../src/lib/site";
+import {
+  describeError,
+  escapeXml,
+  imageMimeType,
+  loadBuildAuthors,
+  loadBuildPosts,
+  postSummary,
+  renderMarkdown,
+  storagePublicUrl,
+} from "./buildPosts";
+
+/* ===========================
+   RSS 2.0, Atom and JSON Feed, written into dist/ at build time:
+     rss.xml, atom.xml, feed.json                 -> every live post
+     feeds/tags/<tag>.xml|.atom|.json            -> posts with that tag
+     feeds/authors/<handle>.xml|.atom|.json      -> posts by that author
+=========================== */
+
+export type FeedOptions = {
+  // "full" = whole post as HTML, "excerpt" = summary only
+  content?: "full" | "excerpt";
+  // newest N posts per feed
+  limit?: number;
+};
+
+type Env = Record<string, string | undefined>;
+
+type FeedMeta = {
+  title: string;
+  description: string;
+  homeUrl: string;
+  // output paths, relative to the site root
+  files: { rss: string; atom: string; json: string };
+};
+
+type FeedItem = {
+  id: string;
+  url: string;
+  title: string;
+  summary: string;
+  html: string | null;
+  tags: string[];
+  published: Date;
+  updated: Date;
+  image: { url: string; type: string } | null;
+  author: { name: string; url: string; avatar: string | null } | null;
+};
+
+function toItem(
+  p: PostRow,
+  author: AuthorProfile | undefined,
+  env: Env,
+  opts: Required<FeedOptions>
+): FeedItem {
+  const published = new Date(p.published_at ?? p.created_at);
+  return {
+    id: p.id,
+    url: absoluteUrl(postPath(p)),
+    title: p.title,
+    summary: postSummary(p),
+    html: opts.content === "full" ? renderMarkdown(p.body_md ?? "", env) : null,
+    tags: p.tags,
+    published,
+    updated: new Date(Math.max(published.getTime(), new Date(p.updated_at ?? 0).getTime())),
+    image: p.cover_path
+      ? { url: storagePublicUrl(env, p.cover_path), type: imageMimeType(p.cover_path) }
+      : null,
+    author: author
+      ? {
+          name: author.display_name,
+          url: absoluteUrl(authorPath(author)),
+          avatar: author.avatar_path ? storagePublicUrl(env, author.avatar_path) : null,
+        }
+      : null,
+  };
+}
+
+function lastUpdated(items: FeedItem[]) {
+  return new Date(Math.max(0, ...items.map((i) => i.updated.getTime())));
+}
+
+function buildRss(meta: FeedMeta, items: FeedItem[]) {
+  const entries = items.map((i) =>
+    [
+      "    <item>",
+      `      <title>${escapeXml(i.title)}</title>`,
+      `      <link>${escapeXml(i.url)}</link>`,
+      `      <guid isPermaLink="false">${i.id}</guid>`,
+      `      <pubDate>${i.published.toUTCString()}</pubDate>`,
+      `      <description>${escapeXml(i.summary)}</description>`,
+      i.author ? `      <dc:creator>${escapeXml(i.author.name)}</dc:creator>` : "",
+      i.html !== null ? `      <content:encoded>${escapeXml(i.html)}</content:encoded>` : "",
+      ...i.tags.map((t) => `      <category>${escapeXml(t)}</category>`),
+      // length is required by the spec; 0 = unknown
+      i.image ? `      <enclosure url="${escapeXml(i.image.url)}" type="${i.image.type}" length="0" />` : "",
+      "    </item>",
+    ]
+      .filter(Boolean)
+      .join("\n")
+  );
+
+  return [
+    `<?xml version="1.0" encoding="UTF-8"?>`,
+    `<rss version="2.0" xmlns:atom="http://www.w3.org/2005/Atom" xmlns:content="http://purl.org/rss/1.0/modules/content/" xmlns:dc="http://purl.org/dc/elements/1.1/">`,
+    "  <channel>",
+    `    <title>${escapeXml(meta.title)}</title>`,
+    `    <link>${escapeXml(meta.homeUrl)}</link>`,
+    `    <description>${escapeXml(meta.description)}</description>`,
+    `    <language>${SITE.language}</language>`,
+    `    <lastBuildDate>${lastUpdated(items).toUTCString()}</lastBuildDate>`,
+    `    <atom:link href="${escapeXml(SITE.url + meta.files.rss)}" rel="self" type="application/rss+xml" />`,
+    ...entries,
+    "  </channel>",
+    "</rss>",
+    "",
+  ].join("\n");
+}
+
+function buildAtom(meta: FeedMeta, items: FeedItem[]) {
+  const entries = items.map((i) =>
+    [
+      "  <entry>",
+      `    <title>${escapeXml(i.title)}</title>`,
+      `    <link href="${escapeXml(i.url)}" />`,
+      `    <id>urn:uuid:${i.id}</id>`,
+      `    <published>${i.published.toISOString()}</published>`,
+      `    <updated>${i.updated.toISOString()}</updated>`,
+      `    <summary>${escapeXml(i.summary)}</summary>`,
+      i.author
+        ? `    <author><name>${escapeXml(i.author.name)}</name><uri>${escapeXml(i.author.url)}</uri></author>`
+        : "",
+      i.html !== null ? `    <content type="html">${escapeXml(i.html)}</content>` : "",
+      ...i.tags.map((t) => `    <category term="${escapeXml(t)}" />`),
+      i.image ? `    <link rel="enclosure" type="${i.image.type}" href="${escapeXml(i.image.url)}" />` : "",
+      "  </entry>",
+    ]
+      .filter(Boolean)
+      .join("\n")
+  );
+
+  return [
+    `<?xml version="1.0" encoding="UTF-8"?>`,
+    `<feed xmlns="http://www.w3.org/2005/Atom" xml:lang="${SITE.language}">`,
+    `  <title>${escapeXml(meta.title)}</title>`,
+    `  <subtitle>${escapeXml(meta.description)}</subtitle>`,
+    `  <link href="${escapeXml(meta.homeUrl)}" />`,
+    `  <link rel="self" type="application/atom+xml" href="${escapeXml(SITE.url + meta.files.atom)}" />`,
+    `  <id>${escapeXml(SITE.url + meta.files.atom)}</id>`,
+    `  <updated>${lastUpdated(items).toISOString()}</updated>`,
+    `  <author><name>${escapeXml(SITE.title)}</name></author>`,
+    ...entries,
+    "</feed>",
+    "",
+  ].join("\n");
+}
+
+function buildJsonFeed(meta: FeedMeta, items: FeedItem[]) {
+  const feed = {
+    version: "https://jsonfeed.org/version/1.1",
+    title: meta.title,
+    description: meta.description,
+    home_page_url: meta.homeUrl,
+    feed_url: SITE.url + meta.files.json,
+    language: SITE.language,
+    items: items.map((i) => ({
+      id: i.id,
+      url: i.url,
+      title: i.title,
+      summary: i.summary,
+      ...(i.html !== null ? { content_html: i.html } : { content_text: i.summary }),
+      ...(i.image
+        ? { image: i.image.url, attachments: [{ url: i.image.url, mime_type: i.image.type }] }
+        : {}),
+      date_published: i.published.toISOString(),
+      date_modified: i.updated.toISOString(),
+      ...(i.author
+        ? { authors: [{ name: i.author.name, url: i.author.url, ...(i.author.avatar ? { avatar: i.author.avatar } : {}) }] }
+        : {}),
+      tags: i.tags,
+    })),
+  };
+  return JSON.stringify(feed, null, 2) + "\n";
+}
+
+// Tags become file names; skip anything that can't be one
+function isSafeTag(tag: string) {
+  return !!tag && !tag.startsWith(".") && !/[/\\?#%]/.test(tag);
+}
+
+export default function feeds(options: FeedOptions = {}): Plugin {
+  const opts: Required<FeedOptions> = { content: "full", limit: 50, ...options };
+  let env: Env = {};
+
+  return {
+    name: "loopblog-feeds",
+    apply: "build",
+
+    configResolved(config) {
+      env = config.env;
+    },
+
+    async generateBundle() {
+      let posts: PostRow[];
+      try {
+        posts = await loadBuildPosts(env);
+      } catch (e) {
+        this.warn(`Skipping feeds: ${describeError(e)}`);
+        return;
+      }
+
+      // Bylines are a nice-to-have; feeds still go out without them
+      let authors: AuthorProfile[] = [];
+      try {
+        authors = await loadBuildAuthors(env);
+      } catch (e) {
+        this.warn(`Feeds without authors: ${describeError(e)}`);
+      }
+      const authorOf = new Map(authors.map((a) => [a.user_id, a]));
+
+      // Each post is rendered once and shared by every feed it appears in
+      const items = new Map(
+        posts.map((p) => [p.id, toItem(p, p.author_id ? authorOf.get(p.author_id) : undefined, env, opts)])
+      );
+
+      const emit = (meta: FeedMeta, rows: PostRow[]) => {
+        const list = rows.slice(0, opts.limit).map((p) => items.get(p.id)!);
+        this.emitFile({ type: "asset", fileName: meta.files.rss, source: buildRss(meta, list) });
+        this.emitFile({ type: "asset", fileName: meta.files.atom, source: buildAtom(meta, list) });
+        this.emitFile({ type: "asset", fileName: meta.files.json, source: buildJsonFeed(meta, list) });
+      };
+
+      emit(
+        {
+          title: SITE.title,
+          description: SITE.description,
+          homeUrl: SITE.url,
+          files: { rss: "rss.xml", atom: "atom.xml", json: "feed.json" },
+        },
+        posts
+      );
+
+      const tags = new Set(posts.flatMap((p) => p.tags).filter(isSafeTag));
+      for (const tag of tags) {
+        emit(
+          {
+            title: `${SITE.title} • #${tag}`,
+            description: `Posts tagged #${tag} on ${SITE.title}.`,
+            homeUrl: absoluteUrl(`/tag/${encodeURIComponent(tag)}`),
+            files: {
+              rss: `feeds/tags/${tag}.xml`,
+              atom: `feeds/tags/${tag}.atom`,
+              json: `feeds/tags/${tag}.json`,
+            },
+          },
+          posts.filter((p) => p.tags.includes(tag))
+        );
+      }
+
+      // Every author gets one (even if empty) so the link on their page works
+      for (const a of authors) {
+        if (!HANDLE_PATTERN.test(a.handle)) continue;
+        emit(
+          {
+            title: `${SITE.title} • ${a.display_name}`,
+            description: `Posts by ${a.display_name} on ${SITE.title}.`,
+            homeUrl: absoluteUrl(authorPath(a)),
+            files: {
+              rss: `feeds/authors/${a.handle}.xml`,
+              atom: `feeds/authors/${a.handle}.atom`,
+              json: `feeds/authors/${a.handle}.json`,
+            },
+          },
+          posts.filter((p) => p.author_id === a.user_id)
+        );
+      }
+    },
+  };
+}
@@ -0,0 +1,156 @@
+import type { Plugin } from "vite";
+import { postPath, type PostRow } from "../src/lib/postData";
+import { absoluteUrl, SITE } from "../src/lib/site";
+import {
+  describeError,
+  escapeXml,
+  hasStaticPage,
+  loadBuildPosts,
+  postSummary,
+  renderMarkdown,
+  storagePublicUrl,
+} from "./buildPosts";
+
+/* ===========================
+   Static HTML for crawlers and link previews. Each page is the built
+   index.html with its own <head> (title, description, Open Graph, Twitter)
+   and a plain-HTML copy of the content in #root, which the app replaces
+   when it boots:
+     index.html         -> Home (latest posts)
+     post/<slug>.html   -> every live post (GitHub Pages serves it at /post/<slug>)
+     404.html           -> bare app shell, for every other deep link
+=========================== */
+
+type Env = Record<string, string | undefined>;
+
+type PageMeta = {
+  title: string;
+  description: string;
+  // omitted for the 404 shell, which stands in for many different URLs
+  url?: string;
+  type: "website" | "article";
+  image?: string | null;
+  published?: string | null;
+  modified?: string | null;
+  tags?: string[];
+};
+
+const HOME_LIMIT = 30;
+
+function headTags(m: PageMeta) {
+  const esc = escapeXml;
+  const tags = [
+    `<title>${esc(m.title)}</title>`,
+    `<meta name="description" content="${esc(m.description)}" />`,
+    m.url ? `<link rel="canonical" href="${esc(m.url)}" />` : "",
+    `<meta property="og:site_name" content="${esc(SITE.title)}" />`,
+    `<meta property="og:type" content="${m.type}" />`,
+    `<meta property="og:title" content="${esc(m.title)}" />`,
+    `<meta property="og:description" content="${esc(m.description)}" />`,
+    m.url ? `<meta property="og:url" content="${esc(m.url)}" />` : "",
+    m.image ? `<meta property="og:image" content="${esc(m.image)}" />` : "",
+    m.published ? `<meta property="article:published_time" content="${m.published}" />` : "",
+    m.modified ? `<meta property="article:modified_time" content="${m.modified}" />` : "",
+    ...(m.tags ?? []).map((t) => `<meta property="article:tag" content="${esc(t)}" />`),
+    `<meta name="twitter:card" content="${m.image ? "summary_large_image" : "summary"}" />`,
+    `<meta name="twitter:title" content="${esc(m.title)}" />`,
+    `<meta name="twitter:description" content="${esc(m.description)}" />`,
+    m.image ? `<meta name="twitter:image" content="${esc(m.image)}" />` : "",
+  ];
+  return tags.filter(Boolean).join("\n    ");
+}
+
+function renderPage(template: string, meta: PageMeta, body = "") {
+  return template
+    .replace(/<title>[\s\S]*?<\/title>/, headTags(meta))
+    .replace('<div id="root"></div>', `<div id="root">${body}</div>`);
+}
+
+const siteMeta = (url?: string, image?: string | null): PageMeta => ({
+  title: SITE.title,
+  description: SITE.description,
+  url,
+  type: "website",
+  image,
+});
+
+export default function prerender(): Plugin {
+  let env: Env = {};
+  let base = "/";
+
+  return {
+    name: "loopblog-prerender",
+    apply: "build",
+    enforce: "post",
+
+    configResolved(config) {
+      env = config.env;
+      base = config.base;
+    },
+
+    async generateBundle(_options, bundle) {
+      const shell = bundle["index.html"];
+      if (!shell || shell.type !== "asset" || typeof shell.source !== "string") {
+        this.warn("Skipping pre-render: index.html is not in the bundle");
+        return;
+      }
+      const template = shell.source;
+
+      this.emitFile({ type: "asset", fileName: "404.html", source: renderPage(template, siteMeta()) });
+
+      let posts: PostRow[];
+      try {
+        posts = await loadBuildPosts(env);
+      } catch (e) {
+        this.warn(`Pre-rendering the shell only: ${describeError(e)}`);
+        shell.source = renderPage(template, siteMeta(SITE.url));
+        return;
+      }
+
+      const coverOf = (p: PostRow) => (p.cover_path ? storagePublicUrl(env, p.cover_path) : null);
+
+      // Home: newest posts as a plain list
+      const latest = posts.slice(0, HOME_LIMIT);
+      const homeBody = [
+        "<main>",
+        `<h1>${escapeXml(SITE.title)}</h1>`,
+        "<ul>",
+        ...latest.map(
+          (p) =>
+            `<li><a href="${escapeXml(base + postPath(p).slice(1))}">${escapeXml(p.title)}</a>` +
+            `<p>${escapeXml(postSummary(p, 160))}</p></li>`
+        ),
+        "</ul>",
+        "</main>",
+      ].join("\n");
+      shell.source = renderPage(template, siteMeta(SITE.url, latest.map(coverOf).find(Boolean)), homeBody);
+
+      for (const p of posts) {
+        if (!hasStaticPage(p)) continue;
+
+        const meta: PageMeta = {
+          title: `${p.title} • ${SITE.title}`,
+          description: postSummary(p, 200),
+          url: absoluteUrl(postPath(p)),
+          type: "article",
+          image: coverOf(p),
+          published: p.published_at,
+          modified: p.updated_at,
+          tags: p.tags,
+        };
+
+        const body = [
+          "<article>",
+          `<h1>${escapeXml(p.title)}</h1>`,
+          p.excerpt ? `<p>${escapeXml(p.excerpt)}</p>` : "",
+          renderMarkdown(p.body_md ?? "", env),
+          "</article>",
+        ]
+          .filter(Boolean)
+          .join("\n");
+
+        this.emitFile({ type: "asset", fileName: `post/${p.slug || p.id}.html`, source: renderPage(template, meta, body) });
+      }
+    },
+  };
+}
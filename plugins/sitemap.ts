@@ -0,0 +1,96 @@
+import type { Plugin } from "vite";
+import { postPath, type PostRow } from "../src/lib/postData";
+import { absoluteUrl, SITE } from "../src/lib/site";
+import {
+  describeError,
+  escapeXml,
+  hasStaticPage,
+  loadBuildPosts,
+  storagePublicUrl,
+} from "./buildPosts";
+
+/* ===========================
+   sitemap.xml + robots.txt, written into dist/ at build time.
+   Only pages that exist as real files are listed (Home and the
+   pre-rendered posts); everything else is served by the 404 shell.
+=========================== */
+
+type Env = Record<string, string | undefined>;
+
+// App routes crawlers have no business in (relative to the site root)
+const PRIVATE_ROUTES = ["admin", "edit/", "write"];
+
+function urlEntry(loc: string, lastmod: string | null, image: string | null) {
+  return [
+    "  <url>",
+    `    <loc>${escapeXml(loc)}</loc>`,
+    lastmod ? `    <lastmod>${new Date(lastmod).toISOString()}</lastmod>` : "",
+    image ? `    <image:image><image:loc>${escapeXml(image)}</image:loc></image:image>` : "",
+    "  </url>",
+  ]
+    .filter(Boolean)
+    .join("\n");
+}
+
+function buildSitemap(posts: PostRow[], env: Env) {
+  const newest = posts.length
+    ? new Date(Math.max(...posts.map((p) => new Date(p.updated_at).getTime()))).toISOString()
+    : null;
+
+  return [
+    `<?xml version="1.0" encoding="UTF-8"?>`,
+    `<urlset xmlns="http://www.sitemaps.org/schemas/sitemap/0.9" xmlns:image="http://www.google.com/schemas/sitemap-image/1.1">`,
+    urlEntry(SITE.url, newest, null),
+    ...posts.filter(hasStaticPage).map((p) =>
+      urlEntry(
+        absoluteUrl(postPath(p)),
+        p.updated_at ?? p.published_at,
+        p.cover_path ? storagePublicUrl(env, p.cover_path) : null
+      )
+    ),
+    "</urlset>",
+    "",
+  ].join("\n");
+}
+
+function buildRobots(base: string) {
+  return [
+    "User-agent: *",
+    ...PRIVATE_ROUTES.map((r) => `Disallow: ${base}${r}`),
+    "",
+    `Sitemap: ${SITE.url}sitemap.xml`,
+    "",
+  ].join("\n");
+}
+
+export default function sitemap(): Plugin {
+  let env: Env = {};
+  let base = "/";
+
+  return {
+    name: "loopblog-sitemap",
+    apply: "build",
+
+    configResolved(config) {
+      env = config.env;
+      base = config.base;
+    },
+
+    async generateBundle() {
+      // Note: crawlers only read robots.txt at the domain root, so on a
+      // project page (user.github.io/loopblog/) it only counts once the
+      // site is served from its own domain. The sitemap works either way.
+      this.emitFile({ type: "asset", fileName: "robots.txt", source: buildRobots(base) });
+
+      let posts: PostRow[];
+      try {
+        posts = await loadBuildPosts(env);
+      } catch (e) {
+        this.warn(`Skipping sitemap: ${describeError(e)}`);
+        return;
+      }
+
+      this.emitFile({ type: "asset", fileName: "sitemap.xml", source: buildSitemap(posts, env) });
+    },
+  };
+}
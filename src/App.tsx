@@ -9,8 +9,15 @@ import Playlist from "./pages/Playlist";
 import Gallery from "./pages/Gallery";
 import Admin from "./pages/Admin";
 import EditPost from "./pages/EditPost";
+import Media from "./pages/Media";
+import Tag from "./pages/Tag";
+import Author from "./pages/Author";
+import Series from "./pages/Series";
+import Category from "./pages/Category";
+import Search from "./pages/Search";
 
-import RequireAuth from "./components/RequireAuth";
+import RequireRole from "./components/RequireRole";
+import { STAFF_ROLES } from "./lib/roles";
 
 export default function App() {
   return (
@@ -22,17 +29,39 @@ export default function App() {
         <Route
           path="/write"
           element={
-            <RequireAuth>
+            <RequireRole roles={STAFF_ROLES}>
               <Write />
-            </RequireAuth>
+            </RequireRole>
           }
         />
 
-        <Route path="/post/:id" element={<Post />} />
+        {/* :slug also accepts a post id or a previous slug (redirects to the current one) */}
+        <Route path="/post/:slug" element={<Post />} />
+        <Route path="/tag/:tag" element={<Tag />} />
+        <Route path="/author/:handle" element={<Author />} />
+        <Route path="/series/:slug" element={<Series />} />
+        <Route path="/category/:slug" element={<Category />} />
+        <Route path="/search" element={<Search />} />
         <Route path="/playlist" element={<Playlist />} />
         <Route path="/gallery" element={<Gallery />} />
+        {/* /admin is also the login page; it guards its own back-office sections */}
         <Route path="/admin" element={<Admin />} />
-        <Route path="/edit/:id" element={<EditPost />} />
+        <Route
+          path="/admin/media"
+          element={
+            <RequireRole roles={STAFF_ROLES}>
+              <Media />
+            </RequireRole>
+          }
+        />
+        <Route
+          path="/edit/:id"
+          element={
+            <RequireRole roles={STAFF_ROLES}>
+              <EditPost />
+            </RequireRole>
+          }
+        />
 
         {/* keep this LAST */}
         <Route path="*" element={<Navigate to="/" replace />} />
@@ -1,6 +1,7 @@
 import { NavLink, useNavigate } from "react-router-dom";
 import { useEffect, useState } from "react";
 import { supabase } from "../lib/supabase";
+import { hasRole, STAFF_ROLES, useRole } from "../lib/roles";
 
 // ✅ add this import (make sure the file exists at src/assets/loopdot.png)
 import loopLogo from "../assets/loopdot.png";
@@ -15,6 +16,7 @@ export default function Navbar() {
   const nav = useNavigate();
   const [open, setOpen] = useState(false);
   const [auth, setAuth] = useState<AuthState>({ loading: true, authed: false });
+  const { role } = useRole();
 
   useEffect(() => {
     const onResize = () => {
@@ -132,8 +134,8 @@ export default function Navbar() {
           Home
         </NavLink>
 
-        {/* ✅ hide when logged out */}
-        {auth.authed && (
+        {/* ✅ only for accounts that can write */}
+        {auth.authed && hasRole(role, STAFF_ROLES) && (
           <NavLink
             to="/write"
             className={linkClass}
@@ -143,6 +145,14 @@ export default function Navbar() {
           </NavLink>
         )}
 
+        <NavLink
+          to="/search"
+          className={linkClass}
+          onClick={() => setOpen(false)}
+        >
+          Search
+        </NavLink>
+
         <NavLink
           to="/playlist"
           className={linkClass}
@@ -1,54 +0,0 @@
-import { useEffect, useState } from "react";
-import { Navigate, useLocation } from "react-router-dom";
-import { supabase } from "../lib/supabase";
-
-export default function RequireAuth({
-  children,
-}: {
-  children: React.ReactNode;
-}) {
-  const [checking, setChecking] = useState(true);
-  const [authed, setAuthed] = useState(false);
-  const location = useLocation();
-
-  useEffect(() => {
-    let alive = true;
-
-    supabase.auth.getSession().then(({ data }) => {
-      if (!alive) return;
-      setAuthed(!!data.session);
-      setChecking(false);
-    });
-
-    const { data: sub } = supabase.auth.onAuthStateChange((_event, session) => {
-      if (!alive) return;
-      setAuthed(!!session);
-      setChecking(false);
-    });
-
-    return () => {
-      alive = false;
-      sub.subscription.unsubscribe();
-    };
-  }, []);
-
-  if (checking) {
-    return (
-      <section className="stack">
-        <div className="card">Checking login…</div>
-      </section>
-    );
-  }
-
-  if (!authed) {
-    return (
-      <Navigate
-        to="/admin"
-        replace
-        state={{ from: location.pathname + location.search }}
-      />
-    );
-  }
-
-  return <>{children}</>;
-}
@@ -0,0 +1,55 @@
+import { Link, Navigate, useLocation } from "react-router-dom";
+import { useRole, type Role } from "../lib/roles";
+
+/**
+ * Route guard: signed-out users go to the login on /admin, signed-in users
+ * without one of `roles` get a "no access" card instead of the page.
+ */
+export default function RequireRole({
+  roles,
+  children,
+}: {
+  roles: Role[];
+  children: React.ReactNode;
+}) {
+  const { loading, user, role } = useRole();
+  const location = useLocation();
+
+  if (loading) {
+    return (
+      <section className="stack">
+        <div className="card">Checking login…</div>
+      </section>
+    );
+  }
+
+  if (!user) {
+    return (
+      <Navigate
+        to="/admin"
+        replace
+        state={{ from: location.pathname + location.search }}
+      />
+    );
+  }
+
+  if (!role || !roles.includes(role)) {
+    return (
+      <section className="stack">
+        <div className="card stack">
+          <strong>No access</strong>
+          <div className="muted">
+            Your account ({role ?? "viewer"}) can’t open this page. Ask an admin for access.
+          </div>
+          <div className="row">
+            <Link className="btn ghost" to="/">
+              Back Home
+            </Link>
+          </div>
+        </div>
+      </section>
+    );
+  }
+
+  return <>{children}</>;
+}
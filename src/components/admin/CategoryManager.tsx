@@ -0,0 +1,197 @@
+import { useEffect, useState } from "react";
+import { Link } from "react-router-dom";
+import {
+  CATEGORY_DESCRIPTION_MAX_LENGTH,
+  categoryPath,
+  createCategory,
+  deleteCategory,
+  loadCategories,
+  updateCategory,
+  type Category,
+} from "../../lib/categories";
+
+type Draft = { name: string; slug: string; description: string };
+
+const EMPTY: Draft = { name: "", slug: "", description: "" };
+
+/** Editors/admins: add, rename, describe and delete categories. */
+export default function CategoryManager() {
+  const [categories, setCategories] = useState<Category[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [busy, setBusy] = useState(false);
+  const [msg, setMsg] = useState<string | null>(null);
+
+  // null = adding a new one
+  const [editingId, setEditingId] = useState<string | null>(null);
+  const [draft, setDraft] = useState<Draft>(EMPTY);
+
+  useEffect(() => {
+    let alive = true;
+
+    (async () => {
+      try {
+        const rows = await loadCategories();
+        if (alive) setCategories(rows);
+      } catch (e) {
+        if (alive) setMsg(e instanceof Error ? e.message : "Failed to load categories.");
+      } finally {
+        if (alive) setLoading(false);
+      }
+    })();
+
+    return () => {
+      alive = false;
+    };
+  }, []);
+
+  function startEdit(c: Category) {
+    setMsg(null);
+    setEditingId(c.id);
+    setDraft({ name: c.name, slug: c.slug, description: c.description ?? "" });
+  }
+
+  function cancelEdit() {
+    setEditingId(null);
+    setDraft(EMPTY);
+  }
+
+  async function save() {
+    setMsg(null);
+    setBusy(true);
+    try {
+      if (editingId) {
+        const saved = await updateCategory(editingId, draft);
+        setCategories((prev) =>
+          prev.map((c) => (c.id === saved.id ? saved : c)).sort((a, b) => a.name.localeCompare(b.name))
+        );
+        setMsg(`Saved “${saved.name}” ✅`);
+      } else {
+        const created = await createCategory(draft);
+        setCategories((prev) => [...prev, created].sort((a, b) => a.name.localeCompare(b.name)));
+        setMsg(`Added “${created.name}” ✅`);
+      }
+      cancelEdit();
+    } catch (e) {
+      setMsg(e instanceof Error ? e.message : "Failed to save category.");
+    } finally {
+      setBusy(false);
+    }
+  }
+
+  async function remove(c: Category) {
+    const yes = window.confirm(`Delete “${c.name}”? Its posts become uncategorized.`);
+    if (!yes) return;
+
+    setMsg(null);
+    setBusy(true);
+    try {
+      await deleteCategory(c.id);
+      setCategories((prev) => prev.filter((x) => x.id !== c.id));
+      if (editingId === c.id) cancelEdit();
+      setMsg(`Deleted “${c.name}” ✅`);
+    } catch (e) {
+      setMsg(e instanceof Error ? e.message : "Failed to delete category.");
+    } finally {
+      setBusy(false);
+    }
+  }
+
+  return (
+    <div className="card stack" style={{ maxWidth: 900, margin: "0 auto", width: "100%" }}>
+      <div className="sectionTitle">
+        <h3 style={{ margin: 0 }}>Categories</h3>
+        <span style={{ opacity: 0.85 }}>{categories.length} total</span>
+      </div>
+
+      <div className="stack" style={{ gap: 8 }}>
+        <div className="row" style={{ flexWrap: "wrap" }}>
+          <input
+            className="sideInput"
+            placeholder="Name"
+            value={draft.name}
+            onChange={(e) => setDraft((d) => ({ ...d, name: e.target.value }))}
+            maxLength={60}
+            style={{ flex: 2, minWidth: 180 }}
+          />
+          <input
+            className="sideInput"
+            placeholder="slug (from name)"
+            value={draft.slug}
+            onChange={(e) => setDraft((d) => ({ ...d, slug: e.target.value }))}
+            style={{ flex: 1, minWidth: 140 }}
+          />
+        </div>
+        <input
+          className="sideInput"
+          placeholder="Description (optional)"
+          value={draft.description}
+          onChange={(e) => setDraft((d) => ({ ...d, description: e.target.value }))}
+          maxLength={CATEGORY_DESCRIPTION_MAX_LENGTH}
+        />
+        <div className="row">
+          <button className="btn" type="button" onClick={save} disabled={busy || !draft.name.trim()}>
+            {editingId ? "Save category" : "Add category"}
+          </button>
+          {editingId && (
+            <button className="btn ghost" type="button" onClick={cancelEdit} disabled={busy}>
+              Cancel
+            </button>
+          )}
+        </div>
+      </div>
+
+      {msg && <div style={{ color: msg.includes("✅") ? "inherit" : "tomato" }}>{msg}</div>}
+
+      {loading ? (
+        <div style={{ opacity: 0.85 }}>Loading categories…</div>
+      ) : categories.length === 0 ? (
+        <div style={{ opacity: 0.85 }}>No categories yet.</div>
+      ) : (
+        <div style={{ display: "grid", gap: 10 }}>
+          {categories.map((c) => (
+            <div
+              key={c.id}
+              style={{
+                display: "grid",
+                gridTemplateColumns: "minmax(0, 1fr) auto",
+                gap: 12,
+                alignItems: "center",
+                border: "1px solid var(--line)",
+                borderRadius: 14,
+                padding: 12,
+                background: editingId === c.id ? "rgba(255,255,255,.07)" : "rgba(255,255,255,.03)",
+              }}
+            >
+              <div style={{ minWidth: 0 }}>
+                <div style={{ fontWeight: 800 }}>
+                  {c.name} <span style={{ opacity: 0.7, fontWeight: 400, fontSize: 12 }}>/{c.slug}</span>
+                </div>
+                {c.description && (
+                  <div style={{ opacity: 0.85, fontSize: 12, marginTop: 4 }}>{c.description}</div>
+                )}
+              </div>
+
+              <div className="row" style={{ justifyContent: "flex-end" }}>
+                <Link className="btn ghost" to={categoryPath(c)}>
+                  View
+                </Link>
+                <button className="btn ghost" type="button" onClick={() => startEdit(c)} disabled={busy}>
+                  Edit
+                </button>
+                <button
+                  className="btn ghost"
+                  type="button"
+                  onClick={() => remove(c)}
+                  disabled={busy}
+                  style={{ color: "tomato" }}
+                >
+                  Delete
+                </button>
+              </div>
+            </div>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+}
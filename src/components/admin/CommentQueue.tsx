@@ -0,0 +1,169 @@
+import { useEffect, useState } from "react";
+import { Link } from "react-router-dom";
+import { postPath } from "../../lib/posts";
+import {
+  banCommenter,
+  loadModerationQueue,
+  setCommentStatus,
+  type CommentStatus,
+  type QueuedComment,
+} from "../../lib/comments";
+import CommentBody from "../post/CommentBody";
+
+/** Pending reader comments, oldest first, with approve/reject/spam/ban. */
+export default function CommentQueue() {
+  const [queue, setQueue] = useState<QueuedComment[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [busyId, setBusyId] = useState<string | null>(null);
+  const [msg, setMsg] = useState<string | null>(null);
+  const [tick, setTick] = useState(0);
+
+  useEffect(() => {
+    let alive = true;
+
+    (async () => {
+      try {
+        const rows = await loadModerationQueue();
+        if (alive) setQueue(rows);
+      } catch (e) {
+        if (alive) setMsg(e instanceof Error ? e.message : "Failed to load comments.");
+      } finally {
+        if (alive) setLoading(false);
+      }
+    })();
+
+    return () => {
+      alive = false;
+    };
+  }, [tick]);
+
+  function refresh() {
+    setLoading(true);
+    setMsg(null);
+    setTick((t) => t + 1);
+  }
+
+  async function moderate(c: QueuedComment, status: CommentStatus) {
+    setMsg(null);
+    setBusyId(c.id);
+    try {
+      await setCommentStatus(c.id, status);
+      setQueue((prev) => prev.filter((x) => x.id !== c.id));
+      setMsg(`Comment ${status === "approved" ? "approved" : status === "spam" ? "marked as spam" : "rejected"} ✅`);
+    } catch (e) {
+      setMsg(e instanceof Error ? e.message : "Failed to update comment.");
+    } finally {
+      setBusyId(null);
+    }
+  }
+
+  async function ban(c: QueuedComment) {
+    const who = c.author_name || "this commenter";
+    if (!window.confirm(`Ban ${who}? Everything they have waiting will be marked as spam.`)) return;
+
+    setMsg(null);
+    setBusyId(c.id);
+    try {
+      await banCommenter(c);
+      // their other pending comments went to spam too
+      setQueue((prev) =>
+        prev.filter((x) =>
+          c.author_id ? x.author_id !== c.author_id : x.visitor_id !== c.visitor_id
+        )
+      );
+      setMsg(`${who} banned ✅`);
+    } catch (e) {
+      setMsg(e instanceof Error ? e.message : "Failed to ban commenter.");
+    } finally {
+      setBusyId(null);
+    }
+  }
+
+  return (
+    <div className="card stack" style={{ maxWidth: 900, margin: "0 auto", width: "100%" }}>
+      <div className="sectionTitle">
+        <h3 style={{ margin: 0 }}>Comments</h3>
+        <span style={{ opacity: 0.85 }}>{queue.length} waiting</span>
+      </div>
+
+      <div className="row">
+        <button className="btn ghost" type="button" onClick={refresh} disabled={loading}>
+          {loading ? "Refreshing…" : "Refresh"}
+        </button>
+      </div>
+
+      {msg && (
+        <div style={{ color: msg.includes("✅") ? "inherit" : "tomato" }}>{msg}</div>
+      )}
+
+      {loading ? (
+        <div style={{ opacity: 0.85 }}>Loading comments…</div>
+      ) : queue.length === 0 ? (
+        <div style={{ opacity: 0.85 }}>Nothing to moderate.</div>
+      ) : (
+        <div style={{ display: "grid", gap: 10 }}>
+          {queue.map((c) => (
+            <div
+              key={c.id}
+              className="stack"
+              style={{
+                gap: 8,
+                border: "1px solid var(--line)",
+                borderRadius: 14,
+                padding: 12,
+                background: "rgba(255,255,255,.03)",
+              }}
+            >
+              <div style={{ fontSize: 12, opacity: 0.85 }}>
+                <strong>{c.author_name || "Anonymous"}</strong>
+                {" on "}
+                {c.post ? <Link to={postPath(c.post)}>{c.post.title}</Link> : "a deleted post"}
+                {" • "}
+                {new Date(c.created_at).toLocaleString()}
+                {c.parent_id && " • reply"}
+              </div>
+
+              <CommentBody body={c.body} />
+
+              <div className="row" style={{ flexWrap: "wrap" }}>
+                <button
+                  className="btn"
+                  type="button"
+                  onClick={() => moderate(c, "approved")}
+                  disabled={busyId === c.id}
+                >
+                  Approve
+                </button>
+                <button
+                  className="btn ghost"
+                  type="button"
+                  onClick={() => moderate(c, "rejected")}
+                  disabled={busyId === c.id}
+                >
+                  Reject
+                </button>
+                <button
+                  className="btn ghost"
+                  type="button"
+                  onClick={() => moderate(c, "spam")}
+                  disabled={busyId === c.id}
+                >
+                  Spam
+                </button>
+                <button
+                  className="btn ghost"
+                  type="button"
+                  onClick={() => ban(c)}
+                  disabled={busyId === c.id || (!c.author_id && !c.visitor_id)}
+                  style={{ color: "tomato" }}
+                >
+                  Ban
+                </button>
+              </div>
+            </div>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+}
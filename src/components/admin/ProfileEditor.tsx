@@ -0,0 +1,183 @@
+import { useEffect, useState, type ChangeEvent } from "react";
+import { Link } from "react-router-dom";
+import {
+  authorPath,
+  avatarUrl,
+  BIO_MAX_LENGTH,
+  formatLinks,
+  handleFromName,
+  loadOwnProfile,
+  parseLinks,
+  saveAuthorProfile,
+  uploadAvatar,
+  type AuthorProfile,
+} from "../../lib/authors";
+
+/** The signed-in author's public profile (byline, /author/:handle). */
+export default function ProfileEditor({ userId }: { userId: string }) {
+  const [profile, setProfile] = useState<AuthorProfile | null>(null);
+  const [loading, setLoading] = useState(true);
+  const [busy, setBusy] = useState(false);
+  const [msg, setMsg] = useState<string | null>(null);
+
+  const [displayName, setDisplayName] = useState("");
+  const [handle, setHandle] = useState("");
+  const [avatarPath, setAvatarPath] = useState<string | null>(null);
+  const [bio, setBio] = useState("");
+  const [linksRaw, setLinksRaw] = useState("");
+
+  useEffect(() => {
+    let alive = true;
+
+    (async () => {
+      try {
+        const p = await loadOwnProfile(userId);
+        if (!alive || !p) return;
+        setProfile(p);
+        setDisplayName(p.display_name);
+        setHandle(p.handle);
+        setAvatarPath(p.avatar_path);
+        setBio(p.bio ?? "");
+        setLinksRaw(formatLinks(p.links));
+      } catch (e) {
+        if (alive) setMsg(e instanceof Error ? e.message : "Failed to load your profile.");
+      } finally {
+        if (alive) setLoading(false);
+      }
+    })();
+
+    return () => {
+      alive = false;
+    };
+  }, [userId]);
+
+  async function onAvatar(e: ChangeEvent<HTMLInputElement>) {
+    const file = e.target.files?.[0];
+    e.target.value = "";
+    if (!file) return;
+
+    setMsg(null);
+    setBusy(true);
+    try {
+      setAvatarPath(await uploadAvatar(file));
+      setMsg("Avatar uploaded. Save to use it ✅");
+    } catch (e) {
+      setMsg(e instanceof Error ? e.message : "Failed to upload avatar.");
+    } finally {
+      setBusy(false);
+    }
+  }
+
+  async function save() {
+    setMsg(null);
+    setBusy(true);
+    try {
+      const saved = await saveAuthorProfile({
+        userId,
+        handle: handle || handleFromName(displayName),
+        displayName,
+        avatarPath,
+        bio,
+        links: parseLinks(linksRaw),
+      });
+      setProfile(saved);
+      setHandle(saved.handle);
+      setLinksRaw(formatLinks(saved.links));
+      setMsg("Profile saved ✅");
+    } catch (e) {
+      setMsg(e instanceof Error ? e.message : "Failed to save profile.");
+    } finally {
+      setBusy(false);
+    }
+  }
+
+  const avatar = avatarUrl(avatarPath);
+
+  return (
+    <div className="card stack" style={{ maxWidth: 900, margin: "0 auto", width: "100%" }}>
+      <div className="sectionTitle">
+        <h3 style={{ margin: 0 }}>Your profile</h3>
+        {profile ? (
+          <Link to={authorPath(profile)} style={{ opacity: 0.85 }}>
+            View page
+          </Link>
+        ) : (
+          <span style={{ opacity: 0.85 }}>not set up</span>
+        )}
+      </div>
+
+      {loading ? (
+        <div style={{ opacity: 0.85 }}>Loading profile…</div>
+      ) : (
+        <>
+          {!profile && (
+            <div className="muted" style={{ fontSize: 12 }}>
+              Posts show a byline once you have a profile.
+            </div>
+          )}
+
+          <div className="row" style={{ alignItems: "center", gap: 12 }}>
+            {avatar ? (
+              <img className="avatar" src={avatar} alt="Your avatar" width={64} height={64} />
+            ) : (
+              <div className="avatar" style={{ width: 64, height: 64 }} />
+            )}
+            <label className="btn ghost" style={{ cursor: busy ? "not-allowed" : "pointer" }}>
+              {avatar ? "Change avatar" : "Upload avatar"}
+              <input type="file" accept="image/*" onChange={onAvatar} disabled={busy} style={{ display: "none" }} />
+            </label>
+            {avatar && (
+              <button className="btn ghost" type="button" onClick={() => setAvatarPath(null)} disabled={busy}>
+                Remove
+              </button>
+            )}
+          </div>
+
+          <label className="field">
+            <span>Display name</span>
+            <input
+              value={displayName}
+              onChange={(e) => setDisplayName(e.target.value)}
+              onBlur={() => setHandle((h) => h || handleFromName(displayName))}
+              maxLength={80}
+              placeholder="Jane Doe"
+            />
+          </label>
+
+          <label className="field">
+            <span>Handle (your page is /author/{handle || "…"})</span>
+            <input
+              value={handle}
+              onChange={(e) => setHandle(e.target.value.toLowerCase())}
+              maxLength={40}
+              placeholder="jane-doe"
+            />
+          </label>
+
+          <label className="field">
+            <span>Bio</span>
+            <textarea value={bio} onChange={(e) => setBio(e.target.value)} rows={4} maxLength={BIO_MAX_LENGTH} />
+          </label>
+
+          <label className="field">
+            <span>Links (one per line: “Label | https://…”)</span>
+            <textarea
+              value={linksRaw}
+              onChange={(e) => setLinksRaw(e.target.value)}
+              rows={3}
+              placeholder={"Instagram | https://instagram.com/you\nhttps://you.bandcamp.com"}
+            />
+          </label>
+
+          {msg && <div style={{ color: msg.includes("✅") ? "inherit" : "tomato" }}>{msg}</div>}
+
+          <div className="row">
+            <button className="btn" type="button" onClick={save} disabled={busy || !displayName.trim()}>
+              {busy ? "Saving…" : "Save profile"}
+            </button>
+          </div>
+        </>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,55 @@
+import { useState } from "react";
+import { rebuildRelated } from "../../lib/related";
+import { SITE } from "../../lib/site";
+
+/**
+ * Editors/admins: re-score related posts for every post. Saving a post
+ * already updates its own matches; this catches up the rest (and indexes
+ * posts written before related posts existed).
+ */
+export default function RelatedIndex() {
+  const [busy, setBusy] = useState(false);
+  const [progress, setProgress] = useState<{ done: number; total: number } | null>(null);
+  const [msg, setMsg] = useState<string | null>(null);
+
+  async function rebuild() {
+    setMsg(null);
+    setBusy(true);
+    try {
+      const n = await rebuildRelated((done, total) => setProgress({ done, total }));
+      setMsg(`Re-indexed ${n} post${n === 1 ? "" : "s"} ✅`);
+    } catch (e) {
+      setMsg(e instanceof Error ? e.message : "Failed to rebuild related posts.");
+    } finally {
+      setBusy(false);
+      setProgress(null);
+    }
+  }
+
+  return (
+    <div className="card stack" style={{ maxWidth: 900, margin: "0 auto", width: "100%" }}>
+      <div className="sectionTitle">
+        <h3 style={{ margin: 0 }}>Related posts</h3>
+        <span style={{ opacity: 0.85 }}>{SITE.relatedCount} shown per post</span>
+      </div>
+
+      <div style={{ opacity: 0.85, fontSize: 13 }}>
+        Matches come from shared tags, category and wording, and update whenever a post is saved.
+        Rebuild after bulk changes or to refresh older posts.
+      </div>
+
+      <div className="row">
+        <button className="btn" type="button" onClick={rebuild} disabled={busy}>
+          {busy ? "Rebuilding…" : "Rebuild related posts"}
+        </button>
+        {progress && (
+          <span style={{ opacity: 0.85 }}>
+            {progress.done} / {progress.total}
+          </span>
+        )}
+      </div>
+
+      {msg && <div style={{ color: msg.includes("✅") ? "inherit" : "tomato" }}>{msg}</div>}
+    </div>
+  );
+}
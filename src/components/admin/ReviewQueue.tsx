@@ -0,0 +1,124 @@
+import { useEffect, useState } from "react";
+import { Link } from "react-router-dom";
+import { loadReviewQueue, type ReviewQueueItem } from "../../lib/reviews";
+
+// "3d" / "5h" / "12m" since a timestamp
+function waitingFor(iso: string | null, now: number) {
+  if (!iso) return null;
+  const mins = Math.max(0, Math.floor((now - new Date(iso).getTime()) / 60000));
+  if (mins >= 1440) return `${Math.floor(mins / 1440)}d`;
+  if (mins >= 60) return `${Math.floor(mins / 60)}h`;
+  return `${mins}m`;
+}
+
+/**
+ * Posts stuck in review, and who they're waiting on: reviewers (in review)
+ * or the author (changes requested). Authors only see their own.
+ */
+export default function ReviewQueue({ currentUserId }: { currentUserId: string }) {
+  const [items, setItems] = useState<ReviewQueueItem[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [msg, setMsg] = useState<string | null>(null);
+  const [tick, setTick] = useState(0);
+  const [now, setNow] = useState(() => Date.now());
+
+  useEffect(() => {
+    let alive = true;
+
+    (async () => {
+      try {
+        const rows = await loadReviewQueue();
+        if (!alive) return;
+        setItems(rows);
+        setNow(Date.now());
+      } catch (e) {
+        if (alive) setMsg(e instanceof Error ? e.message : "Failed to load the review queue.");
+      } finally {
+        if (alive) setLoading(false);
+      }
+    })();
+
+    return () => {
+      alive = false;
+    };
+  }, [tick]);
+
+  function refresh() {
+    setLoading(true);
+    setMsg(null);
+    setTick((t) => t + 1);
+  }
+
+  const who = (id: string | null, email: string | null) =>
+    id === currentUserId ? "you" : email ?? "its author";
+
+  const inReview = items.filter((i) => i.status === "in_review").length;
+
+  return (
+    <div className="card stack" style={{ maxWidth: 900, margin: "0 auto", width: "100%" }}>
+      <div className="sectionTitle">
+        <h3 style={{ margin: 0 }}>Review</h3>
+        <span style={{ opacity: 0.85 }}>
+          {inReview} in review • {items.length - inReview} with changes requested
+        </span>
+      </div>
+
+      <div className="row">
+        <button className="btn ghost" type="button" onClick={refresh} disabled={loading}>
+          {loading ? "Refreshing…" : "Refresh"}
+        </button>
+      </div>
+
+      {msg && <div style={{ color: "tomato" }}>{msg}</div>}
+
+      {loading ? (
+        <div style={{ opacity: 0.85 }}>Loading review queue…</div>
+      ) : items.length === 0 ? (
+        <div style={{ opacity: 0.85 }}>Nothing waiting for review.</div>
+      ) : (
+        <div style={{ display: "grid", gap: 10 }}>
+          {items.map((i) => {
+            const waitingOnAuthor = i.status === "draft";
+            const since = waitingFor(waitingOnAuthor ? i.reviewed_at : i.submitted_at, now);
+            return (
+              <div
+                key={i.post_id}
+                style={{
+                  display: "grid",
+                  gridTemplateColumns: "minmax(0, 1fr) auto",
+                  gap: 12,
+                  alignItems: "center",
+                  border: "1px solid var(--line)",
+                  borderRadius: 14,
+                  padding: 12,
+                  background: "rgba(255,255,255,.03)",
+                }}
+              >
+                <div style={{ minWidth: 0 }}>
+                  <div style={{ fontWeight: 800, overflow: "hidden", textOverflow: "ellipsis", whiteSpace: "nowrap" }}>
+                    {i.title}
+                  </div>
+                  <div style={{ opacity: 0.85, fontSize: 12, marginTop: 4 }}>
+                    by {who(i.author_id, i.author_email)}
+                    {" • "}
+                    {waitingOnAuthor
+                      ? `changes requested by ${i.reviewer_email ?? "a reviewer"}, waiting on ${who(i.author_id, i.author_email)}`
+                      : "waiting on a reviewer"}
+                    {since && ` for ${since}`}
+                  </div>
+                </div>
+
+                <div className="row" style={{ justifyContent: "flex-end" }}>
+                  {i.open_comments > 0 && <span className="chip">{i.open_comments} open</span>}
+                  <Link className="btn" to={`/edit/${i.post_id}`}>
+                    {waitingOnAuthor ? "Open" : "Review"}
+                  </Link>
+                </div>
+              </div>
+            );
+          })}
+        </div>
+      )}
+    </div>
+  );
+}
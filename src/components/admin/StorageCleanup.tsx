@@ -0,0 +1,124 @@
+import { useState } from "react";
+import { Link } from "react-router-dom";
+import { thumbUrlFromPath } from "../../lib/images";
+import { formatBytes } from "../../lib/media";
+import { ORPHAN_MIN_AGE_HOURS, deleteOrphans, scanStorage, type StorageReport } from "../../lib/storageGc";
+
+/** Admins: find files nothing points at (and references to missing files), then clean up. */
+export default function StorageCleanup() {
+  const [report, setReport] = useState<StorageReport | null>(null);
+  const [busy, setBusy] = useState(false);
+  const [msg, setMsg] = useState<string | null>(null);
+
+  async function scan() {
+    setMsg(null);
+    setBusy(true);
+    try {
+      setReport(await scanStorage());
+    } catch (e) {
+      setMsg(e instanceof Error ? e.message : "Failed to scan storage.");
+    } finally {
+      setBusy(false);
+    }
+  }
+
+  async function cleanup() {
+    if (!report?.orphans.length) return;
+    const yes = window.confirm(
+      `Delete ${report.orphans.length} unused image(s) (${formatBytes(report.orphanBytes)})? This cannot be undone.`
+    );
+    if (!yes) return;
+
+    setMsg(null);
+    setBusy(true);
+    try {
+      const { deleted, kept } = await deleteOrphans(report);
+      setReport(await scanStorage());
+      setMsg(`Deleted ${deleted} image(s)${kept ? `, kept ${kept} that are in use again` : ""} ✅`);
+    } catch (e) {
+      setMsg(e instanceof Error ? e.message : "Failed to delete images.");
+    } finally {
+      setBusy(false);
+    }
+  }
+
+  return (
+    <div className="card stack" style={{ maxWidth: 900, margin: "0 auto", width: "100%" }}>
+      <div className="sectionTitle">
+        <h3 style={{ margin: 0 }}>Storage cleanup</h3>
+        {report && (
+          <span style={{ opacity: 0.85 }}>
+            {report.objects} files • scanned {new Date(report.scannedAt).toLocaleTimeString()}
+          </span>
+        )}
+      </div>
+
+      <div style={{ opacity: 0.85, fontSize: 13 }}>
+        Compares the bucket with post covers, post images, images in post bodies and avatars. Scanning is a dry run; files
+        uploaded in the last {ORPHAN_MIN_AGE_HOURS}h are never deleted.
+      </div>
+
+      <div className="row">
+        <button className="btn ghost" type="button" onClick={scan} disabled={busy}>
+          {busy ? "Working…" : report ? "Scan again" : "Scan (dry run)"}
+        </button>
+        {report && (
+          <button
+            className="btn ghost"
+            type="button"
+            onClick={cleanup}
+            disabled={busy || !report.orphans.length}
+            style={{ color: "tomato" }}
+          >
+            Delete {report.orphans.length} unused ({formatBytes(report.orphanBytes)})
+          </button>
+        )}
+      </div>
+
+      {msg && <div style={{ color: msg.includes("✅") ? "inherit" : "tomato" }}>{msg}</div>}
+
+      {report && (
+        <>
+          <div className="stack" style={{ gap: 8 }}>
+            <strong>Unused files ({report.orphans.length})</strong>
+            {report.orphans.length === 0 ? (
+              <div style={{ opacity: 0.85 }}>Nothing to clean up.</div>
+            ) : (
+              <div className="thumbGrid">
+                {report.orphans.map((m) => (
+                  <div key={m.path} className="thumb" title={`${m.path} • ${formatBytes(m.bytes)}`} style={{ aspectRatio: "1" }}>
+                    <img src={thumbUrlFromPath(m.path, 160) ?? ""} alt={m.name} loading="lazy" />
+                  </div>
+                ))}
+              </div>
+            )}
+            {report.recent.length > 0 && (
+              <div style={{ opacity: 0.85, fontSize: 12 }}>
+                {report.recent.length} more unused file(s) are newer than {ORPHAN_MIN_AGE_HOURS}h and were skipped.
+              </div>
+            )}
+          </div>
+
+          <div className="stack" style={{ gap: 8 }}>
+            <strong>Missing files ({report.dangling.length})</strong>
+            {report.dangling.length === 0 ? (
+              <div style={{ opacity: 0.85 }}>Every reference points at a file that exists.</div>
+            ) : (
+              <div style={{ display: "grid", gap: 6, fontSize: 13 }}>
+                {report.dangling.map((d) => (
+                  <div key={`${d.id}-${d.as}-${d.path}`}>
+                    <Link to={d.as === "avatar" ? d.href : `/edit/${d.id}`}>{d.label}</Link>
+                    <span style={{ opacity: 0.7 }}>
+                      {" "}
+                      ({d.as}) → {d.path}
+                    </span>
+                  </div>
+                ))}
+              </div>
+            )}
+          </div>
+        </>
+      )}
+    </div>
+  );
+}
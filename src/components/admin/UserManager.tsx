@@ -0,0 +1,132 @@
+import { useEffect, useState } from "react";
+import { loadUserRoles, ROLES, setUserRole, type Role, type UserRoleRow } from "../../lib/roles";
+
+const selectStyle = {
+  borderRadius: 12,
+  border: "1px solid var(--line)",
+  background: "rgba(255,255,255,.04)",
+  color: "var(--text)",
+  padding: "8px 10px",
+};
+
+/** Admin-only: everyone who has signed up, with a role picker each. */
+export default function UserManager({ currentUserId }: { currentUserId: string }) {
+  const [users, setUsers] = useState<UserRoleRow[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [busyId, setBusyId] = useState<string | null>(null);
+  const [msg, setMsg] = useState<string | null>(null);
+  const [query, setQuery] = useState("");
+
+  useEffect(() => {
+    let alive = true;
+
+    (async () => {
+      try {
+        const rows = await loadUserRoles();
+        if (alive) setUsers(rows);
+      } catch (e) {
+        if (alive) setMsg(e instanceof Error ? e.message : "Failed to load users.");
+      } finally {
+        if (alive) setLoading(false);
+      }
+    })();
+
+    return () => {
+      alive = false;
+    };
+  }, []);
+
+  async function changeRole(u: UserRoleRow, role: Role) {
+    if (role === u.role) return;
+    if (u.user_id === currentUserId && role !== "admin") {
+      const yes = window.confirm("Remove your own admin access? You won't be able to undo this yourself.");
+      if (!yes) return;
+    }
+
+    setMsg(null);
+    setBusyId(u.user_id);
+    try {
+      await setUserRole(u.user_id, role);
+      setUsers((prev) => prev.map((x) => (x.user_id === u.user_id ? { ...x, role } : x)));
+      setMsg(`${u.email ?? "User"} is now ${role} ✅`);
+    } catch (e) {
+      setMsg(e instanceof Error ? e.message : "Failed to change role.");
+    } finally {
+      setBusyId(null);
+    }
+  }
+
+  const q = query.trim().toLowerCase();
+  const shown = q ? users.filter((u) => (u.email ?? "").toLowerCase().includes(q)) : users;
+
+  return (
+    <div className="card stack" style={{ maxWidth: 900, margin: "0 auto", width: "100%" }}>
+      <div className="sectionTitle">
+        <h3 style={{ margin: 0 }}>Users</h3>
+        <span style={{ opacity: 0.85 }}>{users.length} accounts</span>
+      </div>
+
+      <div className="muted" style={{ fontSize: 12 }}>
+        Admins manage everything • editors edit any post and moderate comments • authors
+        edit their own posts • viewers can only comment.
+      </div>
+
+      <input
+        className="sideInput"
+        placeholder="Search by email…"
+        value={query}
+        onChange={(e) => setQuery(e.target.value)}
+      />
+
+      {msg && <div style={{ color: msg.includes("✅") ? "inherit" : "tomato" }}>{msg}</div>}
+
+      {loading ? (
+        <div style={{ opacity: 0.85 }}>Loading users…</div>
+      ) : shown.length === 0 ? (
+        <div style={{ opacity: 0.85 }}>No users match.</div>
+      ) : (
+        <div style={{ display: "grid", gap: 10 }}>
+          {shown.map((u) => (
+            <div
+              key={u.user_id}
+              style={{
+                display: "grid",
+                gridTemplateColumns: "minmax(0, 1fr) auto",
+                gap: 12,
+                alignItems: "center",
+                border: "1px solid var(--line)",
+                borderRadius: 14,
+                padding: 12,
+                background: "rgba(255,255,255,.03)",
+              }}
+            >
+              <div style={{ minWidth: 0 }}>
+                <div style={{ fontWeight: 800, overflow: "hidden", textOverflow: "ellipsis", whiteSpace: "nowrap" }}>
+                  {u.email ?? u.user_id}
+                  {u.user_id === currentUserId && " (you)"}
+                </div>
+                <div style={{ opacity: 0.85, fontSize: 12, marginTop: 4 }}>
+                  Joined {new Date(u.created_at).toLocaleDateString()}
+                </div>
+              </div>
+
+              <select
+                value={u.role}
+                onChange={(e) => changeRole(u, e.target.value as Role)}
+                disabled={busyId === u.user_id}
+                aria-label={`Role for ${u.email ?? u.user_id}`}
+                style={selectStyle}
+              >
+                {ROLES.map((r) => (
+                  <option key={r} value={r}>
+                    {r}
+                  </option>
+                ))}
+              </select>
+            </div>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,87 @@
+import { useEffect, useState } from "react";
+import { loadDailyViews, type DailyViews } from "../../lib/views";
+
+type Props = {
+  postId: string;
+  days?: number;
+};
+
+const W = 600;
+const H = 120;
+
+/** Bar chart of one post's views per day (Admin). */
+export default function ViewsChart({ postId, days = 30 }: Props) {
+  const [rows, setRows] = useState<DailyViews[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [err, setErr] = useState<string | null>(null);
+
+  useEffect(() => {
+    let alive = true;
+
+    loadDailyViews(postId, days)
+      .then((r) => {
+        if (alive) setRows(r);
+      })
+      .catch((e) => {
+        if (alive) setErr(e?.message ?? "Failed to load views.");
+      })
+      .finally(() => {
+        if (alive) setLoading(false);
+      });
+
+    return () => {
+      alive = false;
+    };
+  }, [postId, days]);
+
+  if (loading) return <div style={{ opacity: 0.85, fontSize: 12 }}>Loading views…</div>;
+  if (err) return <div style={{ color: "tomato", fontSize: 12 }}>{err}</div>;
+
+  const total = rows.reduce((n, r) => n + r.views, 0);
+  const max = Math.max(1, ...rows.map((r) => r.views));
+  const barW = W / Math.max(1, rows.length);
+
+  return (
+    <div style={{ display: "grid", gap: 6 }}>
+      <div style={{ opacity: 0.85, fontSize: 12 }}>
+        {total.toLocaleString()} views in the last {days} days
+      </div>
+
+      <svg
+        viewBox={`0 0 ${W} ${H}`}
+        preserveAspectRatio="none"
+        role="img"
+        aria-label={`Daily views, last ${days} days`}
+        style={{ width: "100%", height: H, display: "block" }}
+      >
+        <line x1={0} y1={H - 0.5} x2={W} y2={H - 0.5} stroke="var(--line, rgba(255,255,255,.12))" />
+        {rows.map((r, i) => {
+          const h = (r.views / max) * (H - 8);
+          return (
+            <rect
+              key={r.day}
+              x={i * barW + 1}
+              y={H - h}
+              width={Math.max(1, barW - 2)}
+              height={h}
+              rx={2}
+              fill="currentColor"
+              opacity={0.7}
+            >
+              <title>
+                {new Date(`${r.day}T00:00:00`).toLocaleDateString()}: {r.views}
+              </title>
+            </rect>
+          );
+        })}
+      </svg>
+
+      {rows.length > 0 && (
+        <div style={{ display: "flex", justifyContent: "space-between", opacity: 0.7, fontSize: 11 }}>
+          <span>{new Date(`${rows[0].day}T00:00:00`).toLocaleDateString()}</span>
+          <span>today</span>
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,85 @@
+import { useEffect, useMemo, useState } from "react";
+import Modal from "../ui/Modal";
+import { thumbUrlFromPath } from "../../lib/images";
+import { loadMediaLibrary, matchesMedia, type MediaItem } from "../../lib/media";
+
+type Props = {
+  open: boolean;
+  onClose: () => void;
+  onPick: (path: string) => void;
+  title?: string;
+};
+
+/** Reuse an image that's already in the bucket instead of uploading it again. */
+export default function MediaPicker({ open, onClose, onPick, title = "Choose an image" }: Props) {
+  const [items, setItems] = useState<MediaItem[] | null>(null);
+  const [err, setErr] = useState<string | null>(null);
+  const [query, setQuery] = useState("");
+
+  useEffect(() => {
+    let alive = true;
+    if (!open) return;
+
+    loadMediaLibrary()
+      .then((rows) => {
+        if (alive) setItems(rows.filter((m) => !m.mimetype || m.mimetype.startsWith("image/")));
+      })
+      .catch((e) => {
+        if (alive) setErr(e instanceof Error ? e.message : "Failed to load media.");
+      });
+
+    return () => {
+      alive = false;
+    };
+  }, [open]);
+
+  const shown = useMemo(() => (items ?? []).filter((m) => matchesMedia(m, query)), [items, query]);
+
+  return (
+    <Modal open={open} onClose={onClose} labelledBy="media-picker-title">
+      <div className="stack" style={{ padding: 14, maxHeight: "80vh" }}>
+        <div className="row" style={{ justifyContent: "space-between" }}>
+          <strong id="media-picker-title">{title}</strong>
+          <button className="btn ghost" type="button" onClick={onClose}>
+            Close
+          </button>
+        </div>
+
+        <input
+          className="sideInput"
+          placeholder="Search file names or post titles…"
+          value={query}
+          onChange={(e) => setQuery(e.target.value)}
+        />
+
+        {err && <div style={{ color: "tomato" }}>{err}</div>}
+
+        <div style={{ overflowY: "auto", minHeight: 120 }}>
+          {!items && !err ? (
+            <div className="muted">Loading media…</div>
+          ) : shown.length === 0 ? (
+            <div className="muted">No images match.</div>
+          ) : (
+            <div className="thumbGrid">
+              {shown.map((m) => (
+                <button
+                  key={m.path}
+                  type="button"
+                  className="thumb"
+                  title={m.path}
+                  onClick={() => {
+                    onPick(m.path);
+                    onClose();
+                  }}
+                  style={{ padding: 0, cursor: "pointer", aspectRatio: "1", color: "inherit" }}
+                >
+                  <img src={thumbUrlFromPath(m.path) ?? ""} alt={m.name} loading="lazy" />
+                </button>
+              ))}
+            </div>
+          )}
+        </div>
+      </div>
+    </Modal>
+  );
+}
@@ -0,0 +1,204 @@
+import { useRef, useState, type ClipboardEvent, type CSSProperties, type DragEvent } from "react";
+import Modal from "../ui/Modal";
+import { imageMarkdown } from "../../lib/markdown";
+import { removeBlogImages, uploadBlogImage } from "../../lib/uploadImage";
+
+type Props = {
+  id?: string;
+  value: string;
+  onChange: (next: string) => void;
+  // storage folder for embedded images
+  folder: string;
+  rows?: number;
+  placeholder?: string;
+  disabled?: boolean;
+  style?: CSSProperties;
+  // every image uploaded here, so the page can clean up ones that end up unused
+  onUploaded?: (path: string) => void;
+};
+
+// `path` once uploaded, so a retry after a failed upload skips it
+type Embed = { file: File; previewUrl: string; alt: string; caption: string; path?: string };
+
+// Offset in the textarea under the pointer, where the browser can tell us
+function offsetAtPoint(el: HTMLTextAreaElement, x: number, y: number) {
+  if (typeof document.caretPositionFromPoint !== "function") return null;
+  const pos = document.caretPositionFromPoint(x, y);
+  return pos && pos.offsetNode === el ? pos.offset : null;
+}
+
+/**
+ * Markdown body textarea. Images dropped or pasted into it are uploaded
+ * and embedded where they were dropped (or at the cursor), after asking
+ * for alt text (required) and an optional caption.
+ */
+export default function BodyEditor({
+  id,
+  value,
+  onChange,
+  folder,
+  rows = 10,
+  placeholder,
+  disabled,
+  style,
+  onUploaded,
+}: Props) {
+  const ref = useRef<HTMLTextAreaElement>(null);
+  const [embeds, setEmbeds] = useState<Embed[]>([]);
+  const [insertAt, setInsertAt] = useState(0);
+  const [uploading, setUploading] = useState(false);
+  const [msg, setMsg] = useState<string | null>(null);
+
+  function take(files: FileList | null, at?: number | null) {
+    const images = Array.from(files ?? []).filter((f) => f.type.startsWith("image/"));
+    if (!images.length) return false;
+
+    setMsg(null);
+    setInsertAt(at ?? ref.current?.selectionEnd ?? value.length);
+    setEmbeds(images.map((file) => ({ file, previewUrl: URL.createObjectURL(file), alt: "", caption: "" })));
+    return true;
+  }
+
+  function onDrop(e: DragEvent<HTMLTextAreaElement>) {
+    if (take(e.dataTransfer.files, offsetAtPoint(e.currentTarget, e.clientX, e.clientY))) e.preventDefault();
+  }
+
+  function onPaste(e: ClipboardEvent<HTMLTextAreaElement>) {
+    if (take(e.clipboardData.files)) e.preventDefault();
+  }
+
+  function close() {
+    if (uploading) return;
+    embeds.forEach((x) => URL.revokeObjectURL(x.previewUrl));
+
+    // cancelled after a partly failed insert: those files were never used
+    const orphans = embeds.flatMap((x) => (x.path ? [x.path] : []));
+    if (orphans.length) removeBlogImages(orphans).catch((e) => console.error(e));
+
+    setEmbeds([]);
+    setMsg(null);
+  }
+
+  function update(i: number, patch: Partial<Embed>) {
+    setEmbeds((prev) => prev.map((x, j) => (j === i ? { ...x, ...patch } : x)));
+  }
+
+  async function insert() {
+    if (embeds.some((x) => !x.alt.trim())) {
+      setMsg("Describe every image for readers who can't see it (alt text).");
+      return;
+    }
+
+    setMsg(null);
+    setUploading(true);
+    try {
+      const snippets: string[] = [];
+      for (let i = 0; i < embeds.length; i++) {
+        let path = embeds[i].path;
+        if (!path) {
+          setMsg(`Uploading image ${i + 1} of ${embeds.length}…`);
+          path = (await uploadBlogImage(embeds[i].file, folder)).path;
+          update(i, { path });
+          onUploaded?.(path);
+        }
+        snippets.push(imageMarkdown(embeds[i].alt, path, embeds[i].caption));
+      }
+
+      // Images get a paragraph of their own
+      const before = value.slice(0, insertAt);
+      const after = value.slice(insertAt);
+      const lead = before && !before.endsWith("\n\n") ? (before.endsWith("\n") ? "\n" : "\n\n") : "";
+      const trail = after.startsWith("\n\n") ? "" : after.startsWith("\n") ? "\n" : "\n\n";
+      onChange(before + lead + snippets.join("\n\n") + trail + after);
+
+      embeds.forEach((x) => URL.revokeObjectURL(x.previewUrl));
+      setEmbeds([]);
+      setMsg(null);
+    } catch (e) {
+      setMsg(e instanceof Error ? e.message : "Failed to upload image.");
+    } finally {
+      setUploading(false);
+    }
+  }
+
+  return (
+    <>
+      <textarea
+        id={id}
+        ref={ref}
+        value={value}
+        onChange={(e) => onChange(e.target.value)}
+        onDrop={onDrop}
+        onPaste={onPaste}
+        rows={rows}
+        placeholder={placeholder}
+        disabled={disabled}
+        style={style}
+      />
+      <div className="row muted" style={{ fontSize: 12, justifyContent: "space-between" }}>
+        <span>Drop or paste images to place them in the text.</span>
+        <label style={{ cursor: disabled ? "not-allowed" : "pointer", textDecoration: "underline" }}>
+          Insert image…
+          <input
+            type="file"
+            accept="image/*"
+            multiple
+            disabled={disabled}
+            onChange={(e) => {
+              take(e.target.files);
+              e.target.value = "";
+            }}
+            style={{ display: "none" }}
+          />
+        </label>
+      </div>
+
+      <Modal open={embeds.length > 0} onClose={close} labelledBy="embed-title">
+        <div className="stack" style={{ padding: 14, maxHeight: "85vh", overflowY: "auto" }}>
+          <strong id="embed-title">Insert {embeds.length === 1 ? "image" : `${embeds.length} images`}</strong>
+
+          {embeds.map((x, i) => (
+            <div
+              key={x.previewUrl}
+              style={{ display: "grid", gridTemplateColumns: "120px minmax(0, 1fr)", gap: 12, alignItems: "start" }}
+            >
+              <div className="thumb" style={{ height: 90 }}>
+                <img src={x.previewUrl} alt="" />
+              </div>
+              <div className="stack" style={{ gap: 8 }}>
+                <input
+                  className="sideInput"
+                  placeholder="Alt text (required): what the image shows"
+                  value={x.alt}
+                  onChange={(e) => update(i, { alt: e.target.value })}
+                  maxLength={300}
+                  disabled={uploading}
+                  autoFocus={i === 0}
+                />
+                <input
+                  className="sideInput"
+                  placeholder="Caption (optional)"
+                  value={x.caption}
+                  onChange={(e) => update(i, { caption: e.target.value })}
+                  maxLength={300}
+                  disabled={uploading}
+                />
+              </div>
+            </div>
+          ))}
+
+          {msg && <div style={{ color: uploading ? "inherit" : "tomato", fontSize: 13 }}>{msg}</div>}
+
+          <div className="row">
+            <button className="btn" type="button" onClick={insert} disabled={uploading}>
+              {uploading ? "Uploading…" : "Insert"}
+            </button>
+            <button className="btn ghost" type="button" onClick={close} disabled={uploading}>
+              Cancel
+            </button>
+          </div>
+        </div>
+      </Modal>
+    </>
+  );
+}
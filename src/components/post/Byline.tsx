@@ -0,0 +1,21 @@
+import { Link } from "react-router-dom";
+import { authorPath, avatarUrl, type AuthorProfile } from "../../lib/authors";
+
+type Props = {
+  author: AuthorProfile;
+  // avatar size in px
+  size?: number;
+};
+
+/** Avatar + "by <name>", linking to the author's page. */
+export default function Byline({ author, size = 28 }: Props) {
+  const img = avatarUrl(author.avatar_path);
+  return (
+    <span className="byline">
+      {img && <img className="avatar" src={img} alt="" width={size} height={size} loading="lazy" />}
+      <span>
+        by <Link to={authorPath(author)}>{author.display_name}</Link>
+      </span>
+    </span>
+  );
+}
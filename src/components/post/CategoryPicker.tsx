@@ -0,0 +1,40 @@
+import { useCategories } from "../../lib/categories";
+
+type Props = {
+  value: string | null;
+  onChange: (categoryId: string | null) => void;
+  disabled?: boolean;
+};
+
+/** Category select for Write / EditPost. Categories are managed in Admin. */
+export default function CategoryPicker({ value, onChange, disabled }: Props) {
+  const categories = useCategories();
+
+  return (
+    <label className="field">
+      <span>Category</span>
+      <select
+        value={value ?? ""}
+        onChange={(e) => onChange(e.target.value || null)}
+        disabled={disabled}
+        style={{
+          width: "100%",
+          borderRadius: 12,
+          border: "1px solid var(--line)",
+          background: "rgba(255,255,255,.04)",
+          color: "var(--text)",
+          padding: "10px 12px",
+        }}
+      >
+        <option value="">Uncategorized</option>
+        {categories.map((c) => (
+          <option key={c.id} value={c.id}>
+            {c.name}
+          </option>
+        ))}
+        {/* still loading, or a category that was deleted in the meantime */}
+        {value && !categories.some((c) => c.id === value) && <option value={value}>…</option>}
+      </select>
+    </label>
+  );
+}
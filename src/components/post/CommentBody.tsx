@@ -0,0 +1,31 @@
+import ReactMarkdown from "react-markdown";
+import remarkGfm from "remark-gfm";
+
+// Markdown-lite: emphasis, inline code, links, quotes and lists. Anything else
+// (headings, images, tables, raw HTML) is flattened to its text.
+const ALLOWED = ["p", "br", "strong", "em", "del", "code", "a", "blockquote", "ul", "ol", "li"];
+
+function safeHref(href: string | null | undefined) {
+  return href && /^(https?:|mailto:)/i.test(href) ? href : undefined;
+}
+
+export default function CommentBody({ body }: { body: string }) {
+  return (
+    <div className="commentBody">
+      <ReactMarkdown
+        remarkPlugins={[remarkGfm]}
+        allowedElements={ALLOWED}
+        unwrapDisallowed
+        components={{
+          a: ({ href, children }) => (
+            <a href={safeHref(href)} target="_blank" rel="nofollow ugc noreferrer">
+              {children}
+            </a>
+          ),
+        }}
+      >
+        {body}
+      </ReactMarkdown>
+    </div>
+  );
+}
@@ -0,0 +1,267 @@
+import { useEffect, useMemo, useState, type FormEvent } from "react";
+import type { User } from "@supabase/supabase-js";
+import { supabase } from "../../lib/supabase";
+import {
+  buildCommentTree,
+  COMMENT_MAX_LENGTH,
+  loadComments,
+  submitComment,
+  type CommentNode,
+  type CommentRow,
+} from "../../lib/comments";
+import CommentBody from "./CommentBody";
+
+const NAME_KEY = "loopblog:comment-name";
+
+// Deeper replies still thread, they just stop indenting
+const MAX_INDENT = 3;
+
+type Props = {
+  postId: string;
+  closed?: boolean;
+};
+
+function readSavedName() {
+  try {
+    return localStorage.getItem(NAME_KEY) ?? "";
+  } catch {
+    return "";
+  }
+}
+
+function CommentForm({
+  postId,
+  parentId,
+  user,
+  onDone,
+  onCancel,
+}: {
+  postId: string;
+  parentId: string | null;
+  user: User | null;
+  onDone: (status: CommentRow["status"]) => void;
+  onCancel?: () => void;
+}) {
+  const [name, setName] = useState(readSavedName);
+  const [body, setBody] = useState("");
+  const [busy, setBusy] = useState(false);
+  const [err, setErr] = useState<string | null>(null);
+
+  async function onSubmit(e: FormEvent) {
+    e.preventDefault();
+    setErr(null);
+
+    if (!user && !name.trim()) {
+      setErr("Please enter a name.");
+      return;
+    }
+
+    try {
+      setBusy(true);
+      const status = await submitComment({
+        postId,
+        parentId,
+        body,
+        authorName: user ? user.email?.split("@")[0] ?? null : name,
+      });
+      if (!user) {
+        try {
+          localStorage.setItem(NAME_KEY, name.trim());
+        } catch {
+          // ignore
+        }
+      }
+      setBody("");
+      onDone(status);
+    } catch (e) {
+      setErr(e instanceof Error ? e.message : "Failed to post comment.");
+    } finally {
+      setBusy(false);
+    }
+  }
+
+  return (
+    <form className="stack" onSubmit={onSubmit} style={{ gap: 8 }}>
+      {user ? (
+        <div className="muted" style={{ fontSize: 12 }}>
+          Commenting as {user.email}
+        </div>
+      ) : (
+        <label className="field">
+          <span>Name</span>
+          <input
+            value={name}
+            onChange={(e) => setName(e.target.value)}
+            maxLength={60}
+            autoComplete="nickname"
+            placeholder="Your name"
+          />
+        </label>
+      )}
+
+      <label className="field">
+        <span>{parentId ? "Reply" : "Comment"}</span>
+        <textarea
+          value={body}
+          onChange={(e) => setBody(e.target.value)}
+          rows={parentId ? 3 : 4}
+          maxLength={COMMENT_MAX_LENGTH}
+          placeholder="**bold**, *italic*, `code` and links work."
+        />
+      </label>
+
+      {err && <div style={{ color: "tomato" }}>{err}</div>}
+
+      <div className="row">
+        <button className="btn" type="submit" disabled={busy || !body.trim()}>
+          {busy ? "Posting…" : parentId ? "Post reply" : "Post comment"}
+        </button>
+        {onCancel && (
+          <button className="btn ghost" type="button" onClick={onCancel} disabled={busy}>
+            Cancel
+          </button>
+        )}
+      </div>
+    </form>
+  );
+}
+
+export default function CommentsSection({ postId, closed }: Props) {
+  const [rows, setRows] = useState<CommentRow[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [err, setErr] = useState<string | null>(null);
+  const [note, setNote] = useState<string | null>(null);
+  const [user, setUser] = useState<User | null>(null);
+  const [replyTo, setReplyTo] = useState<string | null>(null);
+  const [tick, setTick] = useState(0);
+
+  useEffect(() => {
+    let alive = true;
+
+    supabase.auth.getUser().then(({ data }) => {
+      if (alive) setUser(data.user ?? null);
+    });
+
+    const { data: sub } = supabase.auth.onAuthStateChange((_event, session) => {
+      if (alive) setUser(session?.user ?? null);
+    });
+
+    return () => {
+      alive = false;
+      sub.subscription.unsubscribe();
+    };
+  }, []);
+
+  useEffect(() => {
+    let alive = true;
+
+    (async () => {
+      try {
+        const data = await loadComments(postId);
+        if (!alive) return;
+        setRows(data);
+        setErr(null);
+      } catch (e) {
+        console.error(e);
+        if (alive) setErr(e instanceof Error ? e.message : "Failed to load comments.");
+      } finally {
+        if (alive) setLoading(false);
+      }
+    })();
+
+    return () => {
+      alive = false;
+    };
+  }, [postId, tick]);
+
+  const tree = useMemo(() => buildCommentTree(rows), [rows]);
+
+  function onPosted(status: CommentRow["status"]) {
+    setReplyTo(null);
+    if (status === "approved") {
+      setNote(null);
+      setTick((t) => t + 1);
+    } else {
+      setNote("Thanks! Your comment will appear once it’s been approved.");
+    }
+  }
+
+  function renderNode(c: CommentNode, depth: number) {
+    const who = c.author_name || (c.author_id ? "LoopBlog" : "Anonymous");
+    return (
+      <div
+        key={c.id}
+        className="comment"
+        style={{ marginLeft: depth > 0 && depth <= MAX_INDENT ? 18 : 0 }}
+      >
+        <div className="row" style={{ gap: 8, alignItems: "baseline" }}>
+          <strong>{who}</strong>
+          {c.author_id && <span className="chip">team</span>}
+          <span className="muted" style={{ fontSize: 12 }}>
+            {new Date(c.created_at).toLocaleString()}
+          </span>
+        </div>
+
+        <CommentBody body={c.body} />
+
+        {!closed && (
+          <div>
+            <button
+              type="button"
+              className="btn ghost"
+              style={{ padding: "4px 10px", fontSize: 12 }}
+              onClick={() => setReplyTo((cur) => (cur === c.id ? null : c.id))}
+            >
+              Reply
+            </button>
+          </div>
+        )}
+
+        {replyTo === c.id && !closed && (
+          <div style={{ marginTop: 8 }}>
+            <CommentForm
+              postId={postId}
+              parentId={c.id}
+              user={user}
+              onDone={onPosted}
+              onCancel={() => setReplyTo(null)}
+            />
+          </div>
+        )}
+
+        {c.replies.length > 0 && (
+          <div className="commentReplies">
+            {c.replies.map((r) => renderNode(r, depth + 1))}
+          </div>
+        )}
+      </div>
+    );
+  }
+
+  return (
+    <div style={{ marginTop: 18 }} className="stack">
+      <div className="sectionTitle" style={{ marginBottom: 0 }}>
+        <h3 style={{ margin: 0 }}>Comments</h3>
+        <span className="muted">{loading ? "Loading…" : rows.length}</span>
+      </div>
+
+      {err && <div className="error">Error: {err}</div>}
+
+      {!loading && !err && rows.length === 0 && (
+        <div className="muted">{closed ? "No comments." : "No comments yet. Start the conversation."}</div>
+      )}
+
+      {tree.length > 0 && <div className="commentList">{tree.map((c) => renderNode(c, 0))}</div>}
+
+      {note && <div className="muted">{note}</div>}
+
+      {closed ? (
+        <div className="muted">Comments are closed for this post.</div>
+      ) : (
+        <div className="card">
+          <CommentForm postId={postId} parentId={null} user={user} onDone={onPosted} />
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,248 @@
+import { useRef, useState, type PointerEvent } from "react";
+import Modal from "../ui/Modal";
+import { CROP_PRESETS, clampCrop, cropToFile, fitCrop, focusWithin, type CropRect } from "../../lib/crop";
+import type { FocalPoint } from "../../lib/images";
+
+export type CoverCropResult = {
+  // null when the image is kept whole
+  file: File | null;
+  // relative to the result
+  focal: FocalPoint;
+};
+
+type Props = {
+  // object URL or public URL of the cover
+  src: string;
+  name?: string;
+  initialFocal?: FocalPoint | null;
+  onClose: () => void;
+  onDone: (result: CoverCropResult) => void | Promise<void>;
+};
+
+type Drag = { x: number; y: number; rect: CropRect };
+
+/**
+ * Crops a cover to one of the layout presets and/or sets its focal point,
+ * which Home's hero, rail and cards crop around. Mount it only while open.
+ */
+export default function CoverCropper({ src, name, initialFocal, onClose, onDone }: Props) {
+  const stage = useRef<HTMLDivElement>(null);
+  const drag = useRef<Drag | null>(null);
+
+  const [natural, setNatural] = useState<{ w: number; h: number } | null>(null);
+  const [presetId, setPresetId] = useState("original");
+  const [scale, setScale] = useState(1);
+  const [rect, setRect] = useState<CropRect | null>(null);
+  const [focal, setFocal] = useState<FocalPoint>(initialFocal ?? { x: 0.5, y: 0.5 });
+  const [mode, setMode] = useState<"crop" | "focal">("focal");
+  const [busy, setBusy] = useState(false);
+  const [msg, setMsg] = useState<string | null>(null);
+
+  function choosePreset(id: string) {
+    setPresetId(id);
+    const aspect = CROP_PRESETS.find((p) => p.id === id)?.aspect ?? null;
+    if (!aspect || !natural) {
+      setRect(null);
+      setMode("focal");
+      return;
+    }
+    setScale(1);
+    setRect(fitCrop(natural.w, natural.h, aspect, 1, focal));
+    setMode("crop");
+  }
+
+  function resize(next: number) {
+    const aspect = CROP_PRESETS.find((p) => p.id === presetId)?.aspect ?? null;
+    setScale(next);
+    if (!aspect || !natural || !rect) return;
+    setRect(fitCrop(natural.w, natural.h, aspect, next, { x: rect.x + rect.w / 2, y: rect.y + rect.h / 2 }));
+  }
+
+  // Pointer position as a fraction of the image
+  function pointAt(e: PointerEvent) {
+    const box = stage.current?.getBoundingClientRect();
+    if (!box) return null;
+    return { x: (e.clientX - box.left) / box.width, y: (e.clientY - box.top) / box.height };
+  }
+
+  function onStageDown(e: PointerEvent<HTMLDivElement>) {
+    if (busy) return;
+    const at = pointAt(e);
+    if (!at) return;
+
+    if (mode === "focal" || !rect) {
+      setFocal({ x: Math.min(1, Math.max(0, at.x)), y: Math.min(1, Math.max(0, at.y)) });
+      return;
+    }
+    e.currentTarget.setPointerCapture(e.pointerId);
+    drag.current = { x: at.x, y: at.y, rect };
+  }
+
+  function onStageMove(e: PointerEvent<HTMLDivElement>) {
+    const d = drag.current;
+    const at = d && pointAt(e);
+    if (!d || !at) return;
+    setRect(clampCrop({ ...d.rect, x: d.rect.x + at.x - d.x, y: d.rect.y + at.y - d.y }));
+  }
+
+  function onStageUp() {
+    drag.current = null;
+  }
+
+  async function apply() {
+    setMsg(null);
+    setBusy(true);
+    try {
+      if (rect) {
+        const file = await cropToFile(src, rect, name);
+        await onDone({ file, focal: focusWithin(focal, rect) });
+      } else {
+        await onDone({ file: null, focal });
+      }
+    } catch (e) {
+      setMsg(e instanceof Error ? e.message : "Failed to crop the image.");
+      setBusy(false);
+    }
+  }
+
+  const pct = (v: number) => `${v * 100}%`;
+
+  return (
+    <Modal open onClose={busy ? () => {} : onClose} labelledBy="crop-title">
+      <div className="stack" style={{ padding: 14, maxHeight: "90vh", overflowY: "auto" }}>
+        <strong id="crop-title">Cover: crop and focal point</strong>
+
+        <div className="row" style={{ flexWrap: "wrap" }}>
+          {CROP_PRESETS.map((p) => (
+            <button
+              key={p.id}
+              type="button"
+              className="chip"
+              onClick={() => choosePreset(p.id)}
+              disabled={busy || !natural}
+              aria-pressed={p.id === presetId}
+              style={{
+                cursor: "pointer",
+                color: "inherit",
+                fontWeight: p.id === presetId ? 800 : 400,
+                opacity: p.id === presetId ? 1 : 0.72,
+              }}
+            >
+              {p.label}
+            </button>
+          ))}
+        </div>
+
+        {rect && (
+          <div className="row" style={{ flexWrap: "wrap" }}>
+            <button
+              type="button"
+              className={mode === "crop" ? "btn" : "btn ghost"}
+              onClick={() => setMode("crop")}
+              aria-pressed={mode === "crop"}
+            >
+              Move crop
+            </button>
+            <button
+              type="button"
+              className={mode === "focal" ? "btn" : "btn ghost"}
+              onClick={() => setMode("focal")}
+              aria-pressed={mode === "focal"}
+            >
+              Set focal point
+            </button>
+            <label className="row muted" style={{ gap: 8 }}>
+              Size
+              <input
+                type="range"
+                min={0.3}
+                max={1}
+                step={0.01}
+                value={scale}
+                onChange={(e) => resize(Number(e.target.value))}
+                disabled={busy}
+              />
+            </label>
+          </div>
+        )}
+
+        <div className="muted" style={{ fontSize: 13 }}>
+          {mode === "crop"
+            ? "Drag the box to choose what stays."
+            : "Click the subject: cards and the hero crop around this point."}
+        </div>
+
+        <div style={{ textAlign: "center" }}>
+          <div
+            ref={stage}
+            onPointerDown={onStageDown}
+            onPointerMove={onStageMove}
+            onPointerUp={onStageUp}
+            onPointerCancel={onStageUp}
+            style={{
+              position: "relative",
+              display: "inline-block",
+              lineHeight: 0,
+              overflow: "hidden",
+              borderRadius: 12,
+              userSelect: "none",
+              touchAction: "none",
+              cursor: mode === "crop" && rect ? "move" : "crosshair",
+            }}
+          >
+            <img
+              src={src}
+              alt="Cover being edited"
+              draggable={false}
+              onLoad={(e) => setNatural({ w: e.currentTarget.naturalWidth, h: e.currentTarget.naturalHeight })}
+              style={{ maxWidth: "100%", maxHeight: "60vh", display: "block" }}
+            />
+
+            {rect && (
+              <div
+                aria-hidden="true"
+                style={{
+                  position: "absolute",
+                  left: pct(rect.x),
+                  top: pct(rect.y),
+                  width: pct(rect.w),
+                  height: pct(rect.h),
+                  border: "2px solid #fff",
+                  boxShadow: "0 0 0 9999px rgba(0,0,0,.55)",
+                  pointerEvents: "none",
+                }}
+              />
+            )}
+
+            <div
+              aria-hidden="true"
+              style={{
+                position: "absolute",
+                left: pct(focal.x),
+                top: pct(focal.y),
+                width: 22,
+                height: 22,
+                transform: "translate(-50%, -50%)",
+                borderRadius: "50%",
+                border: "2px solid #fff",
+                boxShadow: "0 0 0 2px rgba(0,0,0,.5)",
+                pointerEvents: "none",
+              }}
+            />
+          </div>
+        </div>
+
+        {msg && <div style={{ color: "tomato", fontSize: 13 }}>{msg}</div>}
+
+        <div className="row">
+          <button className="btn" type="button" onClick={apply} disabled={busy || !natural}>
+            {busy ? "Applying…" : "Apply"}
+          </button>
+          <button className="btn ghost" type="button" onClick={onClose} disabled={busy}>
+            Cancel
+          </button>
+        </div>
+      </div>
+    </Modal>
+  );
+}
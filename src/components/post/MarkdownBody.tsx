@@ -0,0 +1,103 @@
+import { useEffect, useMemo, useRef, type ComponentProps } from "react";
+import ReactMarkdown, { type Components } from "react-markdown";
+import remarkGfm from "remark-gfm";
+import { createSlugger, isStoragePath } from "../../lib/markdown";
+import { IMAGE_SIZES, publicUrlFromPath, srcSetFromPath } from "../../lib/images";
+
+// Just the parts of a Markdown syntax tree node the heading ids need
+type MdNode = {
+  type: string;
+  depth?: number;
+  value?: string;
+  children?: MdNode[];
+  data?: { hProperties?: Record<string, unknown> };
+};
+
+function nodeText(node: MdNode): string {
+  return node.value ?? (node.children ?? []).map(nodeText).join("");
+}
+
+// Gives h2/h3 their ids while parsing: a fresh slugger per parse, so
+// re-renders can't push the counts (and the ids) out of step with the TOC
+function remarkHeadingIds() {
+  return (tree: MdNode) => {
+    const slug = createSlugger();
+    const visit = (node: MdNode) => {
+      if (node.type === "heading" && (node.depth === 2 || node.depth === 3)) {
+        node.data = { ...node.data, hProperties: { ...node.data?.hProperties, id: slug(nodeText(node)) } };
+      }
+      node.children?.forEach(visit);
+    };
+    visit(tree);
+  };
+}
+
+/**
+ * The one Markdown pipeline for post bodies (Post page + editor previews).
+ * h2/h3 get ids from createSlugger so they line up with extractToc().
+ * Images may point at a storage path instead of a URL, and render as a
+ * figure with their Markdown title as the caption. With `onImageClick`
+ * images become buttons (the Post page opens them in its lightbox).
+ */
+export default function MarkdownBody({
+  markdown,
+  onImageClick,
+}: {
+  markdown: string;
+  // gets the resolved image URL
+  onImageClick?: (src: string) => void;
+}) {
+  // latest handler without rebuilding the components (which remounts images)
+  const onClick = useRef(onImageClick);
+  useEffect(() => {
+    onClick.current = onImageClick;
+  });
+  const clickable = !!onImageClick;
+
+  const markdownComponents = useMemo<Components>(() => {
+    return {
+      // spans, not <figure>: Markdown puts images inside a <p>
+      img: ({ src, alt, title }: ComponentProps<"img">) => {
+        const stored = typeof src === "string" && isStoragePath(src);
+        const url = stored ? publicUrlFromPath(src) ?? undefined : src;
+        const image = (
+          <img
+            src={url}
+            srcSet={stored ? srcSetFromPath(src) : undefined}
+            sizes={IMAGE_SIZES.hero}
+            alt={alt ?? ""}
+            loading="lazy"
+          />
+        );
+        return (
+          <span className="postFigure">
+            {clickable && typeof url === "string" ? (
+              <button
+                type="button"
+                className="postZoom"
+                onClick={() => onClick.current?.(url)}
+                aria-label={alt ? `View larger: ${alt}` : "View larger"}
+              >
+                {image}
+              </button>
+            ) : (
+              image
+            )}
+            {title && <span className="postCaption">{title}</span>}
+          </span>
+        );
+      },
+    };
+  }, [clickable]);
+
+  return (
+    <div className="postBody">
+      <ReactMarkdown
+        remarkPlugins={[remarkGfm, remarkHeadingIds]}
+        components={markdownComponents}
+      >
+        {markdown}
+      </ReactMarkdown>
+    </div>
+  );
+}
@@ -0,0 +1,56 @@
+export default function PostPhotos({
+  urls,
+  onOpen,
+}: {
+  urls: string[];
+  // opens the photo in place instead of following the link
+  onOpen?: (url: string) => void;
+}) {
+  if (!urls.length) return null;
+
+  return (
+    <>
+      <div className="sectionTitle" style={{ marginTop: 12 }}>
+        <h3>Photos</h3>
+        <span className="muted">{urls.length} uploaded</span>
+      </div>
+
+      <div
+        className="postImageGrid"
+        style={{
+          display: "grid",
+          gridTemplateColumns: "repeat(auto-fill, minmax(160px, 1fr))",
+          gap: 12,
+        }}
+      >
+        {urls.map((url) => (
+          <a
+            key={url}
+            href={url}
+            target="_blank"
+            rel="noreferrer"
+            className="thumb"
+            onClick={(e) => {
+              if (!onOpen) return;
+              e.preventDefault();
+              onOpen(url);
+            }}
+          >
+            <img
+              src={url}
+              alt="post"
+              style={{
+                width: "100%",
+                height: 160,
+                objectFit: "cover",
+                borderRadius: 14,
+                border: "1px solid var(--line)",
+                display: "block",
+              }}
+            />
+          </a>
+        ))}
+      </div>
+    </>
+  );
+}
@@ -0,0 +1,74 @@
+import { useMemo } from "react";
+import { extractToc, readingTimeLabel } from "../../lib/markdown";
+import MarkdownBody from "./MarkdownBody";
+import PostPhotos from "./PostPhotos";
+import PostToc from "./PostToc";
+
+type Props = {
+  title: string;
+  excerpt: string;
+  body: string;
+  tags: string[];
+  coverUrl: string | null;
+  imageUrls: string[];
+};
+
+/**
+ * Live "what readers will see" pane for Write/EditPost.
+ * Uses the same MarkdownBody/PostToc/PostPhotos pieces as Post.tsx.
+ */
+export default function PostPreview({
+  title,
+  excerpt,
+  body,
+  tags,
+  coverUrl,
+  imageUrls,
+}: Props) {
+  const toc = useMemo(() => extractToc(body), [body]);
+  const readingTime = useMemo(() => readingTimeLabel(body), [body]);
+
+  return (
+    <div className="card stack postShell previewPane">
+      <div className="row" style={{ justifyContent: "space-between" }}>
+        <strong>Preview</strong>
+        <div className="row">
+          <span className="chip">{readingTime}</span>
+        </div>
+      </div>
+
+      <h1 className="postTitle">{title.trim() || "Untitled"}</h1>
+
+      {excerpt.trim() && <p className="muted postExcerpt">{excerpt}</p>}
+
+      {tags.length > 0 && (
+        <div className="row postTags">
+          {tags.map((t) => (
+            <span key={t} className="chip">
+              #{t}
+            </span>
+          ))}
+        </div>
+      )}
+
+      {coverUrl && (
+        <img
+          src={coverUrl}
+          alt="Cover"
+          style={{
+            width: "100%",
+            borderRadius: 16,
+            display: "block",
+            border: "1px solid var(--line)",
+          }}
+        />
+      )}
+
+      <PostToc items={toc} />
+
+      <MarkdownBody markdown={body || "_(nothing to preview yet)_"} />
+
+      <PostPhotos urls={imageUrls} />
+    </div>
+  );
+}
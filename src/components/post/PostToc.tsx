@@ -0,0 +1,42 @@
+import type { CSSProperties } from "react";
+import type { TocItem } from "../../lib/markdown";
+
+type Props = {
+  items: TocItem[];
+  style?: CSSProperties;
+};
+
+export default function PostToc({ items, style }: Props) {
+  if (!items.length) return null;
+
+  return (
+    <div
+      className="tocCard"
+      style={{
+        border: "1px solid var(--line)",
+        borderRadius: 16,
+        padding: 12,
+        background: "rgba(255,255,255,.02)",
+        ...(style ?? {}),
+      }}
+    >
+      <div style={{ fontWeight: 800, marginBottom: 8 }}>On this page</div>
+      <div style={{ display: "grid", gap: 6 }}>
+        {items.map((t) => (
+          <a
+            key={t.id}
+            href={`#${t.id}`}
+            style={{
+              textDecoration: "none",
+              color: "inherit",
+              paddingLeft: t.level === 3 ? 12 : 0,
+              opacity: t.level === 3 ? 0.9 : 1,
+            }}
+          >
+            {t.text}
+          </a>
+        ))}
+      </div>
+    </div>
+  );
+}
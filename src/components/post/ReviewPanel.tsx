@@ -0,0 +1,330 @@
+import { useEffect, useMemo, useState } from "react";
+import type { PostRow, PostStatus } from "../../lib/posts";
+import { canPublish, type Role } from "../../lib/roles";
+import {
+  addReviewComment,
+  anchorComment,
+  decideReview,
+  deleteReviewComment,
+  loadReviewComments,
+  loadReviews,
+  REVIEW_COMMENT_MAX_LENGTH,
+  setReviewCommentResolved,
+  type PostReview,
+  type ReviewComment,
+} from "../../lib/reviews";
+
+type Props = {
+  postId: string;
+  status: PostStatus;
+  // the body as it is in the editor; comments are anchored against it
+  body: string;
+  role: Role | null;
+  currentUserId: string | null;
+  busy?: boolean;
+  onDecided: (post: PostRow) => void;
+};
+
+const textareaStyle = {
+  width: "100%",
+  borderRadius: 12,
+  border: "1px solid var(--line)",
+  background: "rgba(255,255,255,.04)",
+  color: "var(--text)",
+  padding: "8px 10px",
+  fontFamily: "inherit",
+};
+
+export default function ReviewPanel({
+  postId,
+  status,
+  body,
+  role,
+  currentUserId,
+  busy,
+  onDecided,
+}: Props) {
+  const [reviews, setReviews] = useState<PostReview[]>([]);
+  const [comments, setComments] = useState<ReviewComment[]>([]);
+  const [err, setErr] = useState<string | null>(null);
+  const [working, setWorking] = useState(false);
+
+  const [selected, setSelected] = useState<number | null>(null);
+  const [draft, setDraft] = useState("");
+  const [note, setNote] = useState("");
+  const [showResolved, setShowResolved] = useState(false);
+
+  const reviewer = canPublish(role);
+  const lines = useMemo(() => body.split("\n"), [body]);
+
+  useEffect(() => {
+    let alive = true;
+
+    (async () => {
+      try {
+        const [r, c] = await Promise.all([loadReviews(postId), loadReviewComments(postId)]);
+        if (!alive) return;
+        setReviews(r);
+        setComments(c);
+      } catch (e) {
+        if (alive) setErr(e instanceof Error ? e.message : "Failed to load the review.");
+      }
+    })();
+
+    return () => {
+      alive = false;
+    };
+  }, [postId]);
+
+  // line index -> comments showing there; comments whose line is gone go to "outdated"
+  const { byLine, outdated } = useMemo(() => {
+    const byLine = new Map<number, ReviewComment[]>();
+    const outdated: ReviewComment[] = [];
+    for (const c of comments) {
+      if (c.resolved && !showResolved) continue;
+      const at = anchorComment(c, lines);
+      if (at === null) outdated.push(c);
+      else byLine.set(at, [...(byLine.get(at) ?? []), c]);
+    }
+    return { byLine, outdated };
+  }, [comments, lines, showResolved]);
+
+  const openCount = comments.filter((c) => !c.resolved).length;
+  const resolvedCount = comments.length - openCount;
+
+  function authorLabel(c: ReviewComment) {
+    if (!c.author_id) return "unknown";
+    if (c.author_id === currentUserId) return "you";
+    return c.author_id.slice(0, 8);
+  }
+
+  async function run(task: () => Promise<void>, fallback: string) {
+    setErr(null);
+    setWorking(true);
+    try {
+      await task();
+    } catch (e) {
+      setErr(e instanceof Error ? e.message : fallback);
+    } finally {
+      setWorking(false);
+    }
+  }
+
+  function addComment() {
+    if (selected === null) return;
+    const line = selected;
+    return run(async () => {
+      const c = await addReviewComment({ postId, line: line + 1, lineText: lines[line] ?? "", body: draft });
+      setComments((prev) => [...prev, c]);
+      setDraft("");
+      setSelected(null);
+    }, "Failed to add comment.");
+  }
+
+  function toggleResolved(c: ReviewComment) {
+    return run(async () => {
+      await setReviewCommentResolved(c.id, !c.resolved);
+      setComments((prev) => prev.map((x) => (x.id === c.id ? { ...x, resolved: !c.resolved } : x)));
+    }, "Failed to update comment.");
+  }
+
+  function removeComment(c: ReviewComment) {
+    return run(async () => {
+      await deleteReviewComment(c.id);
+      setComments((prev) => prev.filter((x) => x.id !== c.id));
+    }, "Failed to delete comment.");
+  }
+
+  function decide(decision: PostReview["decision"]) {
+    if (decision === "approved" && openCount > 0) {
+      const yes = window.confirm(`${openCount} review comment(s) are still open. Approve anyway?`);
+      if (!yes) return;
+    }
+    return run(async () => {
+      const saved = await decideReview(postId, decision, note);
+      setNote("");
+      setReviews(await loadReviews(postId));
+      onDecided(saved);
+    }, "Failed to record the decision.");
+  }
+
+  const disabled = busy || working;
+
+  function renderThread(list: ReviewComment[]) {
+    return (
+      <div className="reviewThread">
+        {list.map((c) => (
+          <div key={c.id} style={{ opacity: c.resolved ? 0.6 : 1 }}>
+            <div className="muted" style={{ fontSize: 12 }}>
+              {authorLabel(c)} • {new Date(c.created_at).toLocaleString()}
+              {c.resolved && " • resolved"}
+            </div>
+            <div style={{ whiteSpace: "pre-wrap", overflowWrap: "anywhere" }}>{c.body}</div>
+            <div className="row" style={{ gap: 6, marginTop: 4 }}>
+              <button
+                type="button"
+                className="btn ghost"
+                onClick={() => toggleResolved(c)}
+                disabled={disabled}
+                style={{ padding: "4px 8px", fontSize: 12 }}
+              >
+                {c.resolved ? "Reopen" : "Resolve"}
+              </button>
+              {c.author_id === currentUserId && (
+                <button
+                  type="button"
+                  className="btn ghost"
+                  onClick={() => removeComment(c)}
+                  disabled={disabled}
+                  style={{ padding: "4px 8px", fontSize: 12 }}
+                >
+                  Delete
+                </button>
+              )}
+            </div>
+          </div>
+        ))}
+      </div>
+    );
+  }
+
+  const latest = reviews[0] ?? null;
+
+  return (
+    <div className="card stack">
+      <div className="row" style={{ justifyContent: "space-between" }}>
+        <strong>Review</strong>
+        <span className="muted" style={{ fontSize: 12 }}>
+          {openCount} open comment(s)
+          {resolvedCount > 0 && ` • ${resolvedCount} resolved`}
+        </span>
+      </div>
+
+      {err && <div style={{ color: "tomato" }}>{err}</div>}
+
+      {status === "in_review" ? (
+        reviewer ? (
+          <div className="stack" style={{ gap: 8 }}>
+            <textarea
+              value={note}
+              onChange={(e) => setNote(e.target.value)}
+              rows={2}
+              placeholder="Note for the author (optional)"
+              style={textareaStyle}
+            />
+            <div className="row">
+              <button className="btn" type="button" onClick={() => decide("approved")} disabled={disabled}>
+                Approve &amp; publish
+              </button>
+              <button
+                className="btn ghost"
+                type="button"
+                onClick={() => decide("changes_requested")}
+                disabled={disabled}
+              >
+                Request changes
+              </button>
+            </div>
+          </div>
+        ) : (
+          <div className="muted">Waiting for an editor to review this post.</div>
+        )
+      ) : status === "draft" ? (
+        <div className="muted">
+          Set the status to “in_review” and save when it’s ready for an editor.
+        </div>
+      ) : null}
+
+      {latest && (
+        <div style={{ fontSize: 13 }}>
+          <div className="muted" style={{ fontSize: 12 }}>
+            {latest.decision === "approved" ? "Approved" : "Changes requested"} by{" "}
+            {latest.reviewer_id === currentUserId ? "you" : latest.reviewer_id?.slice(0, 8) ?? "unknown"} •{" "}
+            {new Date(latest.created_at).toLocaleString()}
+          </div>
+          {latest.note && <div style={{ whiteSpace: "pre-wrap" }}>{latest.note}</div>}
+        </div>
+      )}
+
+      <div className="row" style={{ justifyContent: "space-between" }}>
+        <span className="muted" style={{ fontSize: 12 }}>
+          Click a line number to comment on that line.
+        </span>
+        {resolvedCount > 0 && (
+          <label className="row" style={{ gap: 6, fontSize: 12, cursor: "pointer" }}>
+            <input type="checkbox" checked={showResolved} onChange={(e) => setShowResolved(e.target.checked)} />
+            Show resolved
+          </label>
+        )}
+      </div>
+
+      <div className="reviewLines">
+        {lines.map((text, i) => {
+          const here = byLine.get(i);
+          return (
+            <div key={i}>
+              <div
+                className={[
+                  "reviewLine",
+                  here ? "hasComments" : "",
+                  selected === i ? "selected" : "",
+                ]
+                  .filter(Boolean)
+                  .join(" ")}
+              >
+                <button
+                  type="button"
+                  onClick={() => setSelected((cur) => (cur === i ? null : i))}
+                  aria-label={`Comment on line ${i + 1}`}
+                >
+                  {i + 1}
+                </button>
+                <code>{text || " "}</code>
+              </div>
+
+              {here && renderThread(here)}
+
+              {selected === i && (
+                <div className="reviewThread">
+                  <textarea
+                    value={draft}
+                    onChange={(e) => setDraft(e.target.value)}
+                    rows={3}
+                    maxLength={REVIEW_COMMENT_MAX_LENGTH}
+                    placeholder={`Comment on line ${i + 1}…`}
+                    style={textareaStyle}
+                    autoFocus
+                  />
+                  <div className="row" style={{ gap: 6 }}>
+                    <button className="btn" type="button" onClick={addComment} disabled={disabled || !draft.trim()}>
+                      {working ? "Saving…" : "Comment"}
+                    </button>
+                    <button className="btn ghost" type="button" onClick={() => setSelected(null)}>
+                      Cancel
+                    </button>
+                  </div>
+                </div>
+              )}
+            </div>
+          );
+        })}
+      </div>
+
+      {outdated.length > 0 && (
+        <div className="stack" style={{ gap: 6 }}>
+          <div className="muted" style={{ fontSize: 12 }}>
+            On lines that have since changed
+          </div>
+          {outdated.map((c) => (
+            <div key={c.id}>
+              <pre className="diffView diffDel" style={{ maxHeight: 80 }}>
+                {c.line}: {c.line_text}
+              </pre>
+              {renderThread([c])}
+            </div>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+}
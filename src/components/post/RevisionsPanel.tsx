@@ -0,0 +1,177 @@
+import { useMemo, useState } from "react";
+import { diffLines } from "../../lib/lineDiff";
+import type { PostRevision } from "../../lib/revisions";
+
+type Props = {
+  revisions: PostRevision[]; // newest first
+  currentUserId: string | null;
+  busy?: boolean;
+  onRestore: (rev: PostRevision) => void;
+};
+
+function revisionLabel(rev: PostRevision, index: number, total: number) {
+  return `#${total - index} • ${new Date(rev.created_at).toLocaleString()}`;
+}
+
+const selectStyle = {
+  width: "100%",
+  borderRadius: 12,
+  border: "1px solid var(--line)",
+  background: "rgba(255,255,255,.04)",
+  color: "var(--text)",
+  padding: "10px 12px",
+};
+
+export default function RevisionsPanel({
+  revisions,
+  currentUserId,
+  busy,
+  onRestore,
+}: Props) {
+  // Compare "from" (older) -> "to" (newer); default to the last change made
+  const [fromId, setFromId] = useState<string | null>(null);
+  const [toId, setToId] = useState<string | null>(null);
+
+  const to = revisions.find((r) => r.id === toId) ?? revisions[0] ?? null;
+  const from =
+    revisions.find((r) => r.id === fromId) ?? revisions[1] ?? revisions[0] ?? null;
+
+  const diff = useMemo(() => {
+    if (!from || !to) return [];
+    return diffLines(from.body ?? "", to.body ?? "");
+  }, [from, to]);
+
+  const changedLines = diff.filter((d) => d.kind !== "same").length;
+
+  function authorLabel(rev: PostRevision) {
+    if (!rev.author_id) return "unknown";
+    if (rev.author_id === currentUserId) return "you";
+    return rev.author_id.slice(0, 8);
+  }
+
+  if (!revisions.length) {
+    return (
+      <div className="card stack">
+        <strong>Revisions</strong>
+        <div className="muted">No revisions yet. One is recorded every time you save.</div>
+      </div>
+    );
+  }
+
+  return (
+    <div className="card stack">
+      <div className="row" style={{ justifyContent: "space-between" }}>
+        <strong>Revisions</strong>
+        <span className="muted" style={{ fontSize: 12 }}>
+          {revisions.length} saved
+        </span>
+      </div>
+
+      <div style={{ display: "grid", gap: 8 }}>
+        {revisions.map((rev, i) => {
+          const restoredFrom = rev.restored_from
+            ? revisions.findIndex((r) => r.id === rev.restored_from)
+            : -1;
+
+          return (
+            <div
+              key={rev.id}
+              style={{
+                display: "grid",
+                gridTemplateColumns: "minmax(0, 1fr) auto",
+                gap: 10,
+                alignItems: "center",
+                border: "1px solid var(--line)",
+                borderRadius: 12,
+                padding: "8px 10px",
+                background: "rgba(255,255,255,.03)",
+              }}
+            >
+              <div style={{ minWidth: 0 }}>
+                <div style={{ fontWeight: 700, overflow: "hidden", textOverflow: "ellipsis", whiteSpace: "nowrap" }}>
+                  {revisionLabel(rev, i, revisions.length)}
+                </div>
+                <div className="muted" style={{ fontSize: 12 }}>
+                  {rev.status} • by {authorLabel(rev)}
+                  {restoredFrom >= 0 && ` • restored from #${revisions.length - restoredFrom}`}
+                </div>
+              </div>
+
+              <button
+                type="button"
+                className="btn ghost"
+                onClick={() => onRestore(rev)}
+                disabled={busy || i === 0}
+                style={{ padding: "8px 10px" }}
+              >
+                {i === 0 ? "Current" : "Restore"}
+              </button>
+            </div>
+          );
+        })}
+      </div>
+
+      {revisions.length > 1 && from && to && (
+        <>
+          <div className="row" style={{ gap: 12 }}>
+            <label className="field" style={{ flex: 1, minWidth: 200 }}>
+              <span>From</span>
+              <select value={from.id} onChange={(e) => setFromId(e.target.value)} style={selectStyle}>
+                {revisions.map((r, i) => (
+                  <option key={r.id} value={r.id}>
+                    {revisionLabel(r, i, revisions.length)}
+                  </option>
+                ))}
+              </select>
+            </label>
+
+            <label className="field" style={{ flex: 1, minWidth: 200 }}>
+              <span>To</span>
+              <select value={to.id} onChange={(e) => setToId(e.target.value)} style={selectStyle}>
+                {revisions.map((r, i) => (
+                  <option key={r.id} value={r.id}>
+                    {revisionLabel(r, i, revisions.length)}
+                  </option>
+                ))}
+              </select>
+            </label>
+          </div>
+
+          {from.title !== to.title && (
+            <div style={{ fontSize: 13 }}>
+              <div className="muted">Title</div>
+              <div className="diffDel">- {from.title}</div>
+              <div className="diffAdd">+ {to.title}</div>
+            </div>
+          )}
+
+          {(from.excerpt ?? "") !== (to.excerpt ?? "") && (
+            <div style={{ fontSize: 13 }}>
+              <div className="muted">Excerpt</div>
+              <div className="diffDel">- {from.excerpt ?? ""}</div>
+              <div className="diffAdd">+ {to.excerpt ?? ""}</div>
+            </div>
+          )}
+
+          <div className="muted" style={{ fontSize: 12 }}>
+            Body: {changedLines === 0 ? "no changes" : `${changedLines} changed line(s)`}
+          </div>
+
+          {changedLines > 0 && (
+            <pre className="diffView">
+              {diff.map((d, i) => (
+                <div
+                  key={i}
+                  className={d.kind === "add" ? "diffAdd" : d.kind === "del" ? "diffDel" : undefined}
+                >
+                  {d.kind === "add" ? "+ " : d.kind === "del" ? "- " : "  "}
+                  {d.text}
+                </div>
+              ))}
+            </pre>
+          )}
+        </>
+      )}
+    </div>
+  );
+}
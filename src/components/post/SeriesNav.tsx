@@ -0,0 +1,61 @@
+import { useState } from "react";
+import { Link } from "react-router-dom";
+import { postPath } from "../../lib/posts";
+import { seriesPath, type PostSeries } from "../../lib/series";
+
+type Props = {
+  data: PostSeries;
+  // parts shown (already filtered to what readers can see), in order
+  parts: PostSeries["parts"];
+  currentId: string;
+};
+
+// Long series start collapsed to the parts around the current one
+const COLLAPSE_OVER = 7;
+
+/** "Part 2 of 5 in <series>" box with the full list of parts. */
+export default function SeriesNav({ data, parts, currentId }: Props) {
+  const [open, setOpen] = useState(false);
+  const index = parts.findIndex((p) => p.id === currentId);
+  if (index < 0) return null;
+
+  const collapsed = parts.length > COLLAPSE_OVER && !open;
+  const from = collapsed ? Math.max(0, Math.min(index - 2, parts.length - 5)) : 0;
+  const shown = collapsed ? parts.slice(from, from + 5) : parts;
+
+  return (
+    <nav className="seriesBox" aria-label="Series">
+      <div className="muted" style={{ fontSize: 12 }}>
+        Part {index + 1} of {parts.length} in
+      </div>
+      <Link to={seriesPath(data.series)} style={{ fontWeight: 800 }}>
+        {data.series.title}
+      </Link>
+
+      <ol start={from + 1}>
+        {shown.map((p) =>
+          p.id === currentId ? (
+            <li key={p.id} className="current" aria-current="page">
+              {p.title}
+            </li>
+          ) : (
+            <li key={p.id}>
+              <Link to={postPath(p)}>{p.title}</Link>
+            </li>
+          )
+        )}
+      </ol>
+
+      {parts.length > COLLAPSE_OVER && (
+        <button
+          type="button"
+          className="btn ghost"
+          onClick={() => setOpen((v) => !v)}
+          style={{ justifySelf: "start", padding: "4px 10px", fontSize: 12 }}
+        >
+          {open ? "Show fewer" : `Show all ${parts.length} parts`}
+        </button>
+      )}
+    </nav>
+  );
+}
@@ -0,0 +1,266 @@
+import { useEffect, useMemo, useState } from "react";
+import { Link } from "react-router-dom";
+import {
+  createSeries,
+  getPostSeries,
+  loadSeriesList,
+  loadSeriesParts,
+  seriesPath,
+  setPostSeries,
+  updateSeries,
+  type Series,
+  type SeriesPart,
+} from "../../lib/series";
+
+type Props = {
+  postId: string;
+  postTitle: string;
+  busy?: boolean;
+};
+
+const NEW = "__new__";
+
+const inputStyle = {
+  width: "100%",
+  borderRadius: 12,
+  border: "1px solid var(--line)",
+  background: "rgba(255,255,255,.04)",
+  color: "var(--text)",
+  padding: "10px 12px",
+};
+
+/** Which series this post is in and where. Saves on its own, like "Close comments". */
+export default function SeriesPanel({ postId, postTitle, busy }: Props) {
+  const [list, setList] = useState<Series[]>([]);
+  const [savedSeriesId, setSavedSeriesId] = useState<string | null>(null);
+  const [selectedId, setSelectedId] = useState<string>("");
+  const [parts, setParts] = useState<SeriesPart[]>([]);
+  const [position, setPosition] = useState<number>(1);
+
+  const [newTitle, setNewTitle] = useState("");
+  const [newDescription, setNewDescription] = useState("");
+  const [editing, setEditing] = useState(false);
+
+  const [working, setWorking] = useState(false);
+  const [msg, setMsg] = useState<string | null>(null);
+
+  useEffect(() => {
+    let alive = true;
+
+    (async () => {
+      try {
+        const [all, mine] = await Promise.all([loadSeriesList(), getPostSeries(postId)]);
+        if (!alive) return;
+        setList(all);
+        setSavedSeriesId(mine?.series.id ?? null);
+        setSelectedId(mine?.series.id ?? "");
+        setParts(mine?.parts ?? []);
+        const at = mine ? mine.parts.findIndex((p) => p.id === postId) : -1;
+        setPosition(at >= 0 ? at + 1 : (mine?.parts.length ?? 0) + 1);
+      } catch (e) {
+        if (alive) setMsg(e instanceof Error ? e.message : "Failed to load series.");
+      }
+    })();
+
+    return () => {
+      alive = false;
+    };
+  }, [postId]);
+
+  const selected = list.find((s) => s.id === selectedId) ?? null;
+
+  // The series as it would be after saving, with this post at `position`
+  const preview = useMemo(() => {
+    const others = parts.filter((p) => p.id !== postId);
+    const at = Math.min(Math.max(position, 1), others.length + 1) - 1;
+    return [...others.slice(0, at), { id: postId, title: postTitle || "This post" }, ...others.slice(at)];
+  }, [parts, postId, postTitle, position]);
+
+  async function pick(id: string) {
+    setMsg(null);
+    setEditing(false);
+    setSelectedId(id);
+    if (!id || id === NEW) {
+      setParts([]);
+      setPosition(1);
+      return;
+    }
+    try {
+      const rows = await loadSeriesParts(id);
+      setParts(rows);
+      const at = rows.findIndex((p) => p.id === postId);
+      setPosition(at >= 0 ? at + 1 : rows.filter((p) => p.id !== postId).length + 1);
+    } catch (e) {
+      setMsg(e instanceof Error ? e.message : "Failed to load series.");
+    }
+  }
+
+  async function save() {
+    setMsg(null);
+    setWorking(true);
+    try {
+      let seriesId: string | null = selectedId || null;
+      if (selectedId === NEW) {
+        const created = await createSeries({ title: newTitle, description: newDescription });
+        setList((prev) => [...prev, created].sort((a, b) => a.title.localeCompare(b.title)));
+        setNewTitle("");
+        setNewDescription("");
+        seriesId = created.id;
+        setSelectedId(created.id);
+      }
+
+      await setPostSeries(postId, seriesId, seriesId ? position : null);
+      setSavedSeriesId(seriesId);
+      setParts(seriesId ? await loadSeriesParts(seriesId) : []);
+      setMsg(seriesId ? "Series saved ✅" : "Removed from series ✅");
+    } catch (e) {
+      setMsg(e instanceof Error ? e.message : "Failed to save series.");
+    } finally {
+      setWorking(false);
+    }
+  }
+
+  async function saveDetails() {
+    if (!selected) return;
+    setMsg(null);
+    setWorking(true);
+    try {
+      await updateSeries(selected.id, { title: newTitle, description: newDescription });
+      setList((prev) =>
+        prev.map((s) =>
+          s.id === selected.id ? { ...s, title: newTitle.trim(), description: newDescription.trim() || null } : s
+        )
+      );
+      setEditing(false);
+      setMsg("Series updated ✅");
+    } catch (e) {
+      setMsg(e instanceof Error ? e.message : "Failed to update series.");
+    } finally {
+      setWorking(false);
+    }
+  }
+
+  const disabled = busy || working;
+  const unchanged =
+    (selectedId || null) === savedSeriesId &&
+    (!savedSeriesId || parts.findIndex((p) => p.id === postId) + 1 === position);
+
+  return (
+    <div className="card stack" style={{ border: "1px solid var(--line)" }}>
+      <div className="row" style={{ justifyContent: "space-between" }}>
+        <strong>Series</strong>
+        {selected && savedSeriesId === selected.id && (
+          <Link to={seriesPath(selected)} className="muted" style={{ fontSize: 12 }}>
+            View series
+          </Link>
+        )}
+      </div>
+
+      <div className="row" style={{ gap: 12, alignItems: "flex-end" }}>
+        <label className="field" style={{ flex: 2, minWidth: 200 }}>
+          <span>Part of</span>
+          <select value={selectedId} onChange={(e) => pick(e.target.value)} disabled={disabled} style={inputStyle}>
+            <option value="">Not in a series</option>
+            {list.map((s) => (
+              <option key={s.id} value={s.id}>
+                {s.title}
+              </option>
+            ))}
+            <option value={NEW}>+ New series…</option>
+          </select>
+        </label>
+
+        {selectedId && (
+          <label className="field" style={{ flex: 1, minWidth: 140 }}>
+            <span>Position</span>
+            <select
+              value={position}
+              onChange={(e) => setPosition(Number(e.target.value))}
+              disabled={disabled}
+              style={inputStyle}
+            >
+              {preview.map((_, i) => (
+                <option key={i} value={i + 1}>
+                  Part {i + 1} of {preview.length}
+                </option>
+              ))}
+            </select>
+          </label>
+        )}
+      </div>
+
+      {(selectedId === NEW || editing) && (
+        <div className="stack" style={{ gap: 8 }}>
+          <input
+            value={newTitle}
+            onChange={(e) => setNewTitle(e.target.value)}
+            placeholder="Series title"
+            maxLength={120}
+            style={inputStyle}
+          />
+          <textarea
+            value={newDescription}
+            onChange={(e) => setNewDescription(e.target.value)}
+            placeholder="What the series is about (optional)"
+            rows={2}
+            maxLength={1000}
+            style={inputStyle}
+          />
+        </div>
+      )}
+
+      {selectedId && selectedId !== NEW && (
+        <ol style={{ margin: 0, paddingLeft: 22, fontSize: 13 }}>
+          {preview.map((p) => (
+            <li key={p.id} style={{ fontWeight: p.id === postId ? 800 : 400 }}>
+              {p.title}
+              {"status" in p && p.status !== "published" && p.status !== "scheduled" && (
+                <span className="muted"> ({p.status})</span>
+              )}
+            </li>
+          ))}
+        </ol>
+      )}
+
+      {msg && <div style={{ color: msg.includes("✅") ? "inherit" : "tomato", fontSize: 13 }}>{msg}</div>}
+
+      <div className="row">
+        {editing ? (
+          <>
+            <button className="btn" type="button" onClick={saveDetails} disabled={disabled || !newTitle.trim()}>
+              Save details
+            </button>
+            <button className="btn ghost" type="button" onClick={() => setEditing(false)} disabled={disabled}>
+              Cancel
+            </button>
+          </>
+        ) : (
+          <>
+            <button
+              className="btn ghost"
+              type="button"
+              onClick={save}
+              disabled={disabled || unchanged || (selectedId === NEW && !newTitle.trim())}
+            >
+              {working ? "Saving…" : selectedId ? "Save series" : "Remove from series"}
+            </button>
+            {selected && (
+              <button
+                className="btn ghost"
+                type="button"
+                onClick={() => {
+                  setNewTitle(selected.title);
+                  setNewDescription(selected.description ?? "");
+                  setEditing(true);
+                }}
+                disabled={disabled}
+              >
+                Edit details
+              </button>
+            )}
+          </>
+        )}
+      </div>
+    </div>
+  );
+}
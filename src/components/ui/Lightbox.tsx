@@ -0,0 +1,217 @@
+import { useEffect, useRef, useState, type PointerEvent, type WheelEvent } from "react";
+import type { LightboxImage } from "../../lib/lightbox";
+
+type Props = {
+  images: LightboxImage[];
+  // open image, null = closed
+  index: number | null;
+  onIndexChange: (next: number | null) => void;
+};
+
+type View = { index: number; scale: number; x: number; y: number };
+
+type Gesture = {
+  x: number;
+  y: number;
+  view: View;
+  // pinch: finger distance at the start
+  dist: number | null;
+  pinched: boolean;
+};
+
+const MAX_ZOOM = 4;
+const SWIPE_PX = 40;
+
+const distance = (a: { x: number; y: number }, b: { x: number; y: number }) =>
+  Math.hypot(a.x - b.x, a.y - b.y);
+
+/**
+ * Full-screen image viewer: ← → keys, swipe, pinch / scroll / double-click
+ * zoom (drag to pan when zoomed), captions and a download button.
+ * Controlled: pair it with useLightboxParam to keep the index in the URL.
+ */
+export default function Lightbox({ images, index, onIndexChange }: Props) {
+  const stage = useRef<HTMLDivElement>(null);
+  const pointers = useRef(new Map<number, { x: number; y: number }>());
+  const gesture = useRef<Gesture | null>(null);
+
+  // zoom belongs to one image; any other index starts unzoomed
+  const [view, setView] = useState<View>({ index: -1, scale: 1, x: 0, y: 0 });
+  const open = index !== null && index < images.length;
+  const z = open && view.index === index ? view : { index: index ?? -1, scale: 1, x: 0, y: 0 };
+  const count = images.length;
+
+  // Keeps a zoomed image from being dragged out of sight
+  function settle(v: View): View {
+    if (v.scale <= 1) return { index: v.index, scale: 1, x: 0, y: 0 };
+    const box = stage.current?.getBoundingClientRect();
+    const maxX = box ? ((v.scale - 1) * box.width) / 2 : 0;
+    const maxY = box ? ((v.scale - 1) * box.height) / 2 : 0;
+    return {
+      ...v,
+      x: Math.min(maxX, Math.max(-maxX, v.x)),
+      y: Math.min(maxY, Math.max(-maxY, v.y)),
+    };
+  }
+
+  function zoomTo(scale: number, base: View = z) {
+    setView(settle({ ...base, scale: Math.min(MAX_ZOOM, Math.max(1, scale)) }));
+  }
+
+  // body scroll lock + keyboard
+  useEffect(() => {
+    if (index === null) return;
+
+    const prev = document.body.style.overflow;
+    document.body.style.overflow = "hidden";
+
+    const go = (step: number) => onIndexChange((index + step + count) % count);
+    const zoomBy = (f: number) =>
+      setView((v) => {
+        const cur = v.index === index ? v : { index, scale: 1, x: 0, y: 0 };
+        const scale = Math.min(MAX_ZOOM, Math.max(1, cur.scale * f));
+        return scale === 1 ? { index, scale, x: 0, y: 0 } : { ...cur, scale };
+      });
+
+    const onKeyDown = (e: KeyboardEvent) => {
+      if (e.key === "Escape") onIndexChange(null);
+      if (e.key === "ArrowLeft" && count > 1) go(-1);
+      if (e.key === "ArrowRight" && count > 1) go(1);
+      if (e.key === "+" || e.key === "=") zoomBy(1.5);
+      if (e.key === "-") zoomBy(1 / 1.5);
+      if (e.key === "0") zoomBy(0);
+    };
+    window.addEventListener("keydown", onKeyDown);
+
+    return () => {
+      document.body.style.overflow = prev;
+      window.removeEventListener("keydown", onKeyDown);
+    };
+  }, [index, count, onIndexChange]);
+
+  if (!open || index === null) return null;
+  const img = images[index];
+
+  const go = (step: number) => onIndexChange((index + step + count) % count);
+
+  function onPointerDown(e: PointerEvent<HTMLDivElement>) {
+    e.currentTarget.setPointerCapture(e.pointerId);
+    pointers.current.set(e.pointerId, { x: e.clientX, y: e.clientY });
+
+    const pts = Array.from(pointers.current.values());
+    const pinched = gesture.current?.pinched ?? false;
+    gesture.current =
+      pts.length >= 2
+        ? { x: 0, y: 0, view: z, dist: distance(pts[0], pts[1]), pinched: true }
+        : { x: e.clientX, y: e.clientY, view: z, dist: null, pinched };
+  }
+
+  function onPointerMove(e: PointerEvent<HTMLDivElement>) {
+    if (!pointers.current.has(e.pointerId)) return;
+    pointers.current.set(e.pointerId, { x: e.clientX, y: e.clientY });
+
+    const g = gesture.current;
+    if (!g) return;
+    const pts = Array.from(pointers.current.values());
+
+    if (g.dist && pts.length >= 2) {
+      zoomTo((g.view.scale * distance(pts[0], pts[1])) / g.dist, g.view);
+    } else if (g.view.scale > 1) {
+      setView(settle({ ...g.view, x: g.view.x + e.clientX - g.x, y: g.view.y + e.clientY - g.y }));
+    }
+  }
+
+  function onPointerUp(e: PointerEvent<HTMLDivElement>) {
+    if (!pointers.current.delete(e.pointerId)) return;
+    const g = gesture.current;
+    const rest = Array.from(pointers.current.values());
+
+    if (rest.length) {
+      // one finger left after a pinch: it pans from here
+      gesture.current = { x: rest[0].x, y: rest[0].y, view: z, dist: null, pinched: true };
+      return;
+    }
+    gesture.current = null;
+
+    // swipe to page, unless zoomed in (that drag was a pan)
+    if (!g || g.pinched || g.view.scale > 1 || count < 2) return;
+    const dx = e.clientX - g.x;
+    const dy = e.clientY - g.y;
+    if (Math.abs(dx) > SWIPE_PX && Math.abs(dx) > Math.abs(dy)) go(dx > 0 ? -1 : 1);
+  }
+
+  function onWheel(e: WheelEvent<HTMLDivElement>) {
+    zoomTo(z.scale * Math.exp(-e.deltaY * 0.0015));
+  }
+
+  return (
+    <div className="lightbox" role="dialog" aria-modal="true" aria-label="Image viewer">
+      <button className="lbBackdrop" onClick={() => onIndexChange(null)} aria-label="Close" />
+      <div className="lbPanel">
+        <div className="lbTop">
+          <span className="muted">
+            {index + 1} / {count}
+          </span>
+          <div className="row" style={{ gap: 6 }}>
+            <button className="lbBtn" onClick={() => zoomTo(z.scale / 1.5)} disabled={z.scale <= 1} aria-label="Zoom out">
+              −
+            </button>
+            <span className="muted" style={{ minWidth: 44, textAlign: "center", fontSize: 12 }}>
+              {Math.round(z.scale * 100)}%
+            </span>
+            <button className="lbBtn" onClick={() => zoomTo(z.scale * 1.5)} disabled={z.scale >= MAX_ZOOM} aria-label="Zoom in">
+              +
+            </button>
+            <a className="lbBtn" href={img.download ?? img.src} download target="_blank" rel="noreferrer">
+              Download
+            </a>
+            <button className="lbBtn" onClick={() => onIndexChange(null)} aria-label="Close" autoFocus>
+              ✕
+            </button>
+          </div>
+        </div>
+
+        <div className="lbBody">
+          {count > 1 && (
+            <button className="lbNav" onClick={() => go(-1)} aria-label="Previous">
+              ‹
+            </button>
+          )}
+          <div
+            ref={stage}
+            className="lbZoom"
+            onPointerDown={onPointerDown}
+            onPointerMove={onPointerMove}
+            onPointerUp={onPointerUp}
+            onPointerCancel={onPointerUp}
+            onWheel={onWheel}
+            onDoubleClick={() => zoomTo(z.scale > 1 ? 1 : 2.5)}
+            style={{ cursor: z.scale > 1 ? "grab" : "zoom-in" }}
+          >
+            <img
+              key={img.src}
+              className="lbImg"
+              src={img.src}
+              srcSet={img.srcSet}
+              sizes="100vw"
+              alt={img.alt}
+              draggable={false}
+              style={{ transform: `translate(${z.x}px, ${z.y}px) scale(${z.scale})` }}
+            />
+          </div>
+          {count > 1 && (
+            <button className="lbNav" onClick={() => go(1)} aria-label="Next">
+              ›
+            </button>
+          )}
+        </div>
+
+        {img.caption && <div className="lbCaption">{img.caption}</div>}
+
+        <div className="lbHint muted">
+          Tip: ← → keys / swipe • scroll, pinch or double-click to zoom • Esc closes
+        </div>
+      </div>
+    </div>
+  );
+}
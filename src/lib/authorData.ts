@@ -0,0 +1,50 @@
+import type { SupabaseClient } from "@supabase/supabase-js";
+
+/* ===========================
+   Author profile shape + queries that don't depend on the app's Supabase
+   client (shared with the build plugins). The app imports these through
+   ./authors.
+=========================== */
+
+export type AuthorLink = { label: string; url: string };
+
+export type AuthorProfile = {
+  user_id: string;
+  // URL part of /author/:handle
+  handle: string;
+  display_name: string;
+  avatar_path: string | null;
+  bio: string | null;
+  links: AuthorLink[];
+  created_at: string;
+  updated_at: string;
+};
+
+export const HANDLE_PATTERN = /^[a-z0-9][a-z0-9_-]{1,39}$/;
+
+// Only http(s) links are ever rendered
+function toLink(x: unknown): AuthorLink | null {
+  if (!x || typeof x !== "object") return null;
+  const { label, url } = x as Partial<AuthorLink>;
+  if (typeof url !== "string" || !/^https?:\/\//i.test(url)) return null;
+  return { label: typeof label === "string" && label.trim() ? label.trim() : url, url };
+}
+
+export function normalizeProfile(r: Record<string, unknown>): AuthorProfile {
+  const links = Array.isArray(r.links) ? r.links.map(toLink) : [];
+  return {
+    ...r,
+    links: links.filter((l): l is AuthorLink => !!l),
+  } as AuthorProfile;
+}
+
+export function authorPath(a: Pick<AuthorProfile, "handle">) {
+  return `/author/${encodeURIComponent(a.handle)}`;
+}
+
+/** Every author profile (there are only ever a handful). */
+export async function fetchAuthorProfiles(client: SupabaseClient): Promise<AuthorProfile[]> {
+  const { data, error } = await client.from("author_profiles").select("*");
+  if (error) throw error;
+  return (data ?? []).map(normalizeProfile);
+}
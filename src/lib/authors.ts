@@ -0,0 +1,173 @@
+import { useEffect, useState } from "react";
+import { supabase } from "./supabase";
+import { slugify } from "./posts";
+import { uploadBlogImage } from "./uploadImage";
+import {
+  HANDLE_PATTERN,
+  normalizeProfile,
+  type AuthorLink,
+  type AuthorProfile,
+} from "./authorData";
+
+export { authorPath, HANDLE_PATTERN, normalizeProfile } from "./authorData";
+export type { AuthorLink, AuthorProfile } from "./authorData";
+
+const BUCKET = "loopblogimages";
+
+export const BIO_MAX_LENGTH = 1000;
+
+export function avatarUrl(path: string | null): string | null {
+  if (!path) return null;
+  return supabase.storage.from(BUCKET).getPublicUrl(path).data.publicUrl;
+}
+
+// user_id -> profile (null = has none); one request per batch of unknown ids
+const profileCache = new Map<string, Promise<AuthorProfile | null>>();
+
+/** Profiles for these users, keyed by user id. Users without one are left out. */
+export async function loadAuthorProfiles(userIds: string[]): Promise<Map<string, AuthorProfile>> {
+  const ids = Array.from(new Set(userIds.filter(Boolean)));
+  const missing = ids.filter((id) => !profileCache.has(id));
+
+  if (missing.length) {
+    const batch = (async () => {
+      const { data, error } = await supabase
+        .from("author_profiles")
+        .select("*")
+        .in("user_id", missing);
+      if (error) throw error;
+      return (data ?? []).map(normalizeProfile);
+    })();
+    batch.catch(() => missing.forEach((id) => profileCache.delete(id)));
+
+    for (const id of missing) {
+      profileCache.set(id, batch.then((rows) => rows.find((r) => r.user_id === id) ?? null));
+    }
+  }
+
+  const rows = await Promise.all(ids.map((id) => profileCache.get(id)!));
+  return new Map(rows.filter((r): r is AuthorProfile => !!r).map((r) => [r.user_id, r]));
+}
+
+/** Author profiles for a list of posts (bylines); empty until loaded. */
+export function useAuthors(authorIds: (string | null | undefined)[]) {
+  const key = Array.from(new Set(authorIds.filter((x): x is string => !!x)))
+    .sort()
+    .join(",");
+  const [authors, setAuthors] = useState<Map<string, AuthorProfile>>(() => new Map());
+
+  useEffect(() => {
+    if (!key) return;
+    let alive = true;
+
+    loadAuthorProfiles(key.split(","))
+      .then((m) => {
+        if (alive) setAuthors(m);
+      })
+      .catch((e) => console.error(e));
+
+    return () => {
+      alive = false;
+    };
+  }, [key]);
+
+  return authors;
+}
+
+export async function getAuthorByHandle(handle: string): Promise<AuthorProfile | null> {
+  const { data, error } = await supabase
+    .from("author_profiles")
+    .select("*")
+    .eq("handle", handle.toLowerCase())
+    .maybeSingle();
+
+  if (error) throw error;
+
+  return data ? normalizeProfile(data) : null;
+}
+
+export async function loadOwnProfile(userId: string): Promise<AuthorProfile | null> {
+  const map = await loadAuthorProfiles([userId]);
+  return map.get(userId) ?? null;
+}
+
+/** Suggested handle for a new profile ("Jane Doe" -> "jane-doe"). */
+export function handleFromName(name: string) {
+  return slugify(name).slice(0, 40);
+}
+
+/**
+ * Links textarea <-> list. One link per line, either a bare URL or
+ * "Label | https://…".
+ */
+export function parseLinks(raw: string): AuthorLink[] {
+  return raw
+    .split("\n")
+    .map((line) => line.trim())
+    .filter(Boolean)
+    .map((line) => {
+      const bar = line.lastIndexOf("|");
+      const label = bar >= 0 ? line.slice(0, bar).trim() : "";
+      const url = (bar >= 0 ? line.slice(bar + 1) : line).trim();
+      if (!/^https?:\/\/\S+$/i.test(url)) {
+        throw new Error(`"${line}" isn't a link. Use "Label | https://…".`);
+      }
+      return { label: label || url, url };
+    })
+    .slice(0, 8);
+}
+
+export function formatLinks(links: AuthorLink[]) {
+  return links.map((l) => (l.label && l.label !== l.url ? `${l.label} | ${l.url}` : l.url)).join("\n");
+}
+
+export async function saveAuthorProfile(input: {
+  userId: string;
+  handle: string;
+  displayName: string;
+  avatarPath: string | null;
+  bio: string;
+  links: AuthorLink[];
+}): Promise<AuthorProfile> {
+  const handle = input.handle.trim().toLowerCase();
+  const displayName = input.displayName.trim();
+
+  if (!displayName) throw new Error("Display name is required.");
+  if (!HANDLE_PATTERN.test(handle)) {
+    throw new Error("Handles are 2–40 lowercase letters, numbers, - or _.");
+  }
+  if (input.bio.length > BIO_MAX_LENGTH) {
+    throw new Error(`Bios are limited to ${BIO_MAX_LENGTH} characters.`);
+  }
+
+  const { data, error } = await supabase
+    .from("author_profiles")
+    .upsert({
+      user_id: input.userId,
+      handle,
+      display_name: displayName,
+      avatar_path: input.avatarPath,
+      bio: input.bio.trim() || null,
+      links: input.links,
+      updated_at: new Date().toISOString(),
+    })
+    .select("*")
+    .single();
+
+  if (error) {
+    if (error.message.includes("author_profiles_handle_key")) {
+      throw new Error(`The handle "${handle}" is taken.`);
+    }
+    throw error;
+  }
+
+  const saved = normalizeProfile(data);
+  profileCache.set(saved.user_id, Promise.resolve(saved));
+  return saved;
+}
+
+export async function uploadAvatar(file: File) {
+  if (!file.type.startsWith("image/")) throw new Error("Pick an image file.");
+  const { path } = await uploadBlogImage(file, "avatars");
+  return path;
+}
@@ -0,0 +1,132 @@
+import { useEffect, useState } from "react";
+import { supabase } from "./supabase";
+import { slugify } from "./posts";
+
+/* ===========================
+   Categories (one per post, managed by editors in Admin)
+=========================== */
+export type Category = {
+  id: string;
+  slug: string;
+  name: string;
+  description: string | null;
+  created_at: string;
+  updated_at: string;
+};
+
+export const CATEGORY_DESCRIPTION_MAX_LENGTH = 500;
+
+export function categoryPath(c: Pick<Category, "slug">) {
+  return `/category/${encodeURIComponent(c.slug)}`;
+}
+
+// The whole (small) list, fetched once per page load; reset on changes
+let cached: Promise<Category[]> | null = null;
+
+/** All categories, A–Z. */
+export function loadCategories(): Promise<Category[]> {
+  if (!cached) {
+    cached = (async () => {
+      const { data, error } = await supabase
+        .from("categories")
+        .select("*")
+        .order("name", { ascending: true });
+      if (error) throw error;
+      return (data ?? []) as Category[];
+    })();
+    cached.catch(() => {
+      cached = null;
+    });
+  }
+  return cached;
+}
+
+/** Categories for pickers and labels; empty until loaded. */
+export function useCategories() {
+  const [categories, setCategories] = useState<Category[]>([]);
+
+  useEffect(() => {
+    let alive = true;
+
+    loadCategories()
+      .then((rows) => {
+        if (alive) setCategories(rows);
+      })
+      .catch((e) => console.error(e));
+
+    return () => {
+      alive = false;
+    };
+  }, []);
+
+  return categories;
+}
+
+export async function getCategoryBySlug(slug: string): Promise<Category | null> {
+  const rows = await loadCategories();
+  return rows.find((c) => c.slug === slug.toLowerCase()) ?? null;
+}
+
+function cleanInput(input: { name: string; slug?: string; description?: string | null }) {
+  const name = input.name.trim();
+  if (!name) throw new Error("Category name is required.");
+
+  const slug = slugify(input.slug?.trim() || name);
+  if (!slug) throw new Error("Pick a name with some letters or numbers in it.");
+
+  const description = input.description?.trim() || null;
+  if (description && description.length > CATEGORY_DESCRIPTION_MAX_LENGTH) {
+    throw new Error(`Descriptions are limited to ${CATEGORY_DESCRIPTION_MAX_LENGTH} characters.`);
+  }
+
+  return { name, slug, description };
+}
+
+function friendlyError(error: { message: string }, slug: string, name: string) {
+  if (error.message.includes("categories_slug_key")) {
+    return new Error(`The slug "${slug}" is already used by another category.`);
+  }
+  if (error.message.includes("categories_name_key")) {
+    return new Error(`There's already a category called "${name}".`);
+  }
+  return error;
+}
+
+export async function createCategory(input: {
+  name: string;
+  slug?: string;
+  description?: string | null;
+}): Promise<Category> {
+  const row = cleanInput(input);
+
+  const { data, error } = await supabase.from("categories").insert(row).select("*").single();
+  if (error) throw friendlyError(error, row.slug, row.name);
+
+  cached = null;
+  return data as Category;
+}
+
+export async function updateCategory(
+  id: string,
+  input: { name: string; slug?: string; description?: string | null }
+): Promise<Category> {
+  const row = cleanInput(input);
+
+  const { data, error } = await supabase
+    .from("categories")
+    .update({ ...row, updated_at: new Date().toISOString() })
+    .eq("id", id)
+    .select("*")
+    .single();
+  if (error) throw friendlyError(error, row.slug, row.name);
+
+  cached = null;
+  return data as Category;
+}
+
+/** Posts in it become uncategorized (on delete set null). */
+export async function deleteCategory(id: string) {
+  const { error } = await supabase.from("categories").delete().eq("id", id);
+  if (error) throw error;
+  cached = null;
+}
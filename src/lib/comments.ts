@@ -0,0 +1,129 @@
+import { supabase } from "./supabase";
+import { visitorId } from "./visitor";
+
+export type CommentStatus = "pending" | "approved" | "rejected" | "spam";
+
+export type CommentRow = {
+  id: string;
+  post_id: string;
+  parent_id: string | null;
+  body: string;
+  author_name: string | null;
+  author_id: string | null;
+  visitor_id: string | null;
+  status: CommentStatus;
+  created_at: string;
+};
+
+export type CommentNode = CommentRow & { replies: CommentNode[] };
+
+// Moderation rows carry the post they belong to
+export type QueuedComment = CommentRow & {
+  post: { id: string; slug: string | null; title: string } | null;
+};
+
+export const COMMENT_MAX_LENGTH = 4000;
+
+// visitor_id isn't readable through the API (column grants); moderators
+// get it from comment_moderation_queue()
+const PUBLIC_COLUMNS = "id,post_id,parent_id,body,author_name,author_id,status,created_at";
+
+/** Approved comments for a post, oldest first. */
+export async function loadComments(postId: string): Promise<CommentRow[]> {
+  const { data, error } = await supabase
+    .from("comments")
+    .select(PUBLIC_COLUMNS)
+    .eq("post_id", postId)
+    .eq("status", "approved")
+    .order("created_at", { ascending: true });
+
+  if (error) throw error;
+
+  return (data ?? []).map((r) => ({ ...r, visitor_id: null }) as CommentRow);
+}
+
+/**
+ * Nests replies under their parents. Replies whose parent isn't visible
+ * (rejected, deleted) are shown at the top level rather than dropped.
+ */
+export function buildCommentTree(rows: CommentRow[]): CommentNode[] {
+  const byId = new Map<string, CommentNode>();
+  for (const r of rows) byId.set(r.id, { ...r, replies: [] });
+
+  const roots: CommentNode[] = [];
+  for (const node of byId.values()) {
+    const parent = node.parent_id ? byId.get(node.parent_id) : undefined;
+    if (parent) parent.replies.push(node);
+    else roots.push(node);
+  }
+  return roots;
+}
+
+/**
+ * Submits a comment. Readers' comments are held for moderation; comments
+ * from staff (admin/editor/author) are approved straight away. Returns the
+ * new status.
+ */
+export async function submitComment(input: {
+  postId: string;
+  parentId?: string | null;
+  body: string;
+  authorName?: string | null;
+}): Promise<CommentStatus> {
+  const body = input.body.trim();
+  if (!body) throw new Error("Write something first.");
+  if (body.length > COMMENT_MAX_LENGTH) {
+    throw new Error(`Comments are limited to ${COMMENT_MAX_LENGTH} characters.`);
+  }
+
+  const { data, error } = await supabase.rpc("submit_comment", {
+    p_post_id: input.postId,
+    p_parent_id: input.parentId ?? null,
+    p_body: body,
+    p_author_name: input.authorName?.trim() || null,
+    p_visitor_id: visitorId(),
+  });
+
+  if (error) throw error;
+
+  return data as CommentStatus;
+}
+
+/** Pending comments across all posts, oldest first. */
+export async function loadModerationQueue(): Promise<QueuedComment[]> {
+  const { data, error } = await supabase.rpc("comment_moderation_queue");
+
+  if (error) throw error;
+
+  return (data ?? []) as QueuedComment[];
+}
+
+export async function setCommentStatus(id: string, status: CommentStatus) {
+  const { error } = await supabase.from("comments").update({ status }).eq("id", id);
+  if (error) throw error;
+}
+
+/**
+ * Bans whoever wrote the comment (by account, or by browser for anonymous
+ * readers) and marks everything they have waiting in the queue as spam.
+ */
+export async function banCommenter(c: CommentRow, reason?: string) {
+  if (!c.author_id && !c.visitor_id) {
+    throw new Error("This comment can't be traced back to anyone.");
+  }
+
+  // server side: the ban needs visitor_id, which readers can't select
+  const { error } = await supabase.rpc("ban_commenter", {
+    p_comment_id: c.id,
+    p_reason: reason ?? null,
+  });
+  if (error) throw error;
+}
+
+export async function closeComments(postId: string, closed: boolean) {
+  const { error } = await supabase
+    .from("posts")
+    .update({ comments_closed: closed })
+    .eq("id", postId);
+  if (error) throw error;
+}
@@ -0,0 +1,177 @@
+import { supabase } from "./supabase";
+import { BUCKET } from "./images";
+import { addPost, type PostRow } from "./posts";
+import {
+  prepareBlogImage,
+  removeBlogImages,
+  uploadPrepared,
+  type PreparedImage,
+} from "./uploadImage";
+
+/* ===========================
+   New post + its images as one unit:
+   uploads run in parallel (with retries), a failed upload can be resumed
+   by saving again, and if the insert fails every uploaded file is removed.
+=========================== */
+export type NewPostInput = Omit<Parameters<typeof addPost>[0], "cover_path" | "image_paths"> & {
+  // already in the bucket (media library), used as-is
+  coverPath?: string | null;
+  imagePaths?: string[];
+};
+
+export type NewPostFiles = {
+  // uploaded to covers/
+  cover: File | null;
+  // uploaded to posts/, after imagePaths
+  images: File[];
+};
+
+export type CreateProgress = {
+  stage: string;
+  // bytes
+  sent: number;
+  total: number;
+};
+
+/**
+ * Carries finished work between save attempts: the processed image (so its
+ * storage name stays the same) and which objects are already up.
+ */
+export type UploadSession = {
+  prepared: Map<File, Map<string, PreparedImage>>;
+  done: Set<string>;
+};
+
+const PARALLEL_UPLOADS = 3;
+
+export function createUploadSession(): UploadSession {
+  return { prepared: new Map(), done: new Set() };
+}
+
+/** Removes whatever the session uploaded (abandoned or rolled back). */
+export async function discardUploadSession(session: UploadSession) {
+  const paths = Array.from(session.done);
+  session.prepared.clear();
+  session.done.clear();
+  if (paths.length) await supabase.storage.from(BUCKET).remove(paths);
+}
+
+async function prepare(session: UploadSession, file: File, folder: string) {
+  let byFolder = session.prepared.get(file);
+  if (!byFolder) {
+    byFolder = new Map();
+    session.prepared.set(file, byFolder);
+  }
+  let img = byFolder.get(folder);
+  if (!img) {
+    img = await prepareBlogImage(file, folder);
+    byFolder.set(folder, img);
+  }
+  return img;
+}
+
+async function runLimited<T>(tasks: Array<() => Promise<T>>, limit: number) {
+  const results: PromiseSettledResult<T>[] = new Array(tasks.length);
+  let next = 0;
+
+  async function worker() {
+    while (next < tasks.length) {
+      const i = next++;
+      try {
+        results[i] = { status: "fulfilled", value: await tasks[i]() };
+      } catch (reason) {
+        results[i] = { status: "rejected", reason };
+      }
+    }
+  }
+
+  await Promise.all(Array.from({ length: Math.min(limit, tasks.length) }, worker));
+  return results;
+}
+
+export async function createPostWithImages(
+  input: NewPostInput,
+  files: NewPostFiles,
+  session: UploadSession,
+  onProgress?: (p: CreateProgress) => void
+): Promise<PostRow> {
+  const { coverPath, imagePaths = [], ...post } = input;
+
+  // 1) Resize/encode everything first so the byte total is known
+  const jobs: PreparedImage[] = [];
+  const count = (files.cover ? 1 : 0) + files.images.length;
+  if (files.cover) {
+    onProgress?.({ stage: `Preparing image 1 of ${count}…`, sent: 0, total: 0 });
+    jobs.push(await prepare(session, files.cover, "covers"));
+  }
+  for (const f of files.images) {
+    onProgress?.({ stage: `Preparing image ${jobs.length + 1} of ${count}…`, sent: 0, total: 0 });
+    jobs.push(await prepare(session, f, "posts"));
+  }
+
+  // 2) Upload (finished parts from an earlier attempt are skipped)
+  const total = jobs.reduce((n, j) => n + j.bytes, 0);
+  const sent = jobs.map(() => 0);
+  const report = (stage: string) =>
+    onProgress?.({ stage, sent: sent.reduce((a, b) => a + b, 0), total });
+
+  if (jobs.length) {
+    const stage = `Uploading ${jobs.length} image${jobs.length === 1 ? "" : "s"}…`;
+    report(stage);
+
+    const results = await runLimited(
+      jobs.map((job, i) => () =>
+        uploadPrepared(job, {
+          done: session.done,
+          onProgress: (n) => {
+            sent[i] = n;
+            report(stage);
+          },
+        })
+      ),
+      PARALLEL_UPLOADS
+    );
+
+    // keep what made it; saving again picks up from here
+    const failed = results.find((r): r is PromiseRejectedResult => r.status === "rejected");
+    if (failed) throw failed.reason;
+  }
+
+  // Files from earlier attempts whose image was removed from the form since
+  const used = new Set(jobs.flatMap((j) => j.parts.map((p) => p.path)));
+  const stale = Array.from(session.done).filter((p) => !used.has(p));
+  if (stale.length) {
+    await supabase.storage.from(BUCKET).remove(stale);
+    stale.forEach((p) => session.done.delete(p));
+  }
+
+  // 3) Insert; on failure nothing of this post stays in the bucket
+  onProgress?.({ stage: "Saving post…", sent: total, total });
+
+  const uploadedCover = files.cover ? jobs[0].path : null;
+  const uploadedImages = jobs.slice(files.cover ? 1 : 0).map((j) => j.path);
+
+  let created: PostRow;
+  try {
+    created = await addPost({
+      ...post,
+      cover_path: uploadedCover ?? coverPath ?? null,
+      image_paths: [...imagePaths, ...uploadedImages],
+    });
+  } catch (e) {
+    try {
+      await removeBlogImages(jobs.map((j) => j.path));
+    } catch (cleanup) {
+      // the orphan cleanup in Admin will find them
+      console.error(cleanup);
+    }
+    session.prepared.clear();
+    session.done.clear();
+    throw e;
+  }
+
+  // the files belong to the post now
+  session.prepared.clear();
+  session.done.clear();
+  return created;
+}
@@ -0,0 +1,90 @@
+import type { FocalPoint } from "./images";
+
+/* ===========================
+   Cover cropping (components/post/CoverCropper).
+   Rectangles are fractions of the image (0–1), so they don't depend on
+   how large it happens to be shown.
+=========================== */
+export type CropRect = { x: number; y: number; w: number; h: number };
+
+export type CropPreset = { id: string; label: string; aspect: number | null };
+
+// Roughly the shapes Home shows covers in; the focal point covers the rest
+export const CROP_PRESETS: CropPreset[] = [
+  { id: "original", label: "Original", aspect: null },
+  { id: "hero", label: "Hero 16:9", aspect: 16 / 9 },
+  { id: "card", label: "Card 4:3", aspect: 4 / 3 },
+  { id: "square", label: "Square", aspect: 1 },
+];
+
+const clamp = (v: number, min: number, max: number) => Math.min(max, Math.max(min, v));
+
+/** Keeps the rectangle inside the image, moving (not shrinking) it. */
+export function clampCrop(r: CropRect): CropRect {
+  const w = clamp(r.w, 0, 1);
+  const h = clamp(r.h, 0, 1);
+  return { x: clamp(r.x, 0, 1 - w), y: clamp(r.y, 0, 1 - h), w, h };
+}
+
+/**
+ * Largest `aspect` box that fits a `width` × `height` image, scaled by
+ * `scale` and centred on `center` as far as the edges allow.
+ */
+export function fitCrop(
+  width: number,
+  height: number,
+  aspect: number,
+  scale = 1,
+  center: FocalPoint = { x: 0.5, y: 0.5 }
+): CropRect {
+  let w = 1;
+  let h = width / aspect / height;
+  if (h > 1) {
+    h = 1;
+    w = (height * aspect) / width;
+  }
+  w *= scale;
+  h *= scale;
+  return clampCrop({ x: center.x - w / 2, y: center.y - h / 2, w, h });
+}
+
+/** A focal point on the whole image, relative to the cropped part of it. */
+export function focusWithin(focal: FocalPoint, r: CropRect): FocalPoint {
+  return {
+    x: clamp((focal.x - r.x) / r.w, 0, 1),
+    y: clamp((focal.y - r.y) / r.h, 0, 1),
+  };
+}
+
+/**
+ * Cuts `rect` out of the image at `src` (object or public URL). The result
+ * is a high-quality JPEG; lib/imagePipeline resizes and re-encodes it on
+ * the way up like any other upload.
+ */
+export async function cropToFile(src: string, rect: CropRect, name = "cover"): Promise<File> {
+  const res = await fetch(src);
+  if (!res.ok) throw new Error("Couldn't load the image to crop it.");
+  const bitmap = await createImageBitmap(await res.blob(), { imageOrientation: "from-image" });
+
+  try {
+    const sx = Math.round(rect.x * bitmap.width);
+    const sy = Math.round(rect.y * bitmap.height);
+    const sw = Math.max(1, Math.round(rect.w * bitmap.width));
+    const sh = Math.max(1, Math.round(rect.h * bitmap.height));
+
+    const canvas = document.createElement("canvas");
+    canvas.width = sw;
+    canvas.height = sh;
+    const ctx = canvas.getContext("2d");
+    if (!ctx) throw new Error("Canvas is not available in this browser.");
+    ctx.drawImage(bitmap, sx, sy, sw, sh, 0, 0, sw, sh);
+
+    const blob = await new Promise<Blob | null>((resolve) => canvas.toBlob(resolve, "image/jpeg", 0.95));
+    if (!blob) throw new Error("Could not encode the cropped image.");
+
+    const base = name.replace(/\.[^.]+$/, "") || "cover";
+    return new File([blob], `${base}-crop.jpg`, { type: "image/jpeg" });
+  } finally {
+    bitmap.close();
+  }
+}
@@ -0,0 +1,115 @@
+/* ===========================
+   Client-side image pipeline, run before every upload:
+   auto-orient, drop metadata (EXIF/GPS never survive a canvas redraw),
+   fit within the max dimensions, re-encode (AVIF/WebP) and render the
+   smaller widths used for srcset.
+=========================== */
+export const IMAGE_PIPELINE = {
+  maxWidth: 2400,
+  maxHeight: 2400,
+  quality: 0.82,
+  // first one the browser can encode wins; JPEG is the last resort
+  formats: ["image/avif", "image/webp", "image/jpeg"],
+  // srcset widths (only the ones smaller than the image are made)
+  widths: [480, 960, 1600],
+};
+
+export type ProcessedImage = {
+  blob: Blob;
+  type: string;
+  ext: string;
+  width: number;
+  height: number;
+  // smaller renditions, ascending
+  variants: Array<{ width: number; blob: Blob }>;
+};
+
+const EXT: Record<string, string> = {
+  "image/avif": "avif",
+  "image/webp": "webp",
+  "image/jpeg": "jpg",
+};
+
+// Animated/vector formats would be flattened by a redraw; upload as-is
+const PASSTHROUGH = new Set(["image/gif", "image/svg+xml"]);
+
+export function canProcess(file: File) {
+  return file.type.startsWith("image/") && !PASSTHROUGH.has(file.type);
+}
+
+function toBlob(canvas: HTMLCanvasElement, type: string, quality: number) {
+  return new Promise<Blob | null>((resolve) => canvas.toBlob(resolve, type, quality));
+}
+
+function draw(source: CanvasImageSource, width: number, height: number) {
+  const canvas = document.createElement("canvas");
+  canvas.width = width;
+  canvas.height = height;
+  const ctx = canvas.getContext("2d");
+  if (!ctx) throw new Error("Canvas is not available in this browser.");
+  ctx.imageSmoothingEnabled = true;
+  ctx.imageSmoothingQuality = "high";
+  ctx.drawImage(source, 0, 0, width, height);
+  return canvas;
+}
+
+// Browsers silently fall back to PNG for types they can't encode
+let encoding: Promise<string> | null = null;
+
+function pickFormat(): Promise<string> {
+  if (!encoding) {
+    encoding = (async () => {
+      const probe = draw(document.createElement("canvas"), 2, 2);
+      for (const type of IMAGE_PIPELINE.formats) {
+        const blob = await toBlob(probe, type, IMAGE_PIPELINE.quality);
+        if (blob?.type === type) return type;
+      }
+      return "image/jpeg";
+    })();
+  }
+  return encoding;
+}
+
+async function encode(canvas: HTMLCanvasElement, type: string) {
+  const blob = await toBlob(canvas, type, IMAGE_PIPELINE.quality);
+  if (!blob) throw new Error("Could not encode the image.");
+  return blob;
+}
+
+/** Fit (w, h) inside (maxW, maxH) without upscaling. */
+export function fitWithin(w: number, h: number, maxW: number, maxH: number) {
+  const scale = Math.min(1, maxW / w, maxH / h);
+  return { width: Math.max(1, Math.round(w * scale)), height: Math.max(1, Math.round(h * scale)) };
+}
+
+export async function processImage(file: File): Promise<ProcessedImage> {
+  // "from-image" applies the EXIF rotation before we lose the metadata
+  const bitmap = await createImageBitmap(file, { imageOrientation: "from-image" }).catch(() => {
+    throw new Error(`Couldn't read "${file.name}". Try a JPEG, PNG or WebP image.`);
+  });
+
+  try {
+    const type = await pickFormat();
+    const size = fitWithin(bitmap.width, bitmap.height, IMAGE_PIPELINE.maxWidth, IMAGE_PIPELINE.maxHeight);
+    const main = draw(bitmap, size.width, size.height);
+
+    const variants: ProcessedImage["variants"] = [];
+    for (const w of IMAGE_PIPELINE.widths) {
+      if (w >= size.width) break;
+      // downscale from the main canvas: already oriented and smaller
+      const h = Math.max(1, Math.round((size.height * w) / size.width));
+      variants.push({ width: w, blob: await encode(draw(main, w, h), type) });
+    }
+
+    return {
+      blob: await encode(main, type),
+      type,
+      ext: EXT[type] ?? "jpg",
+      width: size.width,
+      height: size.height,
+      variants,
+    };
+  } finally {
+    bitmap.close();
+  }
+}
@@ -0,0 +1,64 @@
+import { describe, expect, it } from "vitest";
+import {
+  allVariantPaths,
+  pipelinePath,
+  srcSetFromPath,
+  thumbUrlFromPath,
+  variantPath,
+  widthsFromPath,
+} from "./images";
+
+const MAIN = "covers/abc.w480-960-1600.webp";
+
+describe("pipeline file names", () => {
+  it("round-trips the widths through the name", () => {
+    expect(pipelinePath("covers/abc", [480, 960, 1600], "webp")).toBe(MAIN);
+    expect(widthsFromPath(MAIN)).toEqual([480, 960, 1600]);
+  });
+
+  it("treats legacy uploads as having no variants", () => {
+    expect(widthsFromPath("posts/123/cover_1700000000.jpg")).toEqual([]);
+    expect(allVariantPaths("posts/123/cover_1700000000.jpg")).toEqual(["posts/123/cover_1700000000.jpg"]);
+    expect(srcSetFromPath("posts/123/cover_1700000000.jpg")).toBeUndefined();
+  });
+
+  it("names variants after their width, the largest being the main file", () => {
+    expect(variantPath(MAIN, 480)).toBe("covers/abc.w480-960-1600@480w.webp");
+    expect(variantPath(MAIN, 1600)).toBe(MAIN);
+    expect(allVariantPaths(MAIN)).toEqual([
+      "covers/abc.w480-960-1600@480w.webp",
+      "covers/abc.w480-960-1600@960w.webp",
+      MAIN,
+    ]);
+  });
+
+  it("only matches the widths suffix at the end of the name", () => {
+    expect(widthsFromPath("covers/abc.w480-960.webp.bak")).toEqual([]);
+    expect(widthsFromPath("covers/w480.webp")).toEqual([]);
+  });
+});
+
+describe("srcSetFromPath", () => {
+  it("lists every variant with its width", () => {
+    const entries = srcSetFromPath(MAIN)!.split(", ");
+    expect(entries).toHaveLength(3);
+    expect(entries[0]).toMatch(/abc\.w480-960-1600@480w\.webp 480w$/);
+    expect(entries[2]).toMatch(/abc\.w480-960-1600\.webp 1600w$/);
+  });
+
+  it("skips single-width uploads", () => {
+    expect(srcSetFromPath("covers/abc.w800.webp")).toBeUndefined();
+    expect(srcSetFromPath(null)).toBeUndefined();
+  });
+});
+
+describe("thumbUrlFromPath", () => {
+  it("picks the smallest variant that is wide enough", () => {
+    expect(thumbUrlFromPath(MAIN)).toMatch(/@480w\.webp$/);
+    expect(thumbUrlFromPath(MAIN, 900)).toMatch(/@960w\.webp$/);
+  });
+
+  it("falls back to the main file when none is wide enough", () => {
+    expect(thumbUrlFromPath(MAIN, 4000)).toMatch(/abc\.w480-960-1600\.webp$/);
+  });
+});
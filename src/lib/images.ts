@@ -0,0 +1,84 @@
+import { supabase } from "./supabase";
+
+/* ===========================
+   Storage paths -> URLs (bucket "loopblogimages")
+
+   Uploads that went through the image pipeline carry their widths in the
+   file name, largest last, which is the main file:
+     covers/3f2c….w480-960-1600.webp      (main, 1600px wide)
+     covers/3f2c….w480-960-1600@480w.webp (variant)
+   so a srcset can be built from the path alone, without a lookup.
+=========================== */
+export const BUCKET = "loopblogimages";
+
+// Layout hints for srcset; keep in step with the CSS
+export const IMAGE_SIZES = {
+  hero: "(max-width: 900px) 100vw, 900px",
+  card: "(max-width: 700px) 100vw, 360px",
+  thumb: "160px",
+};
+
+const WIDTHS_RE = /\.w(\d+(?:-\d+)*)\.([a-z0-9]+)$/i;
+
+export function publicUrlFromPath(path: string | null | undefined): string | null {
+  if (!path) return null;
+  return supabase.storage.from(BUCKET).getPublicUrl(path).data.publicUrl;
+}
+
+/** Widths stored for a pipeline upload, ascending; [] for anything else. */
+export function widthsFromPath(path: string): number[] {
+  const m = WIDTHS_RE.exec(path);
+  if (!m) return [];
+  return m[1].split("-").map(Number);
+}
+
+/** Name for a pipeline upload: `<base>.w480-960-1600.<ext>`. */
+export function pipelinePath(base: string, widths: number[], ext: string) {
+  return `${base}.w${widths.join("-")}.${ext}`;
+}
+
+/** Path of the `width` variant (the main file for the largest width). */
+export function variantPath(path: string, width: number) {
+  const widths = widthsFromPath(path);
+  if (!widths.length || width === widths[widths.length - 1]) return path;
+  return path.replace(/\.([a-z0-9]+)$/i, `@${width}w.$1`);
+}
+
+/** Every stored object behind one image (main file + its variants). */
+export function allVariantPaths(path: string) {
+  const widths = widthsFromPath(path);
+  return widths.length ? widths.map((w) => variantPath(path, w)) : [path];
+}
+
+/** `srcset` for a pipeline upload; undefined for legacy/raw uploads. */
+export function srcSetFromPath(path: string | null | undefined): string | undefined {
+  if (!path) return undefined;
+  const widths = widthsFromPath(path);
+  if (widths.length < 2) return undefined;
+  return widths.map((w) => `${publicUrlFromPath(variantPath(path, w))} ${w}w`).join(", ");
+}
+
+/** Public URL that makes the browser save the file instead of showing it. */
+export function downloadUrlFromPath(path: string | null | undefined): string | null {
+  if (!path) return null;
+  return supabase.storage.from(BUCKET).getPublicUrl(path, { download: true }).data.publicUrl;
+}
+
+/** Smallest stored version at least `min` px wide, for thumbnails. */
+export function thumbUrlFromPath(path: string | null | undefined, min = 320): string | null {
+  if (!path) return null;
+  const widths = widthsFromPath(path);
+  const w = widths.find((x) => x >= min) ?? widths[widths.length - 1];
+  return publicUrlFromPath(w ? variantPath(path, w) : path);
+}
+
+/* ===========================
+   Cover focal point (posts.cover_focus_x/y)
+=========================== */
+export type FocalPoint = { x: number; y: number };
+
+/** `object-position` that keeps the focal point in frame; undefined = centre. */
+export function coverPosition(p: { cover_focus_x?: number | null; cover_focus_y?: number | null }) {
+  if (p.cover_focus_x == null || p.cover_focus_y == null) return undefined;
+  return `${Math.round(p.cover_focus_x * 100)}% ${Math.round(p.cover_focus_y * 100)}%`;
+}
@@ -44,3 +44,18 @@ export async function getImageBlob(id: string): Promise<Blob | null> {
   db.close();
   return blob;
 }
+
+export async function deleteImages(ids: string[]): Promise<void> {
+  if (!ids.length) return;
+  const db = await openDb();
+
+  await new Promise<void>((resolve, reject) => {
+    const tx = db.transaction(STORE, "readwrite");
+    const store = tx.objectStore(STORE);
+    for (const id of ids) store.delete(id);
+    tx.oncomplete = () => resolve();
+    tx.onerror = () => reject(tx.error);
+  });
+
+  db.close();
+}
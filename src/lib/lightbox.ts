@@ -0,0 +1,55 @@
+import { useCallback } from "react";
+import { useLocation, useNavigate, useSearchParams } from "react-router-dom";
+
+/* ===========================
+   Lightbox state in the URL (?image=3, 1-based), so an open image can be
+   linked to and Back closes it.
+=========================== */
+export const LIGHTBOX_PARAM = "image";
+
+export type LightboxImage = {
+  src: string;
+  srcSet?: string;
+  alt: string;
+  caption?: string | null;
+  // URL for the Download button (defaults to src)
+  download?: string | null;
+};
+
+/** Open image index (null = closed) and a setter that keeps the URL in step. */
+export function useLightboxParam(count: number) {
+  const [params, setParams] = useSearchParams();
+  const location = useLocation();
+  const navigate = useNavigate();
+
+  const n = Number(params.get(LIGHTBOX_PARAM));
+  const index = Number.isInteger(n) && n >= 1 && n <= count ? n - 1 : null;
+
+  // set when the lightbox was opened here (not by following a link to it)
+  const pushed = (location.state as { lightbox?: boolean } | null)?.lightbox === true;
+
+  const setIndex = useCallback(
+    (next: number | null) => {
+      // opened here: closing is just Back
+      if (next === null && pushed) {
+        navigate(-1);
+        return;
+      }
+
+      const copy = new URLSearchParams(params);
+      if (next === null) copy.delete(LIGHTBOX_PARAM);
+      else copy.set(LIGHTBOX_PARAM, String(next + 1));
+
+      // opening adds a history entry; paging and closing a deep link don't
+      const opening = next !== null && !params.has(LIGHTBOX_PARAM);
+      setParams(copy, {
+        replace: !opening,
+        state: next === null ? null : { lightbox: opening || pushed },
+        preventScrollReset: true,
+      });
+    },
+    [params, setParams, navigate, pushed]
+  );
+
+  return [index, setIndex] as const;
+}
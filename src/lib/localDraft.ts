@@ -0,0 +1,94 @@
+import { deleteImages, getImageBlob, saveImage } from "./imagesDb";
+import type { FocalPoint } from "./images";
+
+/**
+ * Crash-safe copy of the post being written in Write.tsx.
+ * Text fields live in localStorage; image blobs live in IndexedDB (imagesDb).
+ */
+const DRAFT_KEY = "loopblog:write-draft";
+
+export type LocalDraft = {
+  title: string;
+  excerpt: string;
+  body: string;
+  tagsRaw: string;
+  categoryId: string | null;
+  // keys into the IndexedDB image store, in display order
+  imageIds: string[];
+  // picked from the media library (already in the bucket)
+  libraryPaths: string[];
+  // the cover: one of imageIds, or one of libraryPaths
+  coverImageId: string | null;
+  coverLibraryPath: string | null;
+  // crop/focal point of that cover; coverCropId = the cropped copy, if any
+  coverFocal: FocalPoint | null;
+  coverCropId: string | null;
+  savedAt: string;
+};
+
+// every blob the draft keeps in IndexedDB
+const blobIds = (d: LocalDraft | null) =>
+  d ? [...d.imageIds, ...(d.coverCropId ? [d.coverCropId] : [])] : [];
+
+const isFocal = (v: unknown): v is FocalPoint =>
+  !!v && typeof (v as FocalPoint).x === "number" && typeof (v as FocalPoint).y === "number";
+
+export function readLocalDraft(): LocalDraft | null {
+  try {
+    const raw = localStorage.getItem(DRAFT_KEY);
+    if (!raw) return null;
+    const d = JSON.parse(raw) as Partial<LocalDraft>;
+    return {
+      title: d.title ?? "",
+      excerpt: d.excerpt ?? "",
+      body: d.body ?? "",
+      tagsRaw: d.tagsRaw ?? "",
+      categoryId: d.categoryId ?? null,
+      imageIds: Array.isArray(d.imageIds) ? d.imageIds : [],
+      libraryPaths: Array.isArray(d.libraryPaths) ? d.libraryPaths : [],
+      coverImageId: d.coverImageId ?? null,
+      coverLibraryPath: d.coverLibraryPath ?? null,
+      coverFocal: isFocal(d.coverFocal) ? d.coverFocal : null,
+      coverCropId: d.coverCropId ?? null,
+      savedAt: d.savedAt ?? new Date().toISOString(),
+    };
+  } catch {
+    return null;
+  }
+}
+
+export async function writeLocalDraft(draft: LocalDraft) {
+  const prev = readLocalDraft();
+  localStorage.setItem(DRAFT_KEY, JSON.stringify(draft));
+
+  // drop blobs for images (or crops) that were removed since the last save
+  const kept = blobIds(draft);
+  const stale = blobIds(prev).filter((id) => !kept.includes(id));
+  await deleteImages(stale).catch(() => {});
+}
+
+export async function clearLocalDraft() {
+  const prev = readLocalDraft();
+  localStorage.removeItem(DRAFT_KEY);
+  await deleteImages(blobIds(prev)).catch(() => {});
+}
+
+export function storeDraftImage(file: File) {
+  return saveImage(file);
+}
+
+export async function loadDraftImages(ids: string[]) {
+  const out: { id: string; file: File }[] = [];
+  for (const id of ids) {
+    const blob = await getImageBlob(id);
+    if (!blob) continue;
+    const file =
+      blob instanceof File
+        ? blob
+        : new File([blob], `${id}.${blob.type.split("/")[1] || "jpg"}`, {
+            type: blob.type,
+          });
+    out.push({ id, file });
+  }
+  return out;
+}
@@ -0,0 +1,121 @@
+/* ===========================
+   Reading time + TOC helpers
+   (shared by Post.tsx and the editor previews)
+=========================== */
+export function stripMarkdown(md: string) {
+  // remove fenced code blocks
+  let s = md.replace(/```[\s\S]*?```/g, " ");
+  // remove inline code
+  s = s.replace(/`[^`]*`/g, " ");
+  // remove images ![alt](url)
+  s = s.replace(/!\[[^\]]*\]\([^)]+\)/g, " ");
+  // turn links [text](url) -> text
+  s = s.replace(/\[([^\]]+)\]\([^)]+\)/g, "$1");
+  // remove heading markers/bullets
+  s = s.replace(/^#{1,6}\s+/gm, "");
+  s = s.replace(/^[-*+]\s+/gm, "");
+  // remove emphasis markers (**bold**, _italic_, ~~strike~~)
+  s = s.replace(/[*~]+|(?<!\w)_+|_+(?!\w)/g, "");
+  // collapse whitespace
+  s = s.replace(/\s+/g, " ").trim();
+  return s;
+}
+
+export function countWords(text: string) {
+  if (!text) return 0;
+  const words = text.trim().split(/\s+/).filter(Boolean);
+  return words.length;
+}
+
+export function readingTimeLabel(md: string) {
+  const words = countWords(stripMarkdown(md));
+  const minutes = Math.max(1, Math.round(words / 200));
+  return `${minutes} min read`;
+}
+
+function slugify(input: string) {
+  return input
+    .toLowerCase()
+    .trim()
+    .replace(/[^\w\s-]/g, "")
+    .replace(/\s+/g, "-")
+    .replace(/-+/g, "-");
+}
+
+export function createSlugger() {
+  const counts: Record<string, number> = {};
+  return (text: string) => {
+    const base = slugify(text) || "section";
+    const n = (counts[base] ?? 0) + 1;
+    counts[base] = n;
+    return n === 1 ? base : `${base}-${n}`;
+  };
+}
+
+export type TocItem = {
+  level: 2 | 3;
+  text: string;
+  id: string;
+};
+
+export function extractToc(md: string): TocItem[] {
+  const slug = createSlugger();
+  const items: TocItem[] = [];
+  const lines = (md || "").split("\n");
+
+  for (const line of lines) {
+    const m = /^(#{2,3})\s+(.+?)\s*$/.exec(line);
+    if (!m) continue;
+
+    const level = m[1].length as 2 | 3;
+    const text = m[2]
+      .replace(/\[([^\]]+)\]\([^)]+\)/g, "$1")
+      .replace(/[*_`]/g, "")
+      .trim();
+
+    if (!text) continue;
+    items.push({ level, text, id: slug(text) });
+  }
+
+  return items;
+}
+
+/* ===========================
+   Inline images: ![alt](posts/… "Caption")
+   A bare path (no scheme, not rooted) is an object in the storage bucket.
+=========================== */
+// ![alt](src "title"): 1 = alt, 2 = src, 3 = title (still escaped)
+const IMAGE_RE = /!\[((?:\\.|[^\]\\])*)\]\(\s*<?([^\s)>]+)>?(?:\s+"((?:\\.|[^"\\])*)")?\s*\)/g;
+
+const unescapeMd = (s: string) => s.replace(/\\(.)/g, "$1");
+
+export function isStoragePath(url: string) {
+  return !!url && !/^([a-z][a-z0-9+.-]*:|\/|#|\.|\?)/i.test(url);
+}
+
+/** Storage paths of the images embedded in a body. */
+export function inlineImagePaths(md: string): string[] {
+  const paths = new Set<string>();
+  for (const m of md.matchAll(IMAGE_RE)) {
+    if (isStoragePath(m[2])) paths.add(m[2]);
+  }
+  return Array.from(paths);
+}
+
+export type MarkdownImage = { src: string; alt: string; title: string | null };
+
+/** Images embedded in a body, in reading order (first use of each src). */
+export function markdownImages(md: string): MarkdownImage[] {
+  const seen = new Map<string, MarkdownImage>();
+  for (const m of md.matchAll(IMAGE_RE)) {
+    if (seen.has(m[2])) continue;
+    seen.set(m[2], { src: m[2], alt: unescapeMd(m[1]), title: m[3] ? unescapeMd(m[3]) : null });
+  }
+  return Array.from(seen.values());
+}
+
+export function imageMarkdown(alt: string, path: string, caption?: string) {
+  const a = alt.trim().replace(/[[\]\\]/g, "\\$&");
+  const c = caption?.trim().replace(/["\\]/g, "\\$&");
+  return c ? `![${a}](${path} "${c}")` : `![${a}](${path})`;
+}
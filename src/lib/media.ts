@@ -0,0 +1,245 @@
+import { selectAll, supabase } from "./supabase";
+import { BUCKET, widthsFromPath } from "./images";
+import { normalizeRow, postPath, type PostStatus } from "./posts";
+import { authorPath } from "./authors";
+import { inlineImagePaths } from "./markdown";
+import { removeBlogImages } from "./uploadImage";
+
+/* ===========================
+   Media library: everything in the bucket, grouped per image
+   (pipeline variants fold into their main file) and joined with the
+   posts, their revisions and author profiles that reference it.
+=========================== */
+export type MediaUse = {
+  // "inline" = embedded in the body; "revision" = only an older version
+  // of the post uses it (restoring that version needs the file)
+  as: "cover" | "image" | "inline" | "avatar" | "revision";
+  // post id or author user id
+  id: string;
+  label: string;
+  href: string;
+  // posts only
+  status: PostStatus | null;
+};
+
+export type MediaItem = {
+  path: string;
+  name: string;
+  folder: string;
+  mimetype: string | null;
+  // main file + variants
+  bytes: number;
+  created_at: string | null;
+  // pipeline widths ([] for raw uploads); the last one is the main file
+  widths: number[];
+  usedBy: MediaUse[];
+};
+
+export type StoredObject = {
+  path: string;
+  bytes: number;
+  mimetype: string | null;
+  created_at: string | null;
+};
+
+const PAGE = 1000;
+
+// "x.w480-960@480w.webp" -> main "x.w480-960.webp"
+const VARIANT_RE = /@\d+w(\.[a-z0-9]+)$/i;
+
+export function mainPathOf(path: string) {
+  return path.replace(VARIANT_RE, "$1");
+}
+
+type ListEntry = {
+  name: string;
+  id: string | null;
+  created_at: string | null;
+  metadata: { size?: number; mimetype?: string } | null;
+};
+
+/** Every object in the bucket (folders walked recursively). */
+export async function listBucketObjects(prefix = ""): Promise<StoredObject[]> {
+  const out: StoredObject[] = [];
+
+  for (let offset = 0; ; offset += PAGE) {
+    const { data, error } = await supabase.storage
+      .from(BUCKET)
+      .list(prefix, { limit: PAGE, offset, sortBy: { column: "name", order: "asc" } });
+    if (error) throw error;
+
+    const entries = (data ?? []) as ListEntry[];
+    for (const e of entries) {
+      const path = prefix ? `${prefix}/${e.name}` : e.name;
+      // folders have no id
+      if (e.id === null) {
+        out.push(...(await listBucketObjects(path)));
+      } else if (e.name !== ".emptyFolderPlaceholder") {
+        out.push({
+          path,
+          bytes: e.metadata?.size ?? 0,
+          mimetype: e.metadata?.mimetype ?? null,
+          created_at: e.created_at,
+        });
+      }
+    }
+
+    if (entries.length < PAGE) break;
+  }
+
+  return out;
+}
+
+type RevisionRefs = {
+  post_id: string;
+  title: string;
+  cover_path: string | null;
+  image_paths: string[] | null;
+  body: string | null;
+};
+
+type AvatarRow = { user_id: string; handle: string; display_name: string; avatar_path: string };
+
+/**
+ * Who uses which storage paths (post covers, galleries and bodies, the
+ * same in post revisions; avatars).
+ */
+export async function loadMediaUses(): Promise<Map<string, MediaUse[]>> {
+  const [posts, revisions, authors] = await Promise.all([
+    selectAll((from, to) =>
+      supabase
+        .from("posts")
+        .select("id,slug,title,status,cover_path,image_paths,body,body_md")
+        .order("id")
+        .range(from, to)
+    ),
+    selectAll((from, to) =>
+      supabase
+        .from("post_revisions")
+        .select("post_id,title,cover_path,image_paths,body")
+        .order("id")
+        .range(from, to)
+    ),
+    selectAll((from, to) =>
+      supabase
+        .from("author_profiles")
+        .select("user_id,handle,display_name,avatar_path")
+        .not("avatar_path", "is", null)
+        .order("user_id")
+        .range(from, to)
+    ),
+  ]);
+
+  const uses = new Map<string, MediaUse[]>();
+  const add = (path: string, use: MediaUse) => {
+    const list = uses.get(path) ?? [];
+    if (!list.some((u) => u.id === use.id && u.as === use.as)) list.push(use);
+    uses.set(path, list);
+  };
+
+  for (const row of posts) {
+    const p = normalizeRow(row);
+    const ref = { id: p.id, label: p.title, href: postPath(p), status: p.status };
+    if (p.cover_path) add(p.cover_path, { ...ref, as: "cover" });
+    for (const path of p.image_paths) add(path, { ...ref, as: "image" });
+    // Write stores the text in body, older editors in body_md: check both
+    for (const path of inlineImagePaths(`${row.body ?? ""}\n${row.body_md ?? ""}`)) {
+      add(path, { ...ref, as: "inline" });
+    }
+  }
+
+  // after the posts, so a current use is listed as that, not as "revision"
+  for (const rev of revisions as RevisionRefs[]) {
+    const ref = { as: "revision" as const, id: rev.post_id, label: rev.title, href: `/edit/${rev.post_id}`, status: null };
+    const paths = [rev.cover_path, ...(rev.image_paths ?? []), ...inlineImagePaths(rev.body ?? "")];
+    for (const path of paths) {
+      if (!path) continue;
+      const list = uses.get(path);
+      if (!list?.some((u) => u.id === rev.post_id)) add(path, ref);
+    }
+  }
+
+  for (const a of authors as AvatarRow[]) {
+    add(a.avatar_path, { as: "avatar", id: a.user_id, label: a.display_name, href: authorPath(a), status: null });
+  }
+
+  return uses;
+}
+
+export function groupMedia(objects: StoredObject[], uses: Map<string, MediaUse[]>): MediaItem[] {
+  const items = new Map<string, MediaItem>();
+
+  for (const o of objects) {
+    const main = mainPathOf(o.path);
+    let item = items.get(main);
+    if (!item) {
+      const slash = main.lastIndexOf("/");
+      item = {
+        path: main,
+        name: main.slice(slash + 1),
+        folder: slash >= 0 ? main.slice(0, slash) : "",
+        mimetype: null,
+        bytes: 0,
+        created_at: null,
+        widths: widthsFromPath(main),
+        usedBy: uses.get(main) ?? [],
+      };
+      items.set(main, item);
+    }
+
+    item.bytes += o.bytes;
+    if (o.path === main) {
+      item.mimetype = o.mimetype;
+      item.created_at = o.created_at;
+    }
+  }
+
+  // newest first; variants without a main file sort last
+  return Array.from(items.values()).sort((a, b) =>
+    (b.created_at ?? "").localeCompare(a.created_at ?? "")
+  );
+}
+
+export async function loadMediaLibrary(): Promise<MediaItem[]> {
+  const [objects, uses] = await Promise.all([listBucketObjects(), loadMediaUses()]);
+  return groupMedia(objects, uses);
+}
+
+/** Free-text match on file name, folder and the titles of posts using it. */
+export function matchesMedia(item: MediaItem, query: string) {
+  const q = query.trim().toLowerCase();
+  if (!q) return true;
+  return (
+    item.path.toLowerCase().includes(q) ||
+    item.usedBy.some((u) => u.label.toLowerCase().includes(q))
+  );
+}
+
+export function formatBytes(n: number) {
+  if (n < 1024) return `${n} B`;
+  if (n < 1024 * 1024) return `${(n / 1024).toFixed(0)} KB`;
+  return `${(n / 1024 / 1024).toFixed(1)} MB`;
+}
+
+/**
+ * True when another post (any post, without `postId`), or any revision,
+ * still points at `path` (library images are shared). Asked server-side
+ * (image_in_use) so RLS can't hide other people's posts from an author.
+ */
+export async function isUsedElsewhere(path: string, postId?: string) {
+  const { data, error } = await supabase.rpc("image_in_use", {
+    p_path: path,
+    p_except_post: postId ?? null,
+  });
+  if (error) throw error;
+  return data === true;
+}
+
+/** Deletes the given files unless some post or revision uses them. */
+export async function removeIfUnused(paths: string[]) {
+  const unused: string[] = [];
+  for (const path of paths) {
+    if (!(await isUsedElsewhere(path))) unused.push(path);
+  }
+  await removeBlogImages(unused);
+}
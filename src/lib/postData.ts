@@ -0,0 +1,81 @@
+import type { SupabaseClient } from "@supabase/supabase-js";
+
+/* ===========================
+   Post shape + queries that don't depend on the app's Supabase client,
+   so the build plugins (feeds etc.) can use them with their own client.
+   The app imports these through ./posts.
+=========================== */
+
+// "scheduled" = published, but published_at is still in the future
+// "in_review" = submitted by its author, waiting for an editor
+export type PostStatus = "draft" | "in_review" | "scheduled" | "published";
+
+export type PostRow = {
+  id: string;
+  title: string;
+  slug: string | null;
+  excerpt: string | null;
+
+  // App uses body_md naming, but DB column is typically "body"
+  body_md: string | null;
+
+  cover_path: string | null;
+
+  // focal point of the cover, 0–1 from the top left (null = centre)
+  cover_focus_x?: number | null;
+  cover_focus_y?: number | null;
+
+  // ✅ multiple storage paths (array column in DB)
+  image_paths: string[];
+
+  // ✅ lowercase tags without "#" (array column in DB)
+  tags: string[];
+
+  status: PostStatus;
+
+  // who wrote it (set by addPost); authors may only edit their own
+  author_id?: string | null;
+
+  // managed taxonomy (see ./categories); tags stay free-form
+  category_id?: string | null;
+
+  published_at: string | null;
+  // last time it was submitted for review
+  submitted_at?: string | null;
+  created_at: string;
+  updated_at: string;
+
+  // readers can't add new comments; existing ones stay visible
+  comments_closed?: boolean;
+
+  // computed column, only present on list queries (first ~400 chars of the body)
+  body_preview?: string | null;
+};
+
+export function normalizeRow(r: Record<string, unknown>): PostRow {
+  return {
+    ...r,
+    body_md: (r.body_md ?? r.body ?? null) as string | null,
+    image_paths: Array.isArray(r.image_paths) ? r.image_paths : [],
+    tags: Array.isArray(r.tags) ? r.tags : [],
+  } as PostRow;
+}
+
+/** Canonical link for a post: its slug, falling back to the id. */
+export function postPath(p: Pick<PostRow, "id" | "slug">) {
+  return `/post/${encodeURIComponent(p.slug || p.id)}`;
+}
+
+/** Live posts (published, or scheduled and already due), newest first. */
+export async function fetchLivePosts(client: SupabaseClient): Promise<PostRow[]> {
+  const { data, error } = await client
+    .from("posts")
+    .select("*")
+    .in("status", ["published", "scheduled"])
+    .lte("published_at", new Date().toISOString())
+    .order("published_at", { ascending: false });
+
+  if (error) throw error;
+
+  return (data ?? []).map(normalizeRow);
+}
@@ -1,59 +1,290 @@
 import { supabase } from "../lib/supabase"; // ✅ if this file lives in src/lib, use "./supabase" instead
+import { fetchLivePosts, normalizeRow, type PostRow, type PostStatus } from "./postData";
 
-export type PostStatus = "draft" | "published";
+export { normalizeRow, postPath } from "./postData";
+export type { PostRow, PostStatus } from "./postData";
 
-export type PostRow = {
-  id: string;
-  title: string;
-  slug: string | null;
-  excerpt: string | null;
+// Columns needed for cards/lists (no full body, no gallery paths)
+const LIST_COLUMNS =
+  "id,title,slug,excerpt,body_preview,cover_path,cover_focus_x,cover_focus_y,tags,status,author_id,category_id,published_at,created_at,updated_at";
 
-  // App uses body_md naming, but DB column is typically "body"
-  body_md: string | null;
+export type PostPage = {
+  rows: PostRow[];
+  // pass back to loadPostPage for the next page; null = no more posts
+  nextCursor: string | null;
+};
 
-  cover_path: string | null;
+// Just enough to render a prev/next link
+export type PostLink = Pick<PostRow, "id" | "slug" | "title" | "published_at" | "created_at">;
 
-  // ✅ multiple storage paths (array column in DB)
-  image_paths: string[];
+const UUID_RE =
+  /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i;
 
-  status: PostStatus;
-  published_at: string | null;
-  created_at: string;
-  updated_at: string;
-};
+export function isPostId(ref: string) {
+  return UUID_RE.test(ref);
+}
 
-function normalizeRow(r: any): PostRow {
-  return {
-    ...r,
-    body_md: (r?.body_md ?? r?.body ?? null) as string | null,
-    image_paths: Array.isArray(r?.image_paths) ? r.image_paths : [],
-  } as PostRow;
+export function slugify(input: string) {
+  return input
+    .toLowerCase()
+    .trim()
+    .replace(/['"]/g, "")
+    .replace(/[^a-z0-9]+/g, "-")
+    .replace(/(^-|-$)+/g, "")
+    .slice(0, 80);
+}
+
+/**
+ * Turns "looping, #Guitar, pedals" into ["looping", "guitar", "pedals"].
+ * Used by both editors so tags are stored the same way everywhere.
+ */
+export function parseTags(raw: string): string[] {
+  const tags = raw
+    .split(",")
+    .map((t) => t.trim().replace(/^#+/, "").toLowerCase())
+    .filter(Boolean);
+
+  return Array.from(new Set(tags)).slice(0, 12);
+}
+
+/**
+ * A post is live once it is published/scheduled AND its publish time has passed.
+ */
+export function isLive(p: Pick<PostRow, "status" | "published_at">, now = Date.now()) {
+  if (p.status !== "published" && p.status !== "scheduled") return false;
+  if (!p.published_at) return p.status === "published";
+  return new Date(p.published_at).getTime() <= now;
 }
 
 export async function loadPosts(): Promise<PostRow[]> {
+  return fetchLivePosts(supabase);
+}
+
+function encodeCursor(p: PostRow) {
+  return `${p.published_at}|${p.id}`;
+}
+
+/**
+ * One page of live posts, newest first. Cursor = (published_at, id) of the
+ * last row seen, so posts sharing a timestamp are never skipped.
+ */
+export async function loadPostPage(
+  opts: { cursor?: string | null; limit?: number } = {}
+): Promise<PostPage> {
+  const limit = opts.limit ?? 12;
+
+  let q = supabase
+    .from("posts")
+    .select(LIST_COLUMNS)
+    .in("status", ["published", "scheduled"])
+    .lte("published_at", new Date().toISOString())
+    .order("published_at", { ascending: false })
+    .order("id", { ascending: false })
+    .limit(limit + 1);
+
+  if (opts.cursor) {
+    const [ts, id] = opts.cursor.split("|");
+    q = q.or(`published_at.lt."${ts}",and(published_at.eq."${ts}",id.lt.${id})`);
+  }
+
+  const { data, error } = await q;
+  if (error) throw error;
+
+  const rows = (data ?? []).map(normalizeRow);
+  const hasMore = rows.length > limit;
+  const page = rows.slice(0, limit);
+
+  return {
+    rows: page,
+    nextCursor: hasMore && page.length ? encodeCursor(page[page.length - 1]) : null,
+  };
+}
+
+/**
+ * The live posts published right before/after this one (for prev/next links).
+ * Ordered by (published_at, id) like loadPostPage, so posts sharing a
+ * timestamp still page one way.
+ */
+export async function getNeighborPosts(
+  post: Pick<PostRow, "id" | "published_at">
+): Promise<{ newer: PostLink | null; older: PostLink | null }> {
+  if (!post.published_at) return { newer: null, older: null };
+
+  const cols = "id,slug,title,published_at,created_at";
+  const now = new Date().toISOString();
+  const ts = post.published_at;
+
+  const [newerRes, olderRes] = await Promise.all([
+    supabase
+      .from("posts")
+      .select(cols)
+      .in("status", ["published", "scheduled"])
+      .lte("published_at", now)
+      .or(`published_at.gt."${ts}",and(published_at.eq."${ts}",id.gt.${post.id})`)
+      .order("published_at", { ascending: true })
+      .order("id", { ascending: true })
+      .limit(1)
+      .maybeSingle(),
+    supabase
+      .from("posts")
+      .select(cols)
+      .in("status", ["published", "scheduled"])
+      .or(`published_at.lt."${ts}",and(published_at.eq."${ts}",id.lt.${post.id})`)
+      .order("published_at", { ascending: false })
+      .order("id", { ascending: false })
+      .limit(1)
+      .maybeSingle(),
+  ]);
+
+  if (newerRes.error) throw newerRes.error;
+  if (olderRes.error) throw olderRes.error;
+
+  return {
+    newer: (newerRes.data as PostLink | null) ?? null,
+    older: (olderRes.data as PostLink | null) ?? null,
+  };
+}
+
+export async function loadPostsByTag(tag: string): Promise<PostRow[]> {
   const { data, error } = await supabase
     .from("posts")
-    .select("*")
-    .eq("status", "published")
+    .select(LIST_COLUMNS)
+    .in("status", ["published", "scheduled"])
+    .lte("published_at", new Date().toISOString())
+    .contains("tags", [tag.toLowerCase()])
+    .order("published_at", { ascending: false });
+
+  if (error) throw error;
+
+  return (data ?? []).map(normalizeRow);
+}
+
+export async function loadPostsByCategory(
+  categoryId: string,
+  opts: { limit?: number } = {}
+): Promise<PostRow[]> {
+  let q = supabase
+    .from("posts")
+    .select(LIST_COLUMNS)
+    .in("status", ["published", "scheduled"])
+    .lte("published_at", new Date().toISOString())
+    .eq("category_id", categoryId)
+    .order("published_at", { ascending: false });
+  if (opts.limit) q = q.limit(opts.limit);
+
+  const { data, error } = await q;
+  if (error) throw error;
+
+  return (data ?? []).map(normalizeRow);
+}
+
+/**
+ * The newest `perCategory` live posts of each category, for the category
+ * sections on Home. One small query per category, so a busy category can't
+ * crowd the quieter ones out of a shared limit.
+ */
+export async function loadCategorizedPosts(
+  categoryIds: string[],
+  perCategory: number
+): Promise<PostRow[]> {
+  const lists = await Promise.all(
+    categoryIds.map((id) => loadPostsByCategory(id, { limit: perCategory }))
+  );
+  return lists.flat();
+}
+
+export async function loadPostsByAuthor(authorId: string): Promise<PostRow[]> {
+  const { data, error } = await supabase
+    .from("posts")
+    .select(LIST_COLUMNS)
+    .in("status", ["published", "scheduled"])
+    .lte("published_at", new Date().toISOString())
+    .eq("author_id", authorId)
     .order("published_at", { ascending: false });
 
   if (error) throw error;
 
-  const rows = (data ?? []) as any[];
-  return rows.map(normalizeRow);
+  return (data ?? []).map(normalizeRow);
 }
 
-export async function getPost(id: string): Promise<PostRow | null> {
+/**
+ * Looks a post up by id (UUID) or by its current slug.
+ */
+export async function getPost(idOrSlug: string): Promise<PostRow | null> {
   const { data, error } = await supabase
     .from("posts")
     .select("*")
-    .eq("id", id)
+    .eq(isPostId(idOrSlug) ? "id" : "slug", idOrSlug)
     .maybeSingle();
 
   if (error) throw error;
   if (!data) return null;
 
-  return normalizeRow(data);
+  const row = normalizeRow(data);
+
+  // Scheduled and in-review posts are only visible to logged-in users
+  if (row.status !== "draft" && !isLive(row)) {
+    const { data: sess } = await supabase.auth.getSession();
+    if (!sess.session) return null;
+  }
+
+  return row;
+}
+
+/**
+ * Follows a renamed post's previous slug to the post it now belongs to.
+ */
+export async function getPostByOldSlug(slug: string): Promise<PostRow | null> {
+  const { data, error } = await supabase
+    .from("post_slug_redirects")
+    .select("post_id")
+    .eq("old_slug", slug)
+    .maybeSingle();
+
+  if (error) throw error;
+  if (!data?.post_id) return null;
+
+  return getPost(data.post_id);
+}
+
+/**
+ * True when another post (not exceptId) already uses this slug.
+ */
+export async function isSlugTaken(slug: string, exceptId?: string) {
+  let q = supabase.from("posts").select("id").eq("slug", slug).limit(1);
+  if (exceptId) q = q.neq("id", exceptId);
+
+  const { data, error } = await q;
+  if (error) throw error;
+
+  return (data ?? []).length > 0;
+}
+
+/**
+ * First free slug among "base", "base-2", "base-3", …
+ */
+export async function uniqueSlug(base: string) {
+  for (let n = 1; n < 50; n++) {
+    const candidate = n === 1 ? base : `${base.slice(0, 76)}-${n}`;
+    if (!(await isSlugTaken(candidate))) return candidate;
+  }
+  return `${base.slice(0, 66)}-${Date.now()}`;
+}
+
+/**
+ * Posts whose publish time is still ahead (soonest first). Admin-only view.
+ */
+export async function loadScheduledPosts(): Promise<PostRow[]> {
+  const { data, error } = await supabase
+    .from("posts")
+    .select("*")
+    .in("status", ["published", "scheduled"])
+    .gt("published_at", new Date().toISOString())
+    .order("published_at", { ascending: true });
+
+  if (error) throw error;
+
+  return (data ?? []).map(normalizeRow);
 }
 
 export async function addPost(input: {
@@ -65,17 +296,22 @@ export async function addPost(input: {
   body_md: string;
 
   cover_path?: string | null;
+  cover_focus?: { x: number; y: number } | null;
 
   // ✅ accept multi-image paths
   image_paths?: string[];
 
+  tags?: string[];
+
+  category_id?: string | null;
+
   status?: PostStatus;
 }): Promise<PostRow> {
   const { data: userData, error: userErr } = await supabase.auth.getUser();
   if (userErr) throw userErr;
 
   const author_id = userData.user?.id;
-  if (!author_id) throw new Error("Not logged in. Go to #/admin and log in first.");
+  if (!author_id) throw new Error("Not logged in. Go to /admin and log in first.");
 
   const status: PostStatus = input.status ?? "draft";
 
@@ -89,10 +325,16 @@ export async function addPost(input: {
     body: input.body_md,
 
     cover_path: input.cover_path ?? null,
+    cover_focus_x: input.cover_focus?.x ?? null,
+    cover_focus_y: input.cover_focus?.y ?? null,
 
     // ✅ array column
     image_paths: Array.isArray(input.image_paths) ? input.image_paths : [],
 
+    tags: Array.isArray(input.tags) ? input.tags : [],
+
+    category_id: input.category_id ?? null,
+
     status,
     published_at: status === "published" ? new Date().toISOString() : null,
   };
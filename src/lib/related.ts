@@ -0,0 +1,256 @@
+import { selectAll, supabase } from "./supabase";
+import { isLive, normalizeRow, type PostRow } from "./posts";
+import {
+  MIN_SCORE,
+  documentTerms,
+  idfTable,
+  rankRelated,
+  similarity,
+  type RelatedReasons,
+  type SimilarityInput,
+  type TermCounts,
+} from "./similarity";
+
+/* ===========================
+   Related posts (post_terms + post_related, scored in ./similarity)
+=========================== */
+
+// How many matches are kept per post; SITE.relatedCount picks how many show
+export const RELATED_STORED = 12;
+
+export type RelatedPost = Pick<
+  PostRow,
+  "id" | "slug" | "title" | "excerpt" | "cover_path" | "status" | "published_at" | "created_at"
+> & { score: number; reasons: RelatedReasons };
+
+const RELATED_COLUMNS =
+  "score, reasons, post:posts!post_related_related_id_fkey(id,slug,title,excerpt,cover_path,status,published_at,created_at)";
+
+type RelatedRow = {
+  score: number;
+  reasons: RelatedReasons | null;
+  post: Omit<RelatedPost, "score" | "reasons"> | null;
+};
+
+const NO_REASONS: RelatedReasons = { tags: [], category: false, terms: [] };
+
+/** Best `count` live matches for a post, best first. */
+export async function loadRelated(postId: string, count: number): Promise<RelatedPost[]> {
+  const { data, error } = await supabase
+    .from("post_related")
+    .select(RELATED_COLUMNS)
+    .eq("post_id", postId)
+    .order("score", { ascending: false })
+    .limit(RELATED_STORED);
+
+  if (error) throw error;
+
+  // post is null when RLS hides it; scheduled ones aren't out yet
+  return ((data ?? []) as unknown as RelatedRow[])
+    .filter((r) => !!r.post && isLive(r.post))
+    .map((r) => ({ ...r.post!, score: r.score, reasons: { ...NO_REASONS, ...r.reasons } }))
+    .slice(0, count);
+}
+
+/** "Because you read X" line for a match: the strongest shared signal. */
+export function describeReasons(r: RelatedReasons, categoryName?: string | null) {
+  const parts: string[] = [];
+  if (r.tags.length) parts.push(r.tags.map((t) => `#${t}`).join(" "));
+  if (r.category) parts.push(categoryName ? `also in ${categoryName}` : "same category");
+  if (r.terms.length) parts.push(`mentions ${r.terms.join(", ")}`);
+  return parts.join(" • ");
+}
+
+type TermsRow = {
+  post_id: string;
+  terms: TermCounts | null;
+  post: Pick<PostRow, "tags" | "category_id"> | null;
+};
+
+async function loadAllTerms(): Promise<SimilarityInput[]> {
+  const rows = await selectAll((from, to) =>
+    supabase
+      .from("post_terms")
+      .select("post_id, terms, post:posts(tags,category_id)")
+      .order("post_id")
+      .range(from, to)
+  );
+
+  return (rows as unknown as TermsRow[])
+    .filter((r) => !!r.post)
+    .map((r) => ({
+      id: r.post_id,
+      terms: r.terms ?? {},
+      tags: r.post!.tags ?? [],
+      category_id: r.post!.category_id ?? null,
+    }));
+}
+
+function toInput(post: PostRow): SimilarityInput {
+  return {
+    id: post.id,
+    terms: documentTerms(post),
+    tags: post.tags,
+    category_id: post.category_id ?? null,
+  };
+}
+
+async function replaceList(postId: string, matches: ReturnType<typeof rankRelated>) {
+  const del = await supabase.from("post_related").delete().eq("post_id", postId);
+  if (del.error) throw del.error;
+  if (!matches.length) return;
+
+  const computed_at = new Date().toISOString();
+  const { error } = await supabase.from("post_related").insert(
+    matches.map((m) => ({
+      post_id: postId,
+      related_id: m.id,
+      score: m.score,
+      reasons: m.reasons,
+      computed_at,
+    }))
+  );
+  if (error) throw error;
+}
+
+/**
+ * Re-scores one post after it was saved: its own list is rebuilt, and in
+ * every other list only its entry moves (added, rescored, trimmed or
+ * dropped). Other pairs keep their old scores until the next full rebuild.
+ */
+export async function indexPostForRelated(post: PostRow) {
+  const target = toInput(post);
+
+  const up = await supabase
+    .from("post_terms")
+    .upsert({ post_id: post.id, terms: target.terms, updated_at: new Date().toISOString() });
+  if (up.error) throw up.error;
+
+  const docs = (await loadAllTerms()).map((d) => (d.id === post.id ? target : d));
+  if (!docs.some((d) => d.id === post.id)) docs.push(target);
+
+  const idf = idfTable(docs.map((d) => d.terms));
+  const others = docs.filter((d) => d.id !== post.id);
+
+  await replaceList(post.id, rankRelated(target, others, idf, RELATED_STORED));
+
+  // Everyone else's list, to see whether this post makes the cut there
+  const rows = await selectAll((from, to) =>
+    supabase
+      .from("post_related")
+      .select("post_id, related_id, score")
+      .neq("post_id", post.id)
+      .order("post_id")
+      .order("related_id")
+      .range(from, to)
+  );
+
+  const lists = new Map<string, Array<{ related_id: string; score: number }>>();
+  for (const r of rows as Array<{ post_id: string; related_id: string; score: number }>) {
+    if (r.related_id === post.id) continue;
+    const list = lists.get(r.post_id) ?? [];
+    list.push(r);
+    lists.set(r.post_id, list);
+  }
+
+  const computed_at = new Date().toISOString();
+  const upserts: Array<Record<string, unknown>> = [];
+  const dropFrom: string[] = [];
+  const trims: Array<{ post_id: string; related_id: string }> = [];
+
+  for (const other of others) {
+    const m = similarity(other, target, idf);
+    const list = (lists.get(other.id) ?? []).sort((a, b) => a.score - b.score);
+    const full = list.length >= RELATED_STORED;
+
+    if (m.score < MIN_SCORE || (full && m.score <= list[0].score)) {
+      dropFrom.push(other.id);
+      continue;
+    }
+
+    upserts.push({ post_id: other.id, related_id: post.id, score: m.score, reasons: m.reasons, computed_at });
+    if (full) trims.push({ post_id: other.id, related_id: list[0].related_id });
+  }
+
+  if (dropFrom.length) {
+    const res = await supabase
+      .from("post_related")
+      .delete()
+      .eq("related_id", post.id)
+      .in("post_id", dropFrom);
+    if (res.error) throw res.error;
+  }
+
+  if (upserts.length) {
+    const res = await supabase.from("post_related").upsert(upserts);
+    if (res.error) throw res.error;
+  }
+
+  for (const t of trims) {
+    const res = await supabase
+      .from("post_related")
+      .delete()
+      .eq("post_id", t.post_id)
+      .eq("related_id", t.related_id);
+    if (res.error) throw res.error;
+  }
+}
+
+/** Re-indexes every post from scratch (Admin). Returns how many were scored. */
+export async function rebuildRelated(onProgress?: (done: number, total: number) => void) {
+  // just what documentTerms/toInput read, not gallery paths etc.
+  const rows = await selectAll((from, to) =>
+    supabase
+      .from("posts")
+      .select("id,title,excerpt,body,body_md,tags,category_id")
+      .order("id")
+      .range(from, to)
+  );
+
+  const posts = rows.map(normalizeRow);
+  const docs = posts.map(toInput);
+
+  const now = new Date().toISOString();
+  if (docs.length) {
+    const up = await supabase
+      .from("post_terms")
+      .upsert(docs.map((d) => ({ post_id: d.id, terms: d.terms, updated_at: now })));
+    if (up.error) throw up.error;
+  }
+
+  const idf = idfTable(docs.map((d) => d.terms));
+  for (let i = 0; i < docs.length; i++) {
+    await replaceList(docs[i].id, rankRelated(docs[i], docs, idf, RELATED_STORED));
+    onProgress?.(i + 1, docs.length);
+  }
+
+  return docs.length;
+}
+
+/* ===========================
+   Last read post, for "Because you read X" on Home
+=========================== */
+const LAST_READ_KEY = "loopblog:last-read";
+
+export type LastRead = Pick<PostRow, "id" | "slug" | "title">;
+
+export function rememberRead(post: LastRead) {
+  try {
+    localStorage.setItem(LAST_READ_KEY, JSON.stringify({ id: post.id, slug: post.slug, title: post.title }));
+  } catch {
+    // storage blocked: no recommendations, nothing else breaks
+  }
+}
+
+export function lastRead(): LastRead | null {
+  try {
+    const raw = localStorage.getItem(LAST_READ_KEY);
+    if (!raw) return null;
+    const v = JSON.parse(raw) as Partial<LastRead>;
+    return typeof v.id === "string" && typeof v.title === "string"
+      ? { id: v.id, slug: v.slug ?? null, title: v.title }
+      : null;
+  } catch {
+    return null;
+  }
+}
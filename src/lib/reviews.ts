@@ -0,0 +1,163 @@
+import { supabase } from "./supabase";
+import { normalizeRow, type PostRow } from "./posts";
+
+/* ===========================
+   Editorial review (post_reviews, post_review_comments, review_post and
+   set_review_comment_resolved RPCs)
+=========================== */
+export type ReviewDecision = "approved" | "changes_requested";
+
+export type PostReview = {
+  id: string;
+  post_id: string;
+  reviewer_id: string | null;
+  decision: ReviewDecision;
+  note: string | null;
+  created_at: string;
+};
+
+// Pinned to a 1-based body line; line_text lets it follow the line around
+export type ReviewComment = {
+  id: string;
+  post_id: string;
+  line: number;
+  line_text: string;
+  body: string;
+  author_id: string | null;
+  resolved: boolean;
+  created_at: string;
+};
+
+export type ReviewQueueItem = {
+  post_id: string;
+  title: string;
+  slug: string | null;
+  status: "draft" | "in_review";
+  author_id: string | null;
+  author_email: string | null;
+  submitted_at: string | null;
+  // newest decision, if any
+  decision: ReviewDecision | null;
+  reviewer_email: string | null;
+  reviewed_at: string | null;
+  open_comments: number;
+};
+
+export const REVIEW_COMMENT_MAX_LENGTH = 2000;
+
+/** Decisions for a post, newest first. */
+export async function loadReviews(postId: string): Promise<PostReview[]> {
+  const { data, error } = await supabase
+    .from("post_reviews")
+    .select("*")
+    .eq("post_id", postId)
+    .order("created_at", { ascending: false });
+
+  if (error) throw error;
+
+  return (data ?? []) as PostReview[];
+}
+
+/**
+ * Approves the post (it goes live, or is scheduled if its publish time is
+ * ahead) or sends it back to its author as a draft. Returns the updated post.
+ */
+export async function decideReview(
+  postId: string,
+  decision: ReviewDecision,
+  note?: string | null
+): Promise<PostRow> {
+  const { data, error } = await supabase.rpc("review_post", {
+    p_post_id: postId,
+    p_decision: decision,
+    p_note: note ?? null,
+  });
+
+  if (error) throw error;
+
+  return normalizeRow(data);
+}
+
+/** Inline comments for a post, top of the body first. */
+export async function loadReviewComments(postId: string): Promise<ReviewComment[]> {
+  const { data, error } = await supabase
+    .from("post_review_comments")
+    .select("*")
+    .eq("post_id", postId)
+    .order("line", { ascending: true })
+    .order("created_at", { ascending: true });
+
+  if (error) throw error;
+
+  return (data ?? []) as ReviewComment[];
+}
+
+export async function addReviewComment(input: {
+  postId: string;
+  line: number;
+  lineText: string;
+  body: string;
+}): Promise<ReviewComment> {
+  const body = input.body.trim();
+  if (!body) throw new Error("Write something first.");
+  if (body.length > REVIEW_COMMENT_MAX_LENGTH) {
+    throw new Error(`Review comments are limited to ${REVIEW_COMMENT_MAX_LENGTH} characters.`);
+  }
+
+  const { data: userData, error: userErr } = await supabase.auth.getUser();
+  if (userErr) throw userErr;
+
+  const { data, error } = await supabase
+    .from("post_review_comments")
+    .insert({
+      post_id: input.postId,
+      line: input.line,
+      line_text: input.lineText,
+      body,
+      author_id: userData.user?.id ?? null,
+    })
+    .select("*")
+    .single();
+
+  if (error) throw error;
+
+  return data as ReviewComment;
+}
+
+// An RPC: the table itself only lets a comment's author edit its text
+export async function setReviewCommentResolved(id: string, resolved: boolean) {
+  const { error } = await supabase.rpc("set_review_comment_resolved", {
+    p_comment_id: id,
+    p_resolved: resolved,
+  });
+  if (error) throw error;
+}
+
+export async function deleteReviewComment(id: string) {
+  const { error } = await supabase.from("post_review_comments").delete().eq("id", id);
+  if (error) throw error;
+}
+
+/**
+ * Where a comment sits in the current body (0-based), or null once its line
+ * is gone. If the text at the original line changed, the closest line with
+ * the original text wins, so comments survive edits above them.
+ */
+export function anchorComment(c: Pick<ReviewComment, "line" | "line_text">, lines: string[]) {
+  const at = c.line - 1;
+  if (lines[at] === c.line_text) return at;
+
+  let best: number | null = null;
+  for (let i = 0; i < lines.length; i++) {
+    if (lines[i] !== c.line_text) continue;
+    if (best === null || Math.abs(i - at) < Math.abs(best - at)) best = i;
+  }
+  return best;
+}
+
+/** Posts waiting on a reviewer or on their author (see review_queue()). */
+export async function loadReviewQueue(): Promise<ReviewQueueItem[]> {
+  const { data, error } = await supabase.rpc("review_queue");
+  if (error) throw error;
+  return (data ?? []) as ReviewQueueItem[];
+}
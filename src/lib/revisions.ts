@@ -0,0 +1,68 @@
+import { supabase } from "./supabase";
+import type { PostRow, PostStatus } from "./posts";
+
+export type PostRevision = {
+  id: string;
+  post_id: string;
+  title: string;
+  excerpt: string | null;
+  body: string | null;
+  cover_path: string | null;
+  image_paths: string[];
+  status: PostStatus;
+  author_id: string | null;
+  restored_from: string | null;
+  created_at: string;
+};
+
+function normalizeRevision(r: Partial<PostRevision>): PostRevision {
+  return {
+    ...r,
+    image_paths: Array.isArray(r?.image_paths) ? r.image_paths : [],
+  } as PostRevision;
+}
+
+/** Newest first. */
+export async function loadRevisions(postId: string): Promise<PostRevision[]> {
+  const { data, error } = await supabase
+    .from("post_revisions")
+    .select("*")
+    .eq("post_id", postId)
+    .order("created_at", { ascending: false });
+
+  if (error) throw error;
+
+  return (data ?? []).map(normalizeRevision);
+}
+
+/**
+ * Snapshot the post as it is now. Revisions are append-only: restoring an old
+ * one records a new revision pointing back at it via restored_from.
+ */
+export async function recordRevision(
+  post: PostRow,
+  opts: { restoredFrom?: string | null } = {}
+): Promise<PostRevision> {
+  const { data: userData, error: userErr } = await supabase.auth.getUser();
+  if (userErr) throw userErr;
+
+  const { data, error } = await supabase
+    .from("post_revisions")
+    .insert({
+      post_id: post.id,
+      title: post.title,
+      excerpt: post.excerpt,
+      body: post.body_md,
+      cover_path: post.cover_path,
+      image_paths: post.image_paths,
+      status: post.status,
+      author_id: userData.user?.id ?? null,
+      restored_from: opts.restoredFrom ?? null,
+    })
+    .select("*")
+    .single();
+
+  if (error) throw error;
+
+  return normalizeRevision(data);
+}
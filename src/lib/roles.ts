@@ -0,0 +1,128 @@
+import { useEffect, useState } from "react";
+import type { User } from "@supabase/supabase-js";
+import { supabase } from "./supabase";
+import type { PostRow } from "./posts";
+
+/* ===========================
+   Roles (backed by user_roles + set_user_role RPC)
+=========================== */
+export type Role = "admin" | "editor" | "author" | "viewer";
+
+export const ROLES: Role[] = ["admin", "editor", "author", "viewer"];
+
+// Roles that get into the back office (Write, EditPost, Admin)
+export const STAFF_ROLES: Role[] = ["admin", "editor", "author"];
+
+export type UserRoleRow = {
+  user_id: string;
+  email: string | null;
+  role: Role;
+  created_at: string;
+  updated_at: string;
+};
+
+// One lookup per user per page load; cleared when a role is changed
+const roleCache = new Map<string, Promise<Role>>();
+
+export function loadRole(userId: string): Promise<Role> {
+  let p = roleCache.get(userId);
+  if (!p) {
+    p = (async () => {
+      const { data, error } = await supabase
+        .from("user_roles")
+        .select("role")
+        .eq("user_id", userId)
+        .maybeSingle();
+      if (error) throw error;
+      return (data?.role as Role | undefined) ?? "viewer";
+    })();
+    p.catch(() => roleCache.delete(userId));
+    roleCache.set(userId, p);
+  }
+  return p;
+}
+
+export type RoleState = {
+  loading: boolean;
+  user: User | null;
+  // null while signed out
+  role: Role | null;
+};
+
+/** The signed-in user and their role, kept in sync with auth changes. */
+export function useRole(): RoleState {
+  const [state, setState] = useState<RoleState>({ loading: true, user: null, role: null });
+
+  useEffect(() => {
+    let alive = true;
+
+    async function resolve(user: User | null) {
+      let role: Role | null = null;
+      if (user) {
+        try {
+          role = await loadRole(user.id);
+        } catch (e) {
+          console.error(e);
+          role = "viewer";
+        }
+      }
+      if (alive) setState({ loading: false, user, role });
+    }
+
+    supabase.auth.getUser().then(({ data }) => resolve(data.user ?? null));
+
+    const { data: sub } = supabase.auth.onAuthStateChange((_event, session) => {
+      // don't query Supabase from inside the auth callback itself
+      window.setTimeout(() => resolve(session?.user ?? null), 0);
+    });
+
+    return () => {
+      alive = false;
+      sub.subscription.unsubscribe();
+    };
+  }, []);
+
+  return state;
+}
+
+export function hasRole(role: Role | null, allowed: Role[]) {
+  return !!role && allowed.includes(role);
+}
+
+/** Editors and admins edit anything; authors only what they wrote. */
+export function canEditPost(
+  role: Role | null,
+  userId: string | null,
+  post: Pick<PostRow, "author_id">
+) {
+  if (hasRole(role, ["admin", "editor"])) return true;
+  return role === "author" && !!userId && post.author_id === userId;
+}
+
+export function canModerate(role: Role | null) {
+  return hasRole(role, ["admin", "editor"]);
+}
+
+/** Editors and admins publish (and review); authors submit for review. */
+export function canPublish(role: Role | null) {
+  return hasRole(role, ["admin", "editor"]);
+}
+
+/** Everyone with a role row, admins first. Admin-only (RLS). */
+export async function loadUserRoles(): Promise<UserRoleRow[]> {
+  const { data, error } = await supabase
+    .from("user_roles")
+    .select("*")
+    .order("created_at", { ascending: true });
+
+  if (error) throw error;
+
+  const rank = (r: Role) => ROLES.indexOf(r);
+  return ((data ?? []) as UserRoleRow[]).sort((a, b) => rank(a.role) - rank(b.role));
+}
+
+export async function setUserRole(userId: string, role: Role) {
+  const { error } = await supabase.rpc("set_user_role", { p_user_id: userId, p_role: role });
+  if (error) throw error;
+  roleCache.delete(userId);
+}
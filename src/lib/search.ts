@@ -0,0 +1,268 @@
+import { stripMarkdown } from "./markdown";
+import type { PostRow } from "./posts";
+
+/* ===========================
+   Client-side full-text search over published posts.
+   Query syntax:
+     loop pedal        -> every word must match (prefix match)
+     "loop station"    -> exact phrase
+     #busking / tag:x  -> only posts with that tag
+=========================== */
+
+export type ParsedQuery = {
+  terms: string[];
+  phrases: string[];
+  tags: string[];
+};
+
+export type Segment = { text: string; hit: boolean };
+
+export type SearchResult = {
+  post: PostRow;
+  score: number;
+  title: Segment[];
+  snippet: Segment[];
+};
+
+type Field = "title" | "excerpt" | "body";
+
+// How much a hit in each field is worth
+const WEIGHTS: Record<Field, number> = { title: 5, excerpt: 2.5, body: 1 };
+
+const SNIPPET_RADIUS = 90;
+
+type IndexedField = {
+  text: string;
+  lower: string;
+  tokens: string[];
+};
+
+type IndexedDoc = {
+  post: PostRow;
+  fields: Record<Field, IndexedField>;
+};
+
+export type SearchIndex = {
+  docs: IndexedDoc[];
+};
+
+function tokenize(lower: string) {
+  return lower.split(/[^\p{L}\p{N}]+/u).filter(Boolean);
+}
+
+function indexField(text: string): IndexedField {
+  const clean = text.replace(/\s+/g, " ").trim();
+  const lower = clean.toLowerCase();
+  return { text: clean, lower, tokens: tokenize(lower) };
+}
+
+export function parseQuery(q: string): ParsedQuery {
+  const phrases: string[] = [];
+  const rest = q.replace(/"([^"]+)"/g, (_m, p: string) => {
+    const phrase = p.replace(/\s+/g, " ").trim().toLowerCase();
+    if (phrase) phrases.push(phrase);
+    return " ";
+  });
+
+  const terms: string[] = [];
+  const tags: string[] = [];
+  for (const word of rest.split(/\s+/).filter(Boolean)) {
+    const tag = /^(?:#|tag:)(.+)$/i.exec(word);
+    if (tag) {
+      tags.push(tag[1].toLowerCase());
+      continue;
+    }
+    terms.push(...tokenize(word.toLowerCase()));
+  }
+
+  return {
+    terms: Array.from(new Set(terms)),
+    phrases: Array.from(new Set(phrases)),
+    tags: Array.from(new Set(tags)),
+  };
+}
+
+export function isEmptyQuery(q: ParsedQuery) {
+  return !q.terms.length && !q.phrases.length && !q.tags.length;
+}
+
+export function buildSearchIndex(posts: PostRow[]): SearchIndex {
+  return {
+    docs: posts.map((post) => ({
+      post,
+      fields: {
+        title: indexField(post.title ?? ""),
+        excerpt: indexField(post.excerpt ?? ""),
+        body: indexField(stripMarkdown(post.body_md ?? "")),
+      },
+    })),
+  };
+}
+
+function termCount(field: IndexedField, term: string) {
+  let n = 0;
+  for (const tok of field.tokens) {
+    if (tok === term) n += 1;
+    else if (tok.startsWith(term)) n += 0.6;
+  }
+  return n;
+}
+
+function phraseCount(field: IndexedField, phrase: string) {
+  let n = 0;
+  let i = field.lower.indexOf(phrase);
+  while (i !== -1) {
+    n++;
+    i = field.lower.indexOf(phrase, i + phrase.length);
+  }
+  return n;
+}
+
+function escapeRegExp(s: string) {
+  return s.replace(/[.*+?^${}()|[\]\\]/g, "\\$&");
+}
+
+/** Character ranges in `lower` that match any term (at a word start) or phrase. */
+function matchRanges(lower: string, q: ParsedQuery): [number, number][] {
+  const ranges: [number, number][] = [];
+
+  for (const phrase of q.phrases) {
+    let i = lower.indexOf(phrase);
+    while (i !== -1) {
+      ranges.push([i, i + phrase.length]);
+      i = lower.indexOf(phrase, i + phrase.length);
+    }
+  }
+
+  for (const term of q.terms) {
+    const re = new RegExp(`(?<![\\p{L}\\p{N}])${escapeRegExp(term)}[\\p{L}\\p{N}]*`, "gu");
+    for (const m of lower.matchAll(re)) {
+      ranges.push([m.index, m.index + m[0].length]);
+    }
+  }
+
+  // merge overlaps
+  ranges.sort((a, b) => a[0] - b[0]);
+  const merged: [number, number][] = [];
+  for (const r of ranges) {
+    const last = merged[merged.length - 1];
+    if (last && r[0] <= last[1]) last[1] = Math.max(last[1], r[1]);
+    else merged.push([r[0], r[1]]);
+  }
+  return merged;
+}
+
+function toSegments(text: string, ranges: [number, number][], from = 0, to = text.length): Segment[] {
+  const out: Segment[] = [];
+  let pos = from;
+  for (const [s, e] of ranges) {
+    if (e <= from || s >= to) continue;
+    const start = Math.max(s, from);
+    const end = Math.min(e, to);
+    if (start > pos) out.push({ text: text.slice(pos, start), hit: false });
+    out.push({ text: text.slice(start, end), hit: true });
+    pos = end;
+  }
+  if (pos < to) out.push({ text: text.slice(pos, to), hit: false });
+  return out;
+}
+
+function makeSnippet(doc: IndexedDoc, q: ParsedQuery): Segment[] {
+  // Prefer a hit in the body; fall back to the excerpt, then the body's opening
+  for (const name of ["body", "excerpt"] as const) {
+    const f = doc.fields[name];
+    const ranges = matchRanges(f.lower, q);
+    if (!ranges.length) continue;
+
+    let start = Math.max(0, ranges[0][0] - SNIPPET_RADIUS);
+    let end = Math.min(f.text.length, ranges[0][1] + SNIPPET_RADIUS);
+    // snap to word boundaries
+    if (start > 0) {
+      const sp = f.text.indexOf(" ", start);
+      if (sp !== -1 && sp < ranges[0][0]) start = sp + 1;
+    }
+    if (end < f.text.length) {
+      const sp = f.text.lastIndexOf(" ", end);
+      if (sp > ranges[0][1]) end = sp;
+    }
+
+    const segs = toSegments(f.text, ranges, start, end);
+    if (start > 0) segs.unshift({ text: "…", hit: false });
+    if (end < f.text.length) segs.push({ text: "…", hit: false });
+    return segs;
+  }
+
+  const f = doc.fields.excerpt.text ? doc.fields.excerpt : doc.fields.body;
+  const text = f.text.length > SNIPPET_RADIUS * 2 ? f.text.slice(0, SNIPPET_RADIUS * 2) + "…" : f.text;
+  return text ? [{ text, hit: false }] : [];
+}
+
+export function searchPosts(index: SearchIndex, query: ParsedQuery, limit = 50): SearchResult[] {
+  if (isEmptyQuery(query)) return [];
+
+  const N = index.docs.length || 1;
+
+  // document frequency per term (prefix match, any field)
+  const idf: Record<string, number> = {};
+  for (const term of query.terms) {
+    let df = 0;
+    for (const doc of index.docs) {
+      if ((["title", "excerpt", "body"] as const).some((f) => termCount(doc.fields[f], term) > 0)) df++;
+    }
+    idf[term] = Math.log(1 + N / (1 + df));
+  }
+
+  const results: SearchResult[] = [];
+
+  for (const doc of index.docs) {
+    const tags = doc.post.tags ?? [];
+    if (!query.tags.every((t) => tags.includes(t))) continue;
+
+    let score = 0;
+    let missing = false;
+
+    for (const term of query.terms) {
+      let termScore = 0;
+      for (const f of ["title", "excerpt", "body"] as const) {
+        const field = doc.fields[f];
+        const tf = termCount(field, term);
+        // dampen long bodies so a term repeated 50x doesn't swamp a title hit
+        if (tf > 0) termScore += WEIGHTS[f] * (1 + Math.log(tf)) * idf[term];
+      }
+      if (termScore === 0) missing = true;
+      score += termScore;
+    }
+
+    for (const phrase of query.phrases) {
+      let phraseScore = 0;
+      for (const f of ["title", "excerpt", "body"] as const) {
+        const n = phraseCount(doc.fields[f], phrase);
+        if (n > 0) phraseScore += WEIGHTS[f] * 2 * (1 + Math.log(n));
+      }
+      if (phraseScore === 0) missing = true;
+      score += phraseScore;
+    }
+
+    if (missing) continue;
+
+    // tag-only queries: newest first
+    if (!query.terms.length && !query.phrases.length) score = 1;
+
+    const title = doc.fields.title;
+    results.push({
+      post: doc.post,
+      score,
+      title: toSegments(title.text, matchRanges(title.lower, query)),
+      snippet: makeSnippet(doc, query),
+    });
+  }
+
+  results.sort((a, b) => {
+    if (b.score !== a.score) return b.score - a.score;
+    const ad = new Date(a.post.published_at ?? a.post.created_at).getTime();
+    const bd = new Date(b.post.published_at ?? b.post.created_at).getTime();
+    return bd - ad;
+  });
+
+  return results.slice(0, limit);
+}
@@ -0,0 +1,152 @@
+import { supabase } from "./supabase";
+import { isLive, slugify, type PostRow } from "./posts";
+
+/* ===========================
+   Series (series, series_posts + set_post_series RPC)
+=========================== */
+export type Series = {
+  id: string;
+  slug: string;
+  title: string;
+  description: string | null;
+  created_by: string | null;
+  created_at: string;
+  updated_at: string;
+};
+
+export type SeriesPart = Pick<
+  PostRow,
+  "id" | "slug" | "title" | "excerpt" | "cover_path" | "status" | "published_at" | "created_at"
+> & { position: number };
+
+export type PostSeries = {
+  series: Series;
+  // every part the current user can see, in series order
+  parts: SeriesPart[];
+};
+
+const PART_COLUMNS = "position, post:posts(id,slug,title,excerpt,cover_path,status,published_at,created_at)";
+
+export function seriesPath(s: Pick<Series, "slug">) {
+  return `/series/${encodeURIComponent(s.slug)}`;
+}
+
+type PartRow = { position: number; post: Omit<SeriesPart, "position"> | null };
+
+function toParts(rows: PartRow[]): SeriesPart[] {
+  // post is null when RLS hides it (e.g. an unpublished part, for readers)
+  return rows
+    .filter((r) => !!r.post)
+    .map((r) => ({ ...r.post!, position: r.position }));
+}
+
+/** Parts readers can see: published, and not scheduled for later. */
+export function liveParts(parts: SeriesPart[]) {
+  return parts.filter((p) => isLive(p));
+}
+
+export async function loadSeriesList(): Promise<Series[]> {
+  const { data, error } = await supabase
+    .from("series")
+    .select("*")
+    .order("title", { ascending: true });
+
+  if (error) throw error;
+
+  return (data ?? []) as Series[];
+}
+
+export async function getSeriesBySlug(slug: string): Promise<Series | null> {
+  const { data, error } = await supabase
+    .from("series")
+    .select("*")
+    .eq("slug", slug.toLowerCase())
+    .maybeSingle();
+
+  if (error) throw error;
+
+  return (data as Series | null) ?? null;
+}
+
+export async function loadSeriesParts(seriesId: string): Promise<SeriesPart[]> {
+  const { data, error } = await supabase
+    .from("series_posts")
+    .select(PART_COLUMNS)
+    .eq("series_id", seriesId)
+    .order("position", { ascending: true });
+
+  if (error) throw error;
+
+  return toParts((data ?? []) as unknown as PartRow[]);
+}
+
+/** The series a post belongs to (with its parts), or null. */
+export async function getPostSeries(postId: string): Promise<PostSeries | null> {
+  const { data, error } = await supabase
+    .from("series_posts")
+    .select("series:series(*)")
+    .eq("post_id", postId)
+    .maybeSingle();
+
+  if (error) throw error;
+
+  const series = (data as { series: Series | null } | null)?.series ?? null;
+  if (!series) return null;
+
+  return { series, parts: await loadSeriesParts(series.id) };
+}
+
+export async function createSeries(input: { title: string; description?: string | null }): Promise<Series> {
+  const title = input.title.trim();
+  if (!title) throw new Error("Series title is required.");
+
+  const slug = slugify(title);
+  if (!slug) throw new Error("Pick a title with some letters or numbers in it.");
+
+  const { data: userData, error: userErr } = await supabase.auth.getUser();
+  if (userErr) throw userErr;
+
+  const { data, error } = await supabase
+    .from("series")
+    .insert({
+      slug,
+      title,
+      description: input.description?.trim() || null,
+      created_by: userData.user?.id ?? null,
+    })
+    .select("*")
+    .single();
+
+  if (error) {
+    if (error.message.includes("series_slug_key")) {
+      throw new Error(`There's already a series called "${title}".`);
+    }
+    throw error;
+  }
+
+  return data as Series;
+}
+
+export async function updateSeries(id: string, patch: { title: string; description: string | null }) {
+  const title = patch.title.trim();
+  if (!title) throw new Error("Series title is required.");
+
+  const { error } = await supabase
+    .from("series")
+    .update({ title, description: patch.description?.trim() || null, updated_at: new Date().toISOString() })
+    .eq("id", id);
+  if (error) throw error;
+}
+
+/**
+ * Puts the post into a series at a 1-based position (null = last), or takes
+ * it out when seriesId is null.
+ */
+export async function setPostSeries(postId: string, seriesId: string | null, position: number | null = null) {
+  const { error } = await supabase.rpc("set_post_series", {
+    p_post_id: postId,
+    p_series_id: seriesId,
+    p_position: position,
+  });
+  if (error) throw error;
+}
@@ -0,0 +1,90 @@
+import { describe, expect, it } from "vitest";
+import {
+  MIN_SCORE,
+  documentTerms,
+  idfTable,
+  rankRelated,
+  similarity,
+  tokenize,
+  type SimilarityInput,
+} from "./similarity";
+
+function post(id: string, text: string, tags: string[] = [], category_id: string | null = null): SimilarityInput {
+  return { id, terms: documentTerms({ title: "", body_md: text }), tags, category_id };
+}
+
+describe("tokenize", () => {
+  it("drops stopwords, short words and numbers, and folds plurals", () => {
+    expect(tokenize("The loops and the pedals, 2024 boxes of batteries!")).toEqual([
+      "loop",
+      "pedal",
+      "box",
+      "battery",
+    ]);
+  });
+
+  it("keeps non-English letters", () => {
+    expect(tokenize("Müller über Gitarre")).toEqual(["müller", "über", "gitarre"]);
+  });
+});
+
+describe("documentTerms", () => {
+  it("weights title words above body words", () => {
+    const terms = documentTerms({ title: "Looper", excerpt: "pedal", body_md: "**pedal** looper" });
+    expect(terms).toEqual({ looper: 4, pedal: 2 });
+  });
+});
+
+describe("idfTable", () => {
+  it("scores rare terms above common ones", () => {
+    const idf = idfTable([{ loop: 1, pedal: 1 }, { loop: 1 }, { loop: 1, reverb: 1 }]);
+    expect(idf.get("reverb")!).toBeGreaterThan(idf.get("loop")!);
+    expect(idf.get("loop")).toBe(1);
+  });
+});
+
+describe("similarity", () => {
+  const a = post("a", "looper pedal overdub layering", ["gear", "live"], "c1");
+  const b = post("b", "looper pedal overdub tricks", ["gear"], "c1");
+  const c = post("c", "sourdough bread baking", [], "c2");
+  const idf = idfTable([a.terms, b.terms, c.terms]);
+
+  it("is 1 for a post against itself with the same tags and category", () => {
+    expect(similarity(a, a, idf).score).toBeCloseTo(1);
+  });
+
+  it("is 0 for posts with nothing in common", () => {
+    expect(similarity(a, c, idf).score).toBe(0);
+  });
+
+  it("explains the match with shared tags, category and the strongest terms", () => {
+    const s = similarity(a, b, idf);
+    expect(s.id).toBe("b");
+    expect(s.reasons.tags).toEqual(["gear"]);
+    expect(s.reasons.category).toBe(true);
+    expect(s.reasons.terms).toHaveLength(3);
+    expect(s.reasons.terms).toEqual(expect.arrayContaining(["looper", "pedal", "overdub"]));
+  });
+
+  it("doesn't count two uncategorized posts as the same category", () => {
+    const x = post("x", "one", [], null);
+    const y = post("y", "two", [], null);
+    expect(similarity(x, y, idfTable([x.terms, y.terms])).reasons.category).toBe(false);
+  });
+});
+
+describe("rankRelated", () => {
+  it("orders by score, skips the post itself and anything below MIN_SCORE", () => {
+    const target = post("t", "looper pedal overdub", ["gear"]);
+    const close = post("close", "looper pedal overdub", ["gear"]);
+    const partial = post("partial", "looper practice routine");
+    const unrelated = post("unrelated", "sourdough bread baking");
+    const all = [target, close, partial, unrelated];
+    const idf = idfTable(all.map((p) => p.terms));
+
+    const ranked = rankRelated(target, all, idf, 10);
+    expect(ranked.map((r) => r.id)).toEqual(["close", "partial"]);
+    expect(ranked.every((r) => r.score >= MIN_SCORE)).toBe(true);
+    expect(rankRelated(target, all, idf, 1)).toHaveLength(1);
+  });
+});
@@ -0,0 +1,154 @@
+import { stripMarkdown } from "./markdown";
+
+/* ===========================
+   Content similarity for related posts:
+   TF-IDF cosine over the text, plus shared tags and category.
+   Pure functions, so the whole thing can be recomputed anywhere.
+=========================== */
+export type TermCounts = Record<string, number>;
+
+export type RelatedReasons = {
+  tags: string[];
+  category: boolean;
+  // strongest shared words, best first
+  terms: string[];
+};
+
+export type SimilarityInput = {
+  id: string;
+  terms: TermCounts;
+  tags: string[];
+  category_id: string | null;
+};
+
+export type Scored = { id: string; score: number; reasons: RelatedReasons };
+
+// Keep stored term lists small; the long tail barely moves the cosine
+const MAX_TERMS = 200;
+const TITLE_WEIGHT = 3;
+
+const WEIGHTS = { text: 0.5, tags: 0.3, category: 0.2 };
+
+// Below this a match is noise, not a recommendation
+export const MIN_SCORE = 0.05;
+
+const STOPWORDS = new Set(
+  (
+    "about above after again against all also and any are because been before being below between both but " +
+    "can could did does doing down during each few for from further had has have having her here hers herself " +
+    "him himself his how into its itself just let more most much must myself nor not now off once only other " +
+    "our ours ourselves out over own same she should some such than that the their theirs them themselves then " +
+    "there these they this those through too under until very was were what when where which while who whom " +
+    "why will with would you your yours yourself yourselves get got like really thing things one two even way " +
+    "make made use used using well back still new see"
+  ).split(" ")
+);
+
+function stem(word: string) {
+  // naive plurals only: "loops" -> "loop", "pedals" -> "pedal", "boxes" -> "box"
+  if (word.length > 4 && word.endsWith("ies")) return word.slice(0, -3) + "y";
+  if (word.length > 4 && /(xes|ches|shes|sses)$/.test(word)) return word.slice(0, -2);
+  if (word.length > 3 && word.endsWith("s") && !word.endsWith("ss")) return word.slice(0, -1);
+  return word;
+}
+
+export function tokenize(text: string): string[] {
+  return text
+    .toLowerCase()
+    .split(/[^\p{L}\p{N}]+/u)
+    .filter((w) => w.length >= 3 && !STOPWORDS.has(w) && !/^\d+$/.test(w))
+    .map(stem);
+}
+
+export function termCounts(words: string[], weight = 1, into: TermCounts = {}): TermCounts {
+  for (const w of words) into[w] = (into[w] ?? 0) + weight;
+  return into;
+}
+
+/** What gets stored in post_terms for a post. */
+export function documentTerms(post: { title: string; excerpt?: string | null; body_md?: string | null }) {
+  const counts = termCounts(tokenize(post.title), TITLE_WEIGHT);
+  termCounts(tokenize(post.excerpt ?? ""), 1, counts);
+  termCounts(tokenize(stripMarkdown(post.body_md ?? "")), 1, counts);
+
+  const top = Object.entries(counts)
+    .sort((a, b) => b[1] - a[1] || a[0].localeCompare(b[0]))
+    .slice(0, MAX_TERMS);
+  return Object.fromEntries(top) as TermCounts;
+}
+
+/** Inverse document frequency for every term across `docs`. */
+export function idfTable(docs: TermCounts[]): Map<string, number> {
+  const df = new Map<string, number>();
+  for (const d of docs) {
+    for (const t of Object.keys(d)) df.set(t, (df.get(t) ?? 0) + 1);
+  }
+
+  const n = docs.length;
+  const idf = new Map<string, number>();
+  df.forEach((count, t) => idf.set(t, Math.log((n + 1) / (count + 1)) + 1));
+  return idf;
+}
+
+function weighted(terms: TermCounts, idf: Map<string, number>) {
+  const v = new Map<string, number>();
+  let norm = 0;
+  for (const [t, count] of Object.entries(terms)) {
+    const w = (1 + Math.log(count)) * (idf.get(t) ?? 1);
+    v.set(t, w);
+    norm += w * w;
+  }
+  return { v, norm: Math.sqrt(norm) };
+}
+
+export function similarity(a: SimilarityInput, b: SimilarityInput, idf: Map<string, number>): Scored {
+  const wa = weighted(a.terms, idf);
+  const wb = weighted(b.terms, idf);
+
+  let dot = 0;
+  const shared: Array<[string, number]> = [];
+  wa.v.forEach((x, t) => {
+    const y = wb.v.get(t);
+    if (y === undefined) return;
+    dot += x * y;
+    shared.push([t, x * y]);
+  });
+  const cosine = wa.norm && wb.norm ? dot / (wa.norm * wb.norm) : 0;
+
+  const tagsA = new Set(a.tags);
+  const sharedTags = b.tags.filter((t) => tagsA.has(t));
+  const union = new Set([...a.tags, ...b.tags]).size;
+  const jaccard = union ? sharedTags.length / union : 0;
+
+  const sameCategory = !!a.category_id && a.category_id === b.category_id;
+
+  const score = WEIGHTS.text * cosine + WEIGHTS.tags * jaccard + (sameCategory ? WEIGHTS.category : 0);
+
+  return {
+    id: b.id,
+    score,
+    reasons: {
+      tags: sharedTags,
+      category: sameCategory,
+      terms: shared
+        .sort((x, y) => y[1] - x[1])
+        .slice(0, 3)
+        .map(([t]) => t),
+    },
+  };
+}
+
+/** Best `limit` matches for `target` among `others`, best first. */
+export function rankRelated(
+  target: SimilarityInput,
+  others: SimilarityInput[],
+  idf: Map<string, number>,
+  limit: number
+): Scored[] {
+  return others
+    .filter((o) => o.id !== target.id)
+    .map((o) => similarity(target, o, idf))
+    .filter((s) => s.score >= MIN_SCORE)
+    .sort((a, b) => b.score - a.score)
+    .slice(0, limit);
+}
@@ -0,0 +1,17 @@
+/* ===========================
+   Site identity, shared by the app and the build plugins
+=========================== */
+export const SITE = {
+  title: "Loopblog",
+  description: "Latest posts from Loopblog.",
+  language: "en",
+  // Public address of the deployed app (GitHub Pages), with trailing slash
+  url: "https://davstar1.github.io/loopblog/",
+  // How many related posts to show under a post (and on Home)
+  relatedCount: 4,
+};
+
+/** Absolute URL for an in-app route such as postPath(p). */
+export function absoluteUrl(path: string) {
+  return SITE.url + path.replace(/^\/+/, "");
+}
@@ -0,0 +1,81 @@
+import { listBucketObjects, loadMediaUses, groupMedia, type MediaItem, type MediaUse, type StoredObject } from "./media";
+import { removeBlogImages } from "./uploadImage";
+
+/* ===========================
+   Storage reconciliation: bucket contents vs. what posts and their
+   revisions (cover_path, image_paths, images embedded in the body) and
+   author profiles (avatar_path) point at. A file only an old revision
+   uses is kept, so restoring that revision still works.
+=========================== */
+
+// Write.tsx uploads before the post row exists; leave fresh files alone
+export const ORPHAN_MIN_AGE_HOURS = 24;
+
+export type DanglingRef = MediaUse & { path: string };
+
+export type StorageReport = {
+  scannedAt: string;
+  // stored objects, variants included
+  objects: number;
+  // unreferenced and old enough to delete
+  orphans: MediaItem[];
+  // unreferenced but uploaded less than ORPHAN_MIN_AGE_HOURS ago
+  recent: MediaItem[];
+  // referenced, but not in the bucket
+  dangling: DanglingRef[];
+  orphanBytes: number;
+};
+
+export function reconcile(
+  objects: StoredObject[],
+  uses: Map<string, MediaUse[]>,
+  now = Date.now()
+): StorageReport {
+  const stored = new Set(objects.map((o) => o.path));
+  const cutoff = now - ORPHAN_MIN_AGE_HOURS * 3600_000;
+
+  const orphans: MediaItem[] = [];
+  const recent: MediaItem[] = [];
+  for (const item of groupMedia(objects, uses)) {
+    if (item.usedBy.length) continue;
+    // variants whose main file is gone have no date: treat as old
+    const at = item.created_at ? new Date(item.created_at).getTime() : 0;
+    (at > cutoff ? recent : orphans).push(item);
+  }
+
+  const dangling: DanglingRef[] = [];
+  uses.forEach((list, path) => {
+    // full URLs (pasted by hand) live somewhere else
+    if (/^https?:\/\//i.test(path) || stored.has(path)) return;
+    for (const u of list) dangling.push({ ...u, path });
+  });
+
+  return {
+    scannedAt: new Date(now).toISOString(),
+    objects: objects.length,
+    orphans,
+    recent,
+    dangling,
+    orphanBytes: orphans.reduce((n, m) => n + m.bytes, 0),
+  };
+}
+
+/** Dry run: nothing is deleted. */
+export async function scanStorage(): Promise<StorageReport> {
+  const [objects, uses] = await Promise.all([listBucketObjects(), loadMediaUses()]);
+  return reconcile(objects, uses);
+}
+
+/**
+ * Deletes the orphans from a dry run, after scanning again: anything that
+ * got referenced in the meantime is kept.
+ */
+export async function deleteOrphans(report: StorageReport) {
+  const fresh = await scanStorage();
+  const stillOrphaned = new Set(fresh.orphans.map((m) => m.path));
+
+  const paths = report.orphans.map((m) => m.path).filter((p) => stillOrphaned.has(p));
+  await removeBlogImages(paths);
+
+  return { deleted: paths.length, kept: report.orphans.length - paths.length };
+}
@@ -1,24 +1,162 @@
-import { supabase } from "./supabase";
+import { supabase, supabaseAnonKey, supabaseUrl } from "./supabase";
+import { BUCKET, allVariantPaths, pipelinePath, variantPath } from "./images";
+import { canProcess, processImage } from "./imagePipeline";
 
-const BUCKET = "loopblogimages";
+export type UploadedImage = {
+  path: string;
+  publicUrl: string;
+  width: number | null;
+  height: number | null;
+  // main file + variants
+  bytes: number;
+};
 
-export async function uploadBlogImage(file: File, folder = "covers") {
-  const ext = file.name.split(".").pop()?.toLowerCase() || "jpg";
-  const safeExt = ext.replace(/[^a-z0-9]/g, "") || "jpg";
+// One image, processed and named, ready to go up (main file last)
+export type PreparedImage = Omit<UploadedImage, "publicUrl"> & {
+  parts: Array<{ path: string; blob: Blob; type: string }>;
+};
 
-  const fileName = `${crypto.randomUUID()}.${safeExt}`;
-  const path = `${folder}/${fileName}`;
+const MAX_ATTEMPTS = 3;
 
-  const { error: uploadError } = await supabase.storage
-    .from(BUCKET)
-    .upload(path, file, {
-      cacheControl: "3600",
-      upsert: false,
-      contentType: file.type || "image/jpeg",
-    });
+type UploadError = Error & { status?: number };
 
-  if (uploadError) throw uploadError;
+function uploadError(message: string, status: number): UploadError {
+  return Object.assign(new Error(message), { status });
+}
+
+// Network hiccups, timeouts and rate limits are worth another try
+function isRetryable(e: UploadError) {
+  return !e.status || e.status === 408 || e.status === 429 || e.status >= 500;
+}
+
+/**
+ * Storage upload over XHR (supabase-js has no progress events).
+ * Same endpoint and headers the client library uses.
+ */
+async function put(path: string, body: Blob, contentType: string, onProgress?: (loaded: number) => void) {
+  const { data } = await supabase.auth.getSession();
+  const token = data.session?.access_token ?? supabaseAnonKey;
+  const url = `${supabaseUrl}/storage/v1/object/${BUCKET}/${path.split("/").map(encodeURIComponent).join("/")}`;
+
+  await new Promise<void>((resolve, reject) => {
+    const xhr = new XMLHttpRequest();
+    xhr.open("POST", url);
+    xhr.setRequestHeader("authorization", `Bearer ${token}`);
+    xhr.setRequestHeader("apikey", supabaseAnonKey);
+    xhr.setRequestHeader("content-type", contentType);
+    // names are unique per upload, so the files never change
+    xhr.setRequestHeader("cache-control", "max-age=31536000");
+    xhr.setRequestHeader("x-upsert", "false");
+
+    xhr.upload.onprogress = (e) => onProgress?.(e.loaded);
+    xhr.onerror = () => reject(uploadError("Network error while uploading.", 0));
+    xhr.onload = () => {
+      // 409: an earlier attempt got through but its response didn't
+      if (xhr.status < 300 || xhr.status === 409) {
+        onProgress?.(body.size);
+        return resolve();
+      }
+      let message = xhr.statusText || `Upload failed (${xhr.status}).`;
+      try {
+        message = (JSON.parse(xhr.responseText) as { message?: string }).message ?? message;
+      } catch {
+        // not JSON
+      }
+      reject(uploadError(message, xhr.status));
+    };
+
+    xhr.send(body);
+  });
+}
+
+async function putWithRetry(path: string, body: Blob, contentType: string, onProgress?: (loaded: number) => void) {
+  for (let attempt = 1; ; attempt++) {
+    try {
+      return await put(path, body, contentType, onProgress);
+    } catch (e) {
+      const err = e as UploadError;
+      if (attempt >= MAX_ATTEMPTS || !isRetryable(err)) throw err;
+      onProgress?.(0);
+      await new Promise((r) => setTimeout(r, 500 * 2 ** (attempt - 1)));
+    }
+  }
+}
+
+/**
+ * Resizes/re-encodes `file` (see ./imagePipeline) and names it and its
+ * srcset variants. GIFs and SVGs go up untouched.
+ */
+export async function prepareBlogImage(file: File, folder = "covers"): Promise<PreparedImage> {
+  const base = `${folder}/${crypto.randomUUID()}`;
+
+  if (!canProcess(file)) {
+    const ext = file.name.split(".").pop()?.toLowerCase() || "jpg";
+    const safeExt = ext.replace(/[^a-z0-9]/g, "") || "jpg";
+    const path = `${base}.${safeExt}`;
+    const type = file.type || "image/jpeg";
+    return { path, width: null, height: null, bytes: file.size, parts: [{ path, blob: file, type }] };
+  }
+
+  const img = await processImage(file);
+  const path = pipelinePath(base, [...img.variants.map((v) => v.width), img.width], img.ext);
+
+  // Variants first: once the main file exists, its srcset must resolve
+  const parts = [
+    ...img.variants.map((v) => ({ path: variantPath(path, v.width), blob: v.blob, type: img.type })),
+    { path, blob: img.blob, type: img.type },
+  ];
+
+  return {
+    path,
+    width: img.width,
+    height: img.height,
+    bytes: parts.reduce((n, p) => n + p.blob.size, 0),
+    parts,
+  };
+}
+
+/**
+ * Uploads a prepared image. Each file is retried on transient errors;
+ * parts in `done` are skipped (and added to it as they finish), so a
+ * failed upload can be resumed by calling this again with the same set.
+ * `onProgress` gets the bytes sent so far for this image.
+ */
+export async function uploadPrepared(
+  img: PreparedImage,
+  opts: { done?: Set<string>; onProgress?: (sent: number) => void } = {}
+): Promise<UploadedImage> {
+  const done = opts.done ?? new Set<string>();
+
+  let finished = img.parts.filter((p) => done.has(p.path)).reduce((n, p) => n + p.blob.size, 0);
+  opts.onProgress?.(finished);
+
+  for (const part of img.parts) {
+    if (done.has(part.path)) continue;
+    await putWithRetry(part.path, part.blob, part.type, (loaded) => opts.onProgress?.(finished + loaded));
+    done.add(part.path);
+    finished += part.blob.size;
+  }
+
+  const { data } = supabase.storage.from(BUCKET).getPublicUrl(img.path);
+  return { path: img.path, publicUrl: data.publicUrl, width: img.width, height: img.height, bytes: img.bytes };
+}
+
+export async function uploadBlogImage(file: File, folder = "covers"): Promise<UploadedImage> {
+  const img = await prepareBlogImage(file, folder);
+  const done = new Set<string>();
+  try {
+    return await uploadPrepared(img, { done });
+  } catch (e) {
+    // don't leave half an image (some variants) behind
+    if (done.size) await supabase.storage.from(BUCKET).remove(Array.from(done));
+    throw e;
+  }
+}
 
-  const { data } = supabase.storage.from(BUCKET).getPublicUrl(path);
-  return { path, publicUrl: data.publicUrl };
+/** Deletes images (and their variants) from the bucket. */
+export async function removeBlogImages(paths: string[]) {
+  const all = paths.flatMap(allVariantPaths);
+  if (!all.length) return;
+  const { error } = await supabase.storage.from(BUCKET).remove(all);
+  if (error) throw error;
 }
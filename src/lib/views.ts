@@ -0,0 +1,59 @@
+import { supabase } from "./supabase";
+import { visitorId } from "./visitor";
+
+/* ===========================
+   View counts (backed by post_views + RPCs)
+=========================== */
+export type MostReadRange = "7d" | "30d" | "all";
+
+export type MostReadRow = {
+  id: string;
+  slug: string | null;
+  title: string;
+  views: number;
+};
+
+export type DailyViews = {
+  day: string; // YYYY-MM-DD
+  views: number;
+};
+
+/**
+ * Records a view. Repeat visits from the same browser within the server's
+ * window don't count. Best-effort: failures are logged, never thrown.
+ */
+export async function recordView(postId: string) {
+  const { error } = await supabase.rpc("record_post_view", {
+    p_post_id: postId,
+    p_visitor_id: visitorId(),
+  });
+  if (error) console.error(error);
+}
+
+function sinceFor(range: MostReadRange) {
+  if (range === "all") return null;
+  const days = range === "7d" ? 7 : 30;
+  return new Date(Date.now() - days * 24 * 60 * 60 * 1000).toISOString();
+}
+
+export async function loadMostRead(range: MostReadRange, limit = 8): Promise<MostReadRow[]> {
+  const { data, error } = await supabase.rpc("most_read_posts", {
+    p_since: sinceFor(range),
+    p_limit: limit,
+  });
+
+  if (error) throw error;
+
+  return ((data ?? []) as MostReadRow[]).map((r) => ({ ...r, views: Number(r.views) }));
+}
+
+export async function loadDailyViews(postId: string, days = 30): Promise<DailyViews[]> {
+  const { data, error } = await supabase.rpc("post_views_daily", {
+    p_post_id: postId,
+    p_days: days,
+  });
+
+  if (error) throw error;
+
+  return ((data ?? []) as DailyViews[]).map((r) => ({ ...r, views: Number(r.views) }));
+}
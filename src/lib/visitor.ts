@@ -0,0 +1,19 @@
+const VISITOR_KEY = "loopblog:visitor";
+
+/**
+ * Anonymous, per-browser id. Used to de-duplicate views and to tie
+ * anonymous comments to a browser for moderation (bans).
+ */
+export function visitorId() {
+  try {
+    let id = localStorage.getItem(VISITOR_KEY);
+    if (!id) {
+      id = crypto.randomUUID();
+      localStorage.setItem(VISITOR_KEY, id);
+    }
+    return id;
+  } catch {
+    // storage blocked: every page load is a new visitor
+    return crypto.randomUUID();
+  }
+}
@@ -1,13 +1,20 @@
 import React from "react";
 import ReactDOM from "react-dom/client";
-import { HashRouter } from "react-router-dom";
+import { BrowserRouter } from "react-router-dom";
 import App from "./App";
 import "./styles.css";
 
+const BASE = import.meta.env.BASE_URL;
+
+// Links from the HashRouter days (/loopblog/#/post/x) -> /loopblog/post/x
+if (window.location.hash.startsWith("#/")) {
+  window.history.replaceState(null, "", BASE + window.location.hash.slice(2));
+}
+
 ReactDOM.createRoot(document.getElementById("root")!).render(
   <React.StrictMode>
-    <HashRouter>
+    <BrowserRouter basename={BASE.replace(/\/$/, "")}>
       <App />
-    </HashRouter>
+    </BrowserRouter>
   </React.StrictMode>
 );
@@ -1,8 +1,18 @@
 import { useEffect, useMemo, useState, type FormEvent } from "react";
 import { Link, useLocation, useNavigate } from "react-router-dom";
 import { supabase } from "../lib/supabase";
-import { loadPosts, type PostRow } from "../lib/posts";
+import { loadPostPage, loadScheduledPosts, postPath, type PostRow } from "../lib/posts";
 import type { User } from "@supabase/supabase-js";
+import ViewsChart from "../components/admin/ViewsChart";
+import CommentQueue from "../components/admin/CommentQueue";
+import ReviewQueue from "../components/admin/ReviewQueue";
+import ProfileEditor from "../components/admin/ProfileEditor";
+import CategoryManager from "../components/admin/CategoryManager";
+import RelatedIndex from "../components/admin/RelatedIndex";
+import StorageCleanup from "../components/admin/StorageCleanup";
+import UserManager from "../components/admin/UserManager";
+import RequireRole from "../components/RequireRole";
+import { canEditPost, canModerate, hasRole, STAFF_ROLES, useRole } from "../lib/roles";
 
 type YoutubeRow = {
   id: string;
@@ -48,10 +58,26 @@ function extractYouTubeId(input: string): string | null {
   return null;
 }
 
+const POSTS_PAGE_SIZE = 20;
+
 function ytThumb(id: string) {
   return `https://i.ytimg.com/vi/${id}/hqdefault.jpg`;
 }
 
+// "2d 3h 04m" / "12m 09s" until a scheduled post goes live
+function formatCountdown(ms: number) {
+  if (ms <= 0) return "going live…";
+  const total = Math.floor(ms / 1000);
+  const d = Math.floor(total / 86400);
+  const h = Math.floor((total % 86400) / 3600);
+  const m = Math.floor((total % 3600) / 60);
+  const sec = total % 60;
+  const pad = (n: number) => String(n).padStart(2, "0");
+  if (d > 0) return `${d}d ${h}h ${pad(m)}m`;
+  if (h > 0) return `${h}h ${pad(m)}m`;
+  return `${m}m ${pad(sec)}s`;
+}
+
 export default function Admin() {
   const nav = useNavigate();
   const location = useLocation();
@@ -62,6 +88,8 @@ export default function Admin() {
       ? (location.state as any).from
       : "/";
 
+  const { role } = useRole();
+
   const [email, setEmail] = useState("");
   const [password, setPassword] = useState("");
 
@@ -80,6 +108,13 @@ export default function Admin() {
   const [posts, setPosts] = useState<PostRow[]>([]);
   const [postsLoading, setPostsLoading] = useState(false);
   const [postQuery, setPostQuery] = useState("");
+  const [postsCursor, setPostsCursor] = useState<string | null>(null);
+  const [postsLoadingMore, setPostsLoadingMore] = useState(false);
+  const [chartPostId, setChartPostId] = useState<string | null>(null);
+
+  // --- Upcoming (scheduled) posts ---
+  const [scheduled, setScheduled] = useState<PostRow[]>([]);
+  const [now, setNow] = useState(() => Date.now());
 
   useEffect(() => {
     let alive = true;
@@ -152,16 +187,40 @@ export default function Admin() {
   async function refreshPosts() {
     setPostsLoading(true);
     try {
-      const rows = await loadPosts();
-      setPosts(Array.isArray(rows) ? rows : []);
+      const [page, upcoming] = await Promise.all([
+        loadPostPage({ limit: POSTS_PAGE_SIZE }),
+        loadScheduledPosts(),
+      ]);
+      setPosts(page.rows);
+      setPostsCursor(page.nextCursor);
+      setScheduled(Array.isArray(upcoming) ? upcoming : []);
     } catch (e: any) {
       setMsg(e?.message ?? "Failed to load posts.");
       setPosts([]);
+      setPostsCursor(null);
+      setScheduled([]);
     } finally {
       setPostsLoading(false);
     }
   }
 
+  async function loadMorePosts() {
+    if (!postsCursor) return;
+    setPostsLoadingMore(true);
+    try {
+      const page = await loadPostPage({ cursor: postsCursor, limit: POSTS_PAGE_SIZE });
+      setPosts((prev) => {
+        const seen = new Set(prev.map((p) => p.id));
+        return [...prev, ...page.rows.filter((p) => !seen.has(p.id))];
+      });
+      setPostsCursor(page.nextCursor);
+    } catch (e: any) {
+      setMsg(e?.message ?? "Failed to load more posts.");
+    } finally {
+      setPostsLoadingMore(false);
+    }
+  }
+
   useEffect(() => {
     if (user) {
       refreshVideos();
@@ -169,10 +228,25 @@ export default function Admin() {
     } else {
       setVideos([]);
       setPosts([]);
+      setScheduled([]);
     }
     // eslint-disable-next-line react-hooks/exhaustive-deps
   }, [user]);
 
+  // Tick the countdowns while anything is queued
+  useEffect(() => {
+    if (!scheduled.length) return;
+    const t = window.setInterval(() => setNow(Date.now()), 1000);
+    return () => window.clearInterval(t);
+  }, [scheduled.length]);
+
+  // Once a scheduled post goes live, move it over to the posts list
+  const nextLiveAt = scheduled.length ? new Date(scheduled[0].published_at ?? 0).getTime() : null;
+  useEffect(() => {
+    if (nextLiveAt === null || now < nextLiveAt) return;
+    refreshPosts();
+  }, [now, nextLiveAt]);
+
   const videoCount = useMemo(() => videos.length, [videos]);
   const postCount = useMemo(() => posts.length, [posts]);
 
@@ -259,12 +333,22 @@ export default function Admin() {
         <>
           <div className="card stack" style={{ maxWidth: 900, margin: "0 auto", width: "100%" }}>
             <div style={{ textAlign: "center", opacity: 0.9 }}>You’re logged in as:</div>
-            <div style={{ fontWeight: 800, textAlign: "center" }}>{user.email}</div>
+            <div style={{ fontWeight: 800, textAlign: "center" }}>
+              {user.email}
+              {role && <span className="chip" style={{ marginLeft: 8 }}>{role}</span>}
+            </div>
 
             <div className="row" style={{ justifyContent: "center" }}>
-              <button className="btn" type="button" onClick={() => nav("/write")}>
-                New Post
-              </button>
+              {hasRole(role, STAFF_ROLES) && (
+                <button className="btn" type="button" onClick={() => nav("/write")}>
+                  New Post
+                </button>
+              )}
+              {hasRole(role, STAFF_ROLES) && (
+                <button className="btn ghost" type="button" onClick={() => nav("/admin/media")}>
+                  Media
+                </button>
+              )}
               <button className="btn ghost" type="button" onClick={logout} disabled={busy}>
                 {busy ? "Signing out…" : "Log out"}
               </button>
@@ -277,157 +361,259 @@ export default function Admin() {
             )}
           </div>
 
-          {/* Posts manager */}
-          <div className="card stack" style={{ maxWidth: 900, margin: "0 auto", width: "100%" }}>
-            <div className="sectionTitle">
-              <h3 style={{ margin: 0 }}>Posts</h3>
-              <span style={{ opacity: 0.85 }}>{postCount} total</span>
-            </div>
-
-            <div className="row" style={{ flexWrap: "wrap" }}>
-              <input
-                className="sideInput"
-                placeholder="Search posts…"
-                value={postQuery}
-                onChange={(e) => setPostQuery(e.target.value)}
-                style={{ flex: 1, minWidth: 220 }}
-              />
-              <button className="btn ghost" type="button" onClick={refreshPosts} disabled={postsLoading}>
-                {postsLoading ? "Refreshing…" : "Refresh"}
-              </button>
-            </div>
-
-            {postsLoading ? (
-              <div style={{ opacity: 0.85 }}>Loading posts…</div>
-            ) : filteredPosts.length === 0 ? (
-              <div style={{ opacity: 0.85 }}>No posts match.</div>
-            ) : (
-              <div style={{ display: "grid", gap: 10 }}>
-                {filteredPosts.map((p: any) => {
-                  const when = new Date(p.published_at ?? p.created_at).toLocaleString();
-                  return (
-                    <div
-                      key={p.id}
-                      style={{
-                        display: "grid",
-                        gridTemplateColumns: "minmax(0, 1fr) auto",
-                        gap: 12,
-                        alignItems: "center",
-                        border: "1px solid var(--line)",
-                        borderRadius: 14,
-                        padding: 12,
-                        background: "rgba(255,255,255,.03)",
-                      }}
-                    >
-                      <div style={{ minWidth: 0 }}>
-                        <div style={{ fontWeight: 800, overflow: "hidden", textOverflow: "ellipsis", whiteSpace: "nowrap" }}>
-                          {p.title}
+          <RequireRole roles={STAFF_ROLES}>
+            {/* Upcoming (scheduled) posts */}
+            {scheduled.length > 0 && (
+              <div className="card stack" style={{ maxWidth: 900, margin: "0 auto", width: "100%" }}>
+                <div className="sectionTitle">
+                  <h3 style={{ margin: 0 }}>Upcoming</h3>
+                  <span style={{ opacity: 0.85 }}>{scheduled.length} scheduled</span>
+                </div>
+
+                <div style={{ display: "grid", gap: 10 }}>
+                  {scheduled.map((p) => {
+                    const at = new Date(p.published_at ?? 0).getTime();
+                    return (
+                      <div
+                        key={p.id}
+                        style={{
+                          display: "grid",
+                          gridTemplateColumns: "minmax(0, 1fr) auto",
+                          gap: 12,
+                          alignItems: "center",
+                          border: "1px solid var(--line)",
+                          borderRadius: 14,
+                          padding: 12,
+                          background: "rgba(255,255,255,.03)",
+                        }}
+                      >
+                        <div style={{ minWidth: 0 }}>
+                          <div style={{ fontWeight: 800, overflow: "hidden", textOverflow: "ellipsis", whiteSpace: "nowrap" }}>
+                            {p.title}
+                          </div>
+                          <div style={{ opacity: 0.85, fontSize: 12, marginTop: 4 }}>
+                            {new Date(at).toLocaleString()}
+                          </div>
                         </div>
-                        <div style={{ opacity: 0.85, fontSize: 12, marginTop: 4 }}>{when}</div>
-                        {p.status && (
-                          <div style={{ opacity: 0.85, fontSize: 12, marginTop: 4 }}>status: {p.status}</div>
-                        )}
-                      </div>
 
-                      <div className="row" style={{ justifyContent: "flex-end" }}>
-                        <Link className="btn ghost" to={`/post/${p.id}`}>
-                          View
-                        </Link>
-                        <Link className="btn" to={`/edit/${p.id}`}>
-                          Edit
-                        </Link>
+                        <div className="row" style={{ justifyContent: "flex-end" }}>
+                          <span className="chip" style={{ fontVariantNumeric: "tabular-nums" }}>
+                            {formatCountdown(at - now)}
+                          </span>
+                          {canEditPost(role, user.id, p) && (
+                            <Link className="btn" to={`/edit/${p.id}`}>
+                              Edit
+                            </Link>
+                          )}
+                        </div>
                       </div>
-                    </div>
-                  );
-                })}
+                    );
+                  })}
+                </div>
               </div>
             )}
-          </div>
 
-          {/* YouTube manager */}
-          <div className="card stack" style={{ maxWidth: 900, margin: "0 auto", width: "100%" }}>
-            <div className="sectionTitle">
-              <h3 style={{ margin: 0 }}>YouTube Gallery Manager</h3>
-              <span style={{ opacity: 0.85 }}>{videoCount} videos</span>
-            </div>
+            {/* Posts manager */}
+            <div className="card stack" style={{ maxWidth: 900, margin: "0 auto", width: "100%" }}>
+              <div className="sectionTitle">
+                <h3 style={{ margin: 0 }}>Posts</h3>
+                <span style={{ opacity: 0.85 }}>
+                  {postCount} {postsCursor ? "loaded" : "total"}
+                </span>
+              </div>
 
-            <div className="row" style={{ flexWrap: "wrap" }}>
-              <input
-                className="sideInput"
-                placeholder="Paste YouTube URL or 11-char ID…"
-                value={ytInput}
-                onChange={(e) => setYtInput(e.target.value)}
-                style={{ minWidth: 220, flex: 1 }}
-              />
-              <button className="btn" type="button" onClick={addVideo} disabled={videosLoading}>
-                Add
-              </button>
-              <button className="btn ghost" type="button" onClick={refreshVideos} disabled={videosLoading}>
-                Refresh
-              </button>
-            </div>
+              <div className="row" style={{ flexWrap: "wrap" }}>
+                <input
+                  className="sideInput"
+                  placeholder="Search posts…"
+                  value={postQuery}
+                  onChange={(e) => setPostQuery(e.target.value)}
+                  style={{ flex: 1, minWidth: 220 }}
+                />
+                <button className="btn ghost" type="button" onClick={refreshPosts} disabled={postsLoading}>
+                  {postsLoading ? "Refreshing…" : "Refresh"}
+                </button>
+              </div>
 
-            <div className="row" style={{ flexWrap: "wrap" }}>
-              <input
-                className="sideInput"
-                placeholder="Optional title (shows in list)…"
-                value={ytTitle}
-                onChange={(e) => setYtTitle(e.target.value)}
-                style={{ minWidth: 220, flex: 1 }}
-              />
-            </div>
+              {postsLoading ? (
+                <div style={{ opacity: 0.85 }}>Loading posts…</div>
+              ) : filteredPosts.length === 0 ? (
+                <div style={{ opacity: 0.85 }}>No posts match.</div>
+              ) : (
+                <div style={{ display: "grid", gap: 10 }}>
+                  {filteredPosts.map((p: any) => {
+                    const when = new Date(p.published_at ?? p.created_at).toLocaleString();
+                    return (
+                      <div
+                        key={p.id}
+                        style={{
+                          display: "grid",
+                          gridTemplateColumns: "minmax(0, 1fr) auto",
+                          gap: 12,
+                          alignItems: "center",
+                          border: "1px solid var(--line)",
+                          borderRadius: 14,
+                          padding: 12,
+                          background: "rgba(255,255,255,.03)",
+                        }}
+                      >
+                        <div style={{ minWidth: 0 }}>
+                          <div style={{ fontWeight: 800, overflow: "hidden", textOverflow: "ellipsis", whiteSpace: "nowrap" }}>
+                            {p.title}
+                          </div>
+                          <div style={{ opacity: 0.85, fontSize: 12, marginTop: 4 }}>{when}</div>
+                          {p.status && (
+                            <div style={{ opacity: 0.85, fontSize: 12, marginTop: 4 }}>status: {p.status}</div>
+                          )}
+                        </div>
 
-            {videosLoading ? (
-              <div style={{ opacity: 0.85 }}>Loading videos…</div>
-            ) : videos.length === 0 ? (
-              <div style={{ opacity: 0.85 }}>No videos yet. Add one above.</div>
-            ) : (
-              <div style={{ display: "grid", gap: 10 }}>
-                {videos.map((v) => (
-                  <div
-                    key={v.id}
-                    style={{
-                      display: "grid",
-                      gridTemplateColumns: "140px minmax(0, 1fr) auto",
-                      gap: 12,
-                      alignItems: "center",
-                      border: "1px solid var(--line)",
-                      borderRadius: 14,
-                      overflow: "hidden",
-                      background: "rgba(255,255,255,.03)",
-                    }}
-                  >
-                    <img
-                      src={ytThumb(v.youtube_id)}
-                      alt={v.title ?? v.youtube_id}
-                      style={{
-                        width: "140px",
-                        height: "80px",
-                        objectFit: "cover",
-                        display: "block",
-                      }}
-                      loading="lazy"
-                    />
-
-                    <div style={{ padding: "10px 0", minWidth: 0 }}>
-                      <div style={{ fontWeight: 800, overflow: "hidden", textOverflow: "ellipsis", whiteSpace: "nowrap" }}>
-                        {v.title ? v.title : v.youtube_id}
-                      </div>
-                      <div style={{ opacity: 0.85, fontSize: 12, marginTop: 4 }}>
-                        Added: {new Date(v.created_at).toLocaleString()}
+                        <div className="row" style={{ justifyContent: "flex-end" }}>
+                          <button
+                            className="btn ghost"
+                            type="button"
+                            aria-expanded={chartPostId === p.id}
+                            onClick={() => setChartPostId((cur) => (cur === p.id ? null : p.id))}
+                          >
+                            Stats
+                          </button>
+                          <Link className="btn ghost" to={postPath(p)}>
+                            View
+                          </Link>
+                          {canEditPost(role, user.id, p) && (
+                            <Link className="btn" to={`/edit/${p.id}`}>
+                              Edit
+                            </Link>
+                          )}
+                        </div>
+
+                        {chartPostId === p.id && (
+                          <div style={{ gridColumn: "1 / -1" }}>
+                            <ViewsChart postId={p.id} />
+                          </div>
+                        )}
                       </div>
-                    </div>
+                    );
+                  })}
+                </div>
+              )}
+
+              {!postsLoading && postsCursor && (
+                <div className="row" style={{ justifyContent: "center" }}>
+                  <button className="btn ghost" type="button" onClick={loadMorePosts} disabled={postsLoadingMore}>
+                    {postsLoadingMore ? "Loading…" : "Load more"}
+                  </button>
+                </div>
+              )}
+            </div>
 
-                    <div style={{ padding: "0 12px 0 0" }}>
-                      <button className="btn ghost" type="button" onClick={() => removeVideo(v)}>
-                        Remove
-                      </button>
-                    </div>
+            {/* Byline / author page */}
+            <ProfileEditor userId={user.id} />
+
+            {/* Editorial review */}
+            <ReviewQueue currentUserId={user.id} />
+
+            {/* Categories */}
+            {hasRole(role, ["admin", "editor"]) && <CategoryManager />}
+
+            {/* Related posts index */}
+            {hasRole(role, ["admin", "editor"]) && <RelatedIndex />}
+
+            {/* Comment moderation */}
+            {canModerate(role) && <CommentQueue />}
+
+            {/* User management */}
+            {role === "admin" && <UserManager currentUserId={user.id} />}
+
+            {/* Unused / missing images */}
+            {role === "admin" && <StorageCleanup />}
+
+            {/* YouTube manager */}
+            {hasRole(role, ["admin", "editor"]) && (
+              <div className="card stack" style={{ maxWidth: 900, margin: "0 auto", width: "100%" }}>
+                <div className="sectionTitle">
+                  <h3 style={{ margin: 0 }}>YouTube Gallery Manager</h3>
+                  <span style={{ opacity: 0.85 }}>{videoCount} videos</span>
+                </div>
+
+                <div className="row" style={{ flexWrap: "wrap" }}>
+                  <input
+                    className="sideInput"
+                    placeholder="Paste YouTube URL or 11-char ID…"
+                    value={ytInput}
+                    onChange={(e) => setYtInput(e.target.value)}
+                    style={{ minWidth: 220, flex: 1 }}
+                  />
+                  <button className="btn" type="button" onClick={addVideo} disabled={videosLoading}>
+                    Add
+                  </button>
+                  <button className="btn ghost" type="button" onClick={refreshVideos} disabled={videosLoading}>
+                    Refresh
+                  </button>
+                </div>
+
+                <div className="row" style={{ flexWrap: "wrap" }}>
+                  <input
+                    className="sideInput"
+                    placeholder="Optional title (shows in list)…"
+                    value={ytTitle}
+                    onChange={(e) => setYtTitle(e.target.value)}
+                    style={{ minWidth: 220, flex: 1 }}
+                  />
+                </div>
+
+                {videosLoading ? (
+                  <div style={{ opacity: 0.85 }}>Loading videos…</div>
+                ) : videos.length === 0 ? (
+                  <div style={{ opacity: 0.85 }}>No videos yet. Add one above.</div>
+                ) : (
+                  <div style={{ display: "grid", gap: 10 }}>
+                    {videos.map((v) => (
+                      <div
+                        key={v.id}
+                        style={{
+                          display: "grid",
+                          gridTemplateColumns: "140px minmax(0, 1fr) auto",
+                          gap: 12,
+                          alignItems: "center",
+                          border: "1px solid var(--line)",
+                          borderRadius: 14,
+                          overflow: "hidden",
+                          background: "rgba(255,255,255,.03)",
+                        }}
+                      >
+                        <img
+                          src={ytThumb(v.youtube_id)}
+                          alt={v.title ?? v.youtube_id}
+                          style={{
+                            width: "140px",
+                            height: "80px",
+                            objectFit: "cover",
+                            display: "block",
+                          }}
+                          loading="lazy"
+                        />
+
+                        <div style={{ padding: "10px 0", minWidth: 0 }}>
+                          <div style={{ fontWeight: 800, overflow: "hidden", textOverflow: "ellipsis", whiteSpace: "nowrap" }}>
+                            {v.title ? v.title : v.youtube_id}
+                          </div>
+                          <div style={{ opacity: 0.85, fontSize: 12, marginTop: 4 }}>
+                            Added: {new Date(v.created_at).toLocaleString()}
+                          </div>
+                        </div>
+
+                        <div style={{ padding: "0 12px 0 0" }}>
+                          <button className="btn ghost" type="button" onClick={() => removeVideo(v)}>
+                            Remove
+                          </button>
+                        </div>
+                      </div>
+                    ))}
                   </div>
-                ))}
+                )}
               </div>
             )}
-          </div>
+          </RequireRole>
         </>
       ) : (
         <form className="card stack" style={{ maxWidth: 520, margin: "0 auto", width: "100%" }} onSubmit={login}>
@@ -0,0 +1,165 @@
+import { useEffect, useState } from "react";
+import { Link, useParams } from "react-router-dom";
+import { loadPostsByAuthor, postPath, type PostRow } from "../lib/posts";
+import { avatarUrl, getAuthorByHandle, type AuthorProfile } from "../lib/authors";
+import { SITE } from "../lib/site";
+import { supabase } from "../lib/supabase";
+
+function coverUrlFromPath(path: string | null) {
+  if (!path) return null;
+  return supabase.storage.from("loopblogimages").getPublicUrl(path).data
+    .publicUrl;
+}
+
+function bodyPreview(p: PostRow, n = 160) {
+  const raw = p.excerpt ?? p.body_preview ?? p.body_md ?? "";
+  const clean = raw.replace(/\s+/g, " ").trim();
+  if (!clean) return "";
+  return clean.length > n ? clean.slice(0, n) + "…" : clean;
+}
+
+export default function Author() {
+  const { handle = "" } = useParams<{ handle: string }>();
+
+  const [author, setAuthor] = useState<AuthorProfile | null>(null);
+  const [posts, setPosts] = useState<PostRow[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    let alive = true;
+
+    (async () => {
+      try {
+        setLoading(true);
+        setError(null);
+        const profile = await getAuthorByHandle(handle);
+        const rows = profile ? await loadPostsByAuthor(profile.user_id) : [];
+        if (!alive) return;
+        setAuthor(profile);
+        setPosts(rows);
+      } catch (e) {
+        console.error(e);
+        if (alive) {
+          setError(e instanceof Error ? e.message : "Failed to load author");
+          setAuthor(null);
+          setPosts([]);
+        }
+      } finally {
+        if (alive) setLoading(false);
+      }
+    })();
+
+    return () => {
+      alive = false;
+    };
+  }, [handle]);
+
+  const authorName = author?.display_name;
+  useEffect(() => {
+    if (!authorName) return;
+    document.title = `${authorName} • ${SITE.title}`;
+    return () => {
+      document.title = SITE.title;
+    };
+  }, [authorName]);
+
+  if (loading) return <div className="muted">Loading…</div>;
+
+  if (!author) {
+    return (
+      <section className="stack">
+        {error && <div className="error">Error: {error}</div>}
+        <div className="card stack">
+          <h2>Author not found</h2>
+          <p className="muted">Nobody here goes by @{handle}.</p>
+          <Link className="btn" to="/">
+            Go Home
+          </Link>
+        </div>
+      </section>
+    );
+  }
+
+  const avatar = avatarUrl(author.avatar_path);
+
+  return (
+    <section className="stack">
+      <div className="card stack">
+        <div className="authorHeader">
+          {avatar ? (
+            <img className="avatar" src={avatar} alt={author.display_name} width={88} height={88} />
+          ) : (
+            <span />
+          )}
+          <div className="stack" style={{ gap: 6, minWidth: 0 }}>
+            <h2 style={{ margin: 0 }}>{author.display_name}</h2>
+            <span className="muted">@{author.handle}</span>
+          </div>
+        </div>
+
+        {author.bio && <p className="authorBio">{author.bio}</p>}
+
+        {author.links.length > 0 && (
+          <div className="row" style={{ flexWrap: "wrap" }}>
+            {author.links.map((l) => (
+              <a key={l.url} className="chip" href={l.url} target="_blank" rel="noopener noreferrer nofollow">
+                {l.label}
+              </a>
+            ))}
+          </div>
+        )}
+      </div>
+
+      <div className="sectionTitle">
+        <h2>Posts</h2>
+        <span className="muted">{posts.length} posts</span>
+      </div>
+
+      {error && <div className="error">Error: {error}</div>}
+
+      {posts.length === 0 && (
+        <div className="card">
+          <p className="muted">{author.display_name} hasn’t published anything yet.</p>
+        </div>
+      )}
+
+      <div className="mainList">
+        {posts.map((p) => {
+          const img = coverUrlFromPath(p.cover_path);
+          return (
+            <Link key={p.id} to={postPath(p)} className="mainItem">
+              <div className="mainText">
+                <div className="mainTitle">{p.title}</div>
+                <div className="mainDeck muted">{bodyPreview(p)}</div>
+                <div className="mainMeta muted">
+                  {new Date(p.published_at ?? p.created_at).toLocaleString()}
+                </div>
+              </div>
+
+              {img && (
+                <div className="mainThumb">
+                  <img src={img} alt={p.title} loading="lazy" />
+                </div>
+              )}
+            </Link>
+          );
+        })}
+      </div>
+
+      <div className="row">
+        <Link className="btn ghost" to="/">
+          ← Back
+        </Link>
+        {/* generated at build time by plugins/feeds.ts */}
+        <a
+          className="btn ghost"
+          href={`${import.meta.env.BASE_URL}feeds/authors/${encodeURIComponent(author.handle)}.xml`}
+          type="application/rss+xml"
+        >
+          RSS for {author.display_name}
+        </a>
+      </div>
+    </section>
+  );
+}
@@ -0,0 +1,134 @@
+import { useEffect, useState } from "react";
+import { Link, useParams } from "react-router-dom";
+import { loadPostsByCategory, postPath, type PostRow } from "../lib/posts";
+import { getCategoryBySlug, type Category as CategoryRow } from "../lib/categories";
+import { SITE } from "../lib/site";
+import { supabase } from "../lib/supabase";
+
+function coverUrlFromPath(path: string | null) {
+  if (!path) return null;
+  return supabase.storage.from("loopblogimages").getPublicUrl(path).data
+    .publicUrl;
+}
+
+function bodyPreview(p: PostRow, n = 160) {
+  const raw = p.excerpt ?? p.body_preview ?? p.body_md ?? "";
+  const clean = raw.replace(/\s+/g, " ").trim();
+  if (!clean) return "";
+  return clean.length > n ? clean.slice(0, n) + "…" : clean;
+}
+
+export default function Category() {
+  const { slug = "" } = useParams<{ slug: string }>();
+
+  const [category, setCategory] = useState<CategoryRow | null>(null);
+  const [posts, setPosts] = useState<PostRow[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    let alive = true;
+
+    (async () => {
+      try {
+        setLoading(true);
+        setError(null);
+        const c = await getCategoryBySlug(slug);
+        const rows = c ? await loadPostsByCategory(c.id) : [];
+        if (!alive) return;
+        setCategory(c);
+        setPosts(rows);
+      } catch (e) {
+        console.error(e);
+        if (alive) {
+          setError(e instanceof Error ? e.message : "Failed to load posts");
+          setCategory(null);
+          setPosts([]);
+        }
+      } finally {
+        if (alive) setLoading(false);
+      }
+    })();
+
+    return () => {
+      alive = false;
+    };
+  }, [slug]);
+
+  const categoryName = category?.name;
+  useEffect(() => {
+    if (!categoryName) return;
+    document.title = `${categoryName} • ${SITE.title}`;
+    return () => {
+      document.title = SITE.title;
+    };
+  }, [categoryName]);
+
+  if (!loading && !error && !category) {
+    return (
+      <section className="stack">
+        <div className="card stack">
+          <h2>Category not found</h2>
+          <p className="muted">There’s no category at this address.</p>
+          <Link className="btn" to="/">
+            Go Home
+          </Link>
+        </div>
+      </section>
+    );
+  }
+
+  return (
+    <section className="stack">
+      <div className="sectionTitle">
+        <h2>{category?.name ?? slug}</h2>
+        <span className="muted">
+          {loading ? "Loading…" : `${posts.length} posts`}
+        </span>
+      </div>
+
+      {category?.description && (
+        <p className="muted" style={{ margin: 0 }}>
+          {category.description}
+        </p>
+      )}
+
+      {error && <div className="error">Error: {error}</div>}
+
+      {!loading && !error && posts.length === 0 && (
+        <div className="card">
+          <p className="muted">Nothing has been published in {category?.name ?? "this category"} yet.</p>
+        </div>
+      )}
+
+      <div className="mainList">
+        {posts.map((p) => {
+          const img = coverUrlFromPath(p.cover_path);
+          return (
+            <Link key={p.id} to={postPath(p)} className="mainItem">
+              <div className="mainText">
+                <div className="mainTitle">{p.title}</div>
+                <div className="mainDeck muted">{bodyPreview(p)}</div>
+                <div className="mainMeta muted">
+                  {new Date(p.published_at ?? p.created_at).toLocaleString()}
+                </div>
+              </div>
+
+              {img && (
+                <div className="mainThumb">
+                  <img src={img} alt={p.title} loading="lazy" />
+                </div>
+              )}
+            </Link>
+          );
+        })}
+      </div>
+
+      <div className="row">
+        <Link className="btn ghost" to="/">
+          ← Back
+        </Link>
+      </div>
+    </section>
+  );
+}
@@ -1,26 +1,40 @@
 import { useEffect, useMemo, useState, type ChangeEvent, type FormEvent } from "react";
 import { Link, useNavigate, useParams } from "react-router-dom";
-import ReactMarkdown from "react-markdown";
-import remarkGfm from "remark-gfm";
 import { supabase } from "../lib/supabase";
-import { getPost, type PostRow } from "../lib/posts";
+import {
+  getPost,
+  isLive,
+  isSlugTaken,
+  normalizeRow,
+  parseTags,
+  postPath,
+  slugify,
+  type PostRow,
+} from "../lib/posts";
+import { loadRevisions, recordRevision, type PostRevision } from "../lib/revisions";
+import { closeComments } from "../lib/comments";
+import { indexPostForRelated } from "../lib/related";
+import { canEditPost, canPublish, useRole } from "../lib/roles";
+import PostPreview from "../components/post/PostPreview";
+import RevisionsPanel from "../components/post/RevisionsPanel";
+import ReviewPanel from "../components/post/ReviewPanel";
+import SeriesPanel from "../components/post/SeriesPanel";
+import CategoryPicker from "../components/post/CategoryPicker";
+import MediaPicker from "../components/media/MediaPicker";
+import BodyEditor from "../components/post/BodyEditor";
+import CoverCropper, { type CoverCropResult } from "../components/post/CoverCropper";
+import { coverPosition, publicUrlFromPath, thumbUrlFromPath, type FocalPoint } from "../lib/images";
+import { removeBlogImages, uploadBlogImage } from "../lib/uploadImage";
+import { isUsedElsewhere } from "../lib/media";
 
 /**
  * Dedicated Edit Page for a blog post.
  *
  * IMPORTANT:
  * - If your posts table is NOT named "posts", change POSTS_TABLE below.
- * - Storage bucket name is taken from your existing Post/Home code: "loopblogimages".
+ * - Images go through lib/uploadImage (resized, re-encoded, srcset variants).
  */
 const POSTS_TABLE = "posts";
-const BUCKET = "loopblogimages";
-
-function safeName(name: string) {
-  return name
-    .trim()
-    .replace(/\s+/g, "_")
-    .replace(/[^a-zA-Z0-9._-]/g, "");
-}
 
 function toDatetimeLocal(iso: string | null | undefined) {
   if (!iso) return "";
@@ -36,6 +50,11 @@ function toDatetimeLocal(iso: string | null | undefined) {
   return `${yyyy}-${mm}-${dd}T${hh}:${mi}`;
 }
 
+function focusOf(row: PostRow | null): FocalPoint | null {
+  if (row?.cover_focus_x == null || row.cover_focus_y == null) return null;
+  return { x: row.cover_focus_x, y: row.cover_focus_y };
+}
+
 function fromDatetimeLocal(v: string) {
   // v like "2025-12-26T08:30" (local time)
   if (!v) return null;
@@ -44,32 +63,14 @@ function fromDatetimeLocal(v: string) {
   return d.toISOString();
 }
 
-function publicUrlFromPath(path: string | null): string | null {
-  if (!path) return null;
-  return supabase.storage.from(BUCKET).getPublicUrl(path).data.publicUrl;
-}
-
-async function uploadToBucket(file: File, path: string) {
-  const { error } = await supabase.storage.from(BUCKET).upload(path, file, {
-    upsert: true,
-    cacheControl: "3600",
-  });
-  if (error) throw error;
-  return path;
-}
-
-async function removeFromBucket(path: string) {
-  // Best-effort. If you don't want deletes, you can remove this.
-  const { error } = await supabase.storage.from(BUCKET).remove([path]);
-  if (error) throw error;
-}
-
 export default function EditPost() {
   const { id } = useParams<{ id: string }>();
   const nav = useNavigate();
 
-  const [checking, setChecking] = useState(true);
-  const [authed, setAuthed] = useState(false);
+  const { loading: checking, user, role } = useRole();
+  const authed = !!user;
+  const userId = user?.id ?? null;
+  const reviewer = canPublish(role);
 
   const [loading, setLoading] = useState(true);
   const [saving, setSaving] = useState(false);
@@ -80,41 +81,37 @@ export default function EditPost() {
 
   // Form fields
   const [title, setTitle] = useState("");
+  const [slug, setSlug] = useState("");
+  const [slugState, setSlugState] = useState<"idle" | "checking" | "free" | "taken">("idle");
   const [excerpt, setExcerpt] = useState("");
+  const [tagsRaw, setTagsRaw] = useState("");
+  const [categoryId, setCategoryId] = useState<string | null>(null);
   const [bodyMd, setBodyMd] = useState("");
   const [status, setStatus] = useState<string>("draft");
   const [publishedAtLocal, setPublishedAtLocal] = useState<string>("");
+  const [commentsClosed, setCommentsClosed] = useState(false);
 
   // Media fields
   const [coverPath, setCoverPath] = useState<string | null>(null);
+  const [coverFocus, setCoverFocus] = useState<FocalPoint | null>(null);
+  const [cropping, setCropping] = useState(false);
   const [imagePaths, setImagePaths] = useState<string[]>([]);
+  // which slot the media library picker fills
+  const [picking, setPicking] = useState<"cover" | "image" | null>(null);
 
-  const coverUrl = useMemo(() => publicUrlFromPath(coverPath), [coverPath]);
-
-  // Auth gate
-  useEffect(() => {
-    let alive = true;
-
-    (async () => {
-      try {
-        const { data } = await supabase.auth.getUser();
-        if (!alive) return;
-        setAuthed(!!data.user);
-      } finally {
-        if (!alive) return;
-        setChecking(false);
-      }
-    })();
+  // Revision history (newest first)
+  const [revisions, setRevisions] = useState<PostRevision[]>([]);
 
-    const { data: sub } = supabase.auth.onAuthStateChange((_evt, session) => {
-      setAuthed(!!session?.user);
-    });
+  const coverUrl = useMemo(() => publicUrlFromPath(coverPath), [coverPath]);
 
-    return () => {
-      alive = false;
-      sub.subscription.unsubscribe();
-    };
-  }, []);
+  const previewTags = useMemo(() => parseTags(tagsRaw), [tagsRaw]);
+  const previewImageUrls = useMemo(
+    () =>
+      imagePaths
+        .map((p) => publicUrlFromPath(p))
+        .filter((u): u is string => !!u),
+    [imagePaths]
+  );
 
   // Load post
   useEffect(() => {
@@ -140,12 +137,18 @@ export default function EditPost() {
         // Seed form
         const r: any = row;
         setTitle((r?.title ?? "") as string);
+        setSlug(row?.slug ?? "");
         setExcerpt((r?.excerpt ?? "") as string);
+        setTagsRaw((row?.tags ?? []).join(", "));
+        setCategoryId(row?.category_id ?? null);
         setBodyMd(((r?.body_md ?? r?.body ?? "") as string) ?? "");
-        setStatus(((r?.status ?? "draft") as string) ?? "draft");
+        // a scheduled post whose time has passed is simply published now
+        setStatus(row?.status === "scheduled" && isLive(row) ? "published" : row?.status ?? "draft");
         setPublishedAtLocal(toDatetimeLocal(r?.published_at ?? null));
+        setCommentsClosed(!!row?.comments_closed);
 
         setCoverPath((r?.cover_path ?? null) as string | null);
+        setCoverFocus(focusOf(row));
 
         const rawPaths: unknown = r?.image_paths;
         const paths = Array.isArray(rawPaths)
@@ -167,6 +170,116 @@ export default function EditPost() {
     };
   }, [id]);
 
+  // Live slug collision check (debounced)
+  const currentSlug = post?.slug ?? null;
+  useEffect(() => {
+    const clean = slugify(slug);
+    if (!id || !clean || clean === currentSlug) {
+      setSlugState("idle");
+      return;
+    }
+
+    let alive = true;
+    setSlugState("checking");
+    const t = window.setTimeout(async () => {
+      try {
+        const taken = await isSlugTaken(clean, id);
+        if (alive) setSlugState(taken ? "taken" : "free");
+      } catch {
+        if (alive) setSlugState("idle");
+      }
+    }, 400);
+
+    return () => {
+      alive = false;
+      window.clearTimeout(t);
+    };
+  }, [slug, id, currentSlug]);
+
+  // Load revisions (only readable when logged in)
+  useEffect(() => {
+    let alive = true;
+    if (!id || !authed) return;
+
+    loadRevisions(id)
+      .then((rows) => {
+        if (alive) setRevisions(rows);
+      })
+      .catch((e) => {
+        console.error(e);
+        if (alive) setRevisions([]);
+      });
+
+    return () => {
+      alive = false;
+    };
+  }, [id, authed]);
+
+  // Approve / request changes already saved the post; just sync the form
+  function onReviewDecided(saved: PostRow) {
+    setPost(saved);
+    setStatus(saved.status === "scheduled" && isLive(saved) ? "published" : saved.status);
+    setPublishedAtLocal(toDatetimeLocal(saved.published_at));
+    setOk(
+      saved.status === "draft"
+        ? "Sent back to the author ✅"
+        : saved.status === "scheduled"
+          ? "Approved and scheduled ✅"
+          : "Approved and published ✅"
+    );
+  }
+
+  // Takes effect immediately, independent of the Save button
+  async function onToggleComments(closed: boolean) {
+    if (!id) return;
+
+    setErr(null);
+    setOk(null);
+    setCommentsClosed(closed);
+
+    try {
+      await closeComments(id, closed);
+      setOk(closed ? "Comments closed ✅" : "Comments reopened ✅");
+    } catch (e) {
+      setCommentsClosed(!closed);
+      setErr(e instanceof Error ? e.message : "Failed to update comments.");
+    }
+  }
+
+  // Deletes a replaced/removed file, unless it came from elsewhere or is shared
+  async function cleanupImage(path: string) {
+    if (!id || !path.startsWith(`posts/${id}/`)) return;
+    try {
+      if (await isUsedElsewhere(path, id)) return;
+      await removeBlogImages([path]);
+    } catch {
+      // ignore
+    }
+  }
+
+  // A new cover starts without a focal point (centred) unless one is given
+  async function setCover(newPath: string, focus: FocalPoint | null = null) {
+    if (!id) return;
+    const prev = coverPath;
+    const prevFocus = coverFocus;
+    setCoverPath(newPath);
+    setCoverFocus(focus);
+
+    const { error } = await supabase
+      .from(POSTS_TABLE)
+      .update({ cover_path: newPath, cover_focus_x: focus?.x ?? null, cover_focus_y: focus?.y ?? null })
+      .eq("id", id);
+    if (error) {
+      // The row still points at the old cover, so keep it (and its file)
+      setCoverPath(prev);
+      setCoverFocus(prevFocus);
+      throw error;
+    }
+
+    // Best-effort cleanup (a gallery image used as the cover stays)
+    if (prev && prev !== newPath && !imagePaths.includes(prev)) await cleanupImage(prev);
+  }
+
   async function onReplaceCover(e: ChangeEvent<HTMLInputElement>) {
     const file = e.target.files?.[0];
     e.target.value = "";
@@ -178,25 +291,8 @@ export default function EditPost() {
     try {
       setSaving(true);
 
-      const ext = safeName(file.name).split(".").pop() || "jpg";
-      const path = `posts/${id}/cover_${Date.now()}.${ext}`;
-
-      // Optional: remove old cover file if it lived in the bucket
-      const prev = coverPath;
-
-      const newPath = await uploadToBucket(file, path);
-      setCoverPath(newPath);
-
-      await supabase.from(POSTS_TABLE).update({ cover_path: newPath }).eq("id", id);
-
-      // Best-effort cleanup
-      if (prev && prev.startsWith(`posts/${id}/`)) {
-        try {
-          await removeFromBucket(prev);
-        } catch {
-          // ignore
-        }
-      }
+      const { path } = await uploadBlogImage(file, `posts/${id}`);
+      await setCover(path);
 
       setOk("Cover updated ✅");
     } catch (e: any) {
@@ -206,6 +302,42 @@ export default function EditPost() {
     }
   }
 
+  // From CoverCropper: a cropped copy replaces the cover, otherwise only
+  // the focal point changes
+  async function onCropped({ file, focal }: CoverCropResult) {
+    if (!id) return;
+    setErr(null);
+    setOk(null);
+
+    if (file) {
+      const { path } = await uploadBlogImage(file, `posts/${id}`);
+      await setCover(path, focal);
+    } else {
+      const { error } = await supabase
+        .from(POSTS_TABLE)
+        .update({ cover_focus_x: focal.x, cover_focus_y: focal.y })
+        .eq("id", id);
+      if (error) throw error;
+      setCoverFocus(focal);
+    }
+
+    setCropping(false);
+    setOk(file ? "Cover cropped ✅" : "Focal point saved ✅");
+  }
+
+  async function addImagePaths(paths: string[]) {
+    if (!id) return;
+    const prev = imagePaths;
+    const next = Array.from(new Set([...imagePaths, ...paths]));
+    setImagePaths(next);
+
+    const { error } = await supabase.from(POSTS_TABLE).update({ image_paths: next }).eq("id", id);
+    if (error) {
+      setImagePaths(prev);
+      throw error;
+    }
+  }
+
   async function onAddImages(e: ChangeEvent<HTMLInputElement>) {
     const files = Array.from(e.target.files ?? []);
     e.target.value = "";
@@ -218,18 +350,18 @@ export default function EditPost() {
       setSaving(true);
 
       const uploaded: string[] = [];
-      for (let i = 0; i < files.length; i++) {
-        const f = files[i]!;
-        const ext = safeName(f.name).split(".").pop() || "jpg";
-        const path = `posts/${id}/images/${Date.now()}_${i}.${ext}`;
-        const p = await uploadToBucket(f, path);
-        uploaded.push(p);
+      for (const f of files) {
+        const { path } = await uploadBlogImage(f, `posts/${id}/images`);
+        uploaded.push(path);
       }
 
-      const next = Array.from(new Set([...imagePaths, ...uploaded]));
-      setImagePaths(next);
-
-      await supabase.from(POSTS_TABLE).update({ image_paths: next }).eq("id", id);
+      try {
+        await addImagePaths(uploaded);
+      } catch (e) {
+        // the row doesn't list them, so don't leave them in the bucket
+        await removeBlogImages(uploaded).catch((cleanup) => console.error(cleanup));
+        throw e;
+      }
 
       setOk(`Added ${uploaded.length} image(s) ✅`);
     } catch (e: any) {
@@ -239,6 +371,27 @@ export default function EditPost() {
     }
   }
 
+  // From the media library: nothing to upload, just point at it
+  async function pickFromLibrary(path: string) {
+    setErr(null);
+    setOk(null);
+
+    try {
+      setSaving(true);
+      if (picking === "cover") {
+        await setCover(path);
+        setOk("Cover updated ✅");
+      } else {
+        await addImagePaths([path]);
+        setOk("Image added ✅");
+      }
+    } catch (e) {
+      setErr(e instanceof Error ? e.message : "Failed to use that image.");
+    } finally {
+      setSaving(false);
+    }
+  }
+
   async function removeImage(path: string) {
     if (!id) return;
     setErr(null);
@@ -247,19 +400,19 @@ export default function EditPost() {
     try {
       setSaving(true);
 
+      const prev = imagePaths;
       const next = imagePaths.filter((p) => p !== path);
       setImagePaths(next);
 
-      await supabase.from(POSTS_TABLE).update({ image_paths: next }).eq("id", id);
+      const { error } = await supabase.from(POSTS_TABLE).update({ image_paths: next }).eq("id", id);
+      if (error) {
+        // still listed on the row, so the file has to stay too
+        setImagePaths(prev);
+        throw error;
+      }
 
       // Best-effort bucket cleanup
-      if (path.startsWith(`posts/${id}/`)) {
-        try {
-          await removeFromBucket(path);
-        } catch {
-          // ignore
-        }
-      }
+      if (path !== coverPath) await cleanupImage(path);
 
       setOk("Image removed ✅");
     } catch (e: any) {
@@ -297,11 +450,47 @@ export default function EditPost() {
         }
       }
 
+      const cleanSlug = slugify(slug);
+      if (!cleanSlug) throw new Error("Slug can’t be empty.");
+      if (cleanSlug !== post?.slug && (await isSlugTaken(cleanSlug, id))) {
+        throw new Error(`The slug "${cleanSlug}" is already used by another post.`);
+      }
+
+      // Every save should land in the history; if it doesn't, say so
+      let historyErr: string | null = null;
+      const noteHistoryErr = (e: unknown) => {
+        console.error(e);
+        historyErr = e instanceof Error ? e.message : "unknown error";
+      };
+
+      // First save of a post with no history: keep the pre-edit version too
+      if (post && revisions.length === 0) {
+        try {
+          await recordRevision(post);
+        } catch (e) {
+          noteHistoryErr(e);
+        }
+      }
+
+      // Scheduling: a future publish time means "scheduled", a past one means "published"
+      let nextStatus = status;
+      const effectivePublishedAt = published_at ?? existingPublishedAt;
+      const isFuture =
+        !!effectivePublishedAt && new Date(effectivePublishedAt).getTime() > Date.now();
+
+      if (status === "scheduled" && !isFuture) {
+        throw new Error("Pick a publish time in the future to schedule this post.");
+      }
+      if (status === "published" && isFuture) nextStatus = "scheduled";
+
       const update: any = {
         title: title.trim(),
+        slug: cleanSlug,
         excerpt: excerpt.trim() || null,
+        tags: parseTags(tagsRaw),
+        category_id: categoryId,
         body_md: bodyMd,
-        status: status || null,
+        status: nextStatus || null,
       };
       if (published_at !== undefined) update.published_at = published_at;
       if (coverPath !== undefined) update.cover_path = coverPath;
@@ -316,8 +505,37 @@ export default function EditPost() {
 
       if (error) throw error;
 
-      setPost(data as any);
-      setOk("Saved ✅");
+      const saved = normalizeRow(data);
+      setPost(saved);
+      setSlug(saved.slug ?? cleanSlug);
+      setStatus(nextStatus);
+
+      try {
+        await recordRevision(saved);
+        setRevisions(await loadRevisions(id));
+      } catch (e) {
+        noteHistoryErr(e);
+      }
+
+      // Stale recommendations aren't worth failing the save over
+      try {
+        await indexPostForRelated(saved);
+      } catch (e) {
+        console.error(e);
+      }
+
+      if (historyErr) {
+        setErr(`Saved, but this version couldn't be added to the revision history (${historyErr}).`);
+        return;
+      }
+
+      setOk(
+        nextStatus === "scheduled" && effectivePublishedAt
+          ? `Scheduled for ${new Date(effectivePublishedAt).toLocaleString()} ✅`
+          : nextStatus === "in_review" && post?.status !== "in_review"
+            ? "Submitted for review ✅"
+            : "Saved ✅"
+      );
     } catch (e: any) {
       setErr(
         e?.message ??
@@ -328,6 +546,78 @@ export default function EditPost() {
     }
   }
 
+  async function restoreRevision(rev: PostRevision) {
+    if (!id) return;
+    const yes = window.confirm(
+      `Restore the version from ${new Date(rev.created_at).toLocaleString()}? Your current version stays in the history.`
+    );
+    if (!yes) return;
+
+    setErr(null);
+    setOk(null);
+
+    try {
+      setSaving(true);
+
+      const { data, error } = await supabase
+        .from(POSTS_TABLE)
+        .update({
+          title: rev.title,
+          excerpt: rev.excerpt,
+          body_md: rev.body ?? "",
+          cover_path: rev.cover_path,
+          // the focal point belongs to the current cover
+          ...(rev.cover_path !== coverPath ? { cover_focus_x: null, cover_focus_y: null } : {}),
+          image_paths: rev.image_paths,
+          status: rev.status,
+        })
+        .eq("id", id)
+        .select("*")
+        .single();
+
+      if (error) throw error;
+
+      // The row is restored now: the form has to match it before anything
+      // else can fail, or the next Save writes the old fields back
+      const restored = normalizeRow(data);
+      setPost(restored);
+      setTitle(restored.title ?? "");
+      setExcerpt(restored.excerpt ?? "");
+      setBodyMd(restored.body_md ?? "");
+      setStatus(restored.status === "scheduled" && isLive(restored) ? "published" : restored.status);
+      setCoverPath(restored.cover_path);
+      setCoverFocus(focusOf(restored));
+      setImagePaths(restored.image_paths);
+
+      // Restoring never rewrites history: it adds a new revision
+      let historyErr: string | null = null;
+      try {
+        await recordRevision(restored, { restoredFrom: rev.id });
+        setRevisions(await loadRevisions(id));
+      } catch (e) {
+        console.error(e);
+        historyErr = e instanceof Error ? e.message : "unknown error";
+      }
+
+      try {
+        await indexPostForRelated(restored);
+      } catch (e) {
+        console.error(e);
+      }
+
+      if (historyErr) {
+        setErr(`Revision restored, but the restore couldn't be added to the revision history (${historyErr}).`);
+        return;
+      }
+
+      setOk("Revision restored ✅");
+    } catch (e: any) {
+      setErr(e?.message ?? "Failed to restore revision.");
+    } finally {
+      setSaving(false);
+    }
+  }
+
   async function deletePost() {
     if (!id) return;
     const yes = window.confirm("Delete this post? This cannot be undone.");
@@ -405,236 +695,373 @@ export default function EditPost() {
     );
   }
 
+  if (post && !canEditPost(role, userId, post)) {
+    return (
+      <section className="stack" style={{ maxWidth: 1100, margin: "0 auto", padding: "0 14px" }}>
+        <div className="card stack">
+          <h1>Edit Post</h1>
+          <p>Authors can only edit their own posts.</p>
+          <div className="row">
+            <Link className="btn ghost" to={postPath(post)}>
+              View post
+            </Link>
+            <Link className="btn" to="/admin">
+              Back to Admin
+            </Link>
+          </div>
+        </div>
+      </section>
+    );
+  }
+
   return (
     <section className="stack" style={{ maxWidth: 1100, margin: "0 auto", padding: "0 14px" }}>
-      <div className="card stack">
-        <div className="row" style={{ justifyContent: "space-between" }}>
-          <h1 style={{ margin: 0 }}>Edit Post</h1>
-          {id && (
-            <div className="row">
-              <Link className="btn ghost" to={`/post/${id}`}>
-                View
-              </Link>
-              <Link className="btn ghost" to="/admin">
-                Admin
-              </Link>
+      <div className="editorSplit">
+        <div className="card stack">
+          <div className="row" style={{ justifyContent: "space-between" }}>
+            <h1 style={{ margin: 0 }}>Edit Post</h1>
+            {id && (
+              <div className="row">
+                <Link className="btn ghost" to={post ? postPath(post) : `/post/${id}`}>
+                  View
+                </Link>
+                <Link className="btn ghost" to="/admin">
+                  Admin
+                </Link>
+              </div>
+            )}
+          </div>
+
+          {(err || ok) && (
+            <div
+              style={{
+                padding: "10px 12px",
+                borderRadius: 12,
+                border: "1px solid rgba(255,255,255,.12)",
+                background: "rgba(255,255,255,.03)",
+                color: err ? "tomato" : "inherit",
+              }}
+            >
+              {err ?? ok}
             </div>
           )}
-        </div>
 
-        {(err || ok) && (
-          <div
-            style={{
-              padding: "10px 12px",
-              borderRadius: 12,
-              border: "1px solid rgba(255,255,255,.12)",
-              background: "rgba(255,255,255,.03)",
-              color: err ? "tomato" : "inherit",
-            }}
-          >
-            {err ?? ok}
-          </div>
-        )}
-
-        <form className="stack" onSubmit={save}>
-          <label className="field">
-            <span>Title</span>
-            <input value={title} onChange={(e) => setTitle(e.target.value)} placeholder="Post title" />
-          </label>
-
-          <label className="field">
-            <span>Excerpt</span>
-            <textarea
-              value={excerpt}
-              onChange={(e) => setExcerpt(e.target.value)}
-              placeholder="Short preview text (optional)"
-              rows={3}
-            />
-          </label>
-
-          <div
-            className="row"
-            style={{
-              alignItems: "flex-end",
-              gap: 12,
-              justifyContent: "space-between",
-            }}
-          >
-            <label className="field" style={{ minWidth: 220, flex: 1 }}>
-              <span>Status</span>
-              <select
-                value={status}
-                onChange={(e) => setStatus(e.target.value)}
-                style={{
-                  width: "100%",
-                  borderRadius: 12,
-                  border: "1px solid var(--line)",
-                  background: "rgba(255,255,255,.04)",
-                  color: "var(--text)",
-                  padding: "10px 12px",
-                }}
-              >
-                <option value="draft">draft</option>
-                <option value="published">published</option>
-              </select>
+          <form className="stack" onSubmit={save}>
+            <label className="field">
+              <span>Title</span>
+              <input value={title} onChange={(e) => setTitle(e.target.value)} placeholder="Post title" />
             </label>
 
-            <label className="field" style={{ minWidth: 260, flex: 1 }}>
-              <span>Published at (optional)</span>
+            <label className="field">
+              <span>
+                Slug{" "}
+                <span className="muted" style={{ fontSize: 12 }}>
+                  {slugState === "checking"
+                    ? "checking…"
+                    : slugState === "taken"
+                      ? "— already used by another post"
+                      : slugState === "free"
+                        ? "— available (the old URL will redirect here)"
+                        : ""}
+                </span>
+              </span>
+              <div className="row" style={{ flexWrap: "nowrap" }}>
+                <input
+                  value={slug}
+                  onChange={(e) => setSlug(e.target.value)}
+                  onBlur={() => setSlug((v) => slugify(v))}
+                  placeholder="my-post-title"
+                  style={{ flex: 1, minWidth: 0, borderColor: slugState === "taken" ? "tomato" : undefined }}
+                />
+                <button
+                  type="button"
+                  className="btn ghost"
+                  onClick={() => setSlug(slugify(title))}
+                  disabled={!title.trim()}
+                >
+                  From title
+                </button>
+              </div>
+            </label>
+
+            <label className="field">
+              <span>Excerpt</span>
+              <textarea
+                value={excerpt}
+                onChange={(e) => setExcerpt(e.target.value)}
+                placeholder="Short preview text (optional)"
+                rows={3}
+              />
+            </label>
+
+            <label className="field">
+              <span>Tags (comma-separated)</span>
               <input
-                type="datetime-local"
-                value={publishedAtLocal}
-                onChange={(e) => setPublishedAtLocal(e.target.value)}
+                value={tagsRaw}
+                onChange={(e) => setTagsRaw(e.target.value)}
+                placeholder="looping, busking, pedals"
               />
             </label>
-          </div>
 
-          <label className="field">
-            <span>Body (Markdown)</span>
-            <textarea
-              value={bodyMd}
-              onChange={(e) => setBodyMd(e.target.value)}
-              rows={16}
-              placeholder="Write your post in Markdown…"
-              style={{ fontFamily: "ui-monospace, SFMono-Regular, Menlo, monospace" }}
-            />
-          </label>
-
-          <div className="grid" style={{ gridTemplateColumns: "repeat(auto-fit, minmax(260px, 1fr))" }}>
-            <div className="card stack" style={{ border: "1px solid var(--line)" }}>
-              <div className="row" style={{ justifyContent: "space-between" }}>
-                <strong>Cover</strong>
-                <label className="btn ghost" style={{ cursor: saving ? "not-allowed" : "pointer" }}>
-                  Replace
-                  <input
-                    type="file"
-                    accept="image/*"
-                    onChange={onReplaceCover}
-                    disabled={saving}
-                    style={{ display: "none" }}
-                  />
-                </label>
-              </div>
+            <CategoryPicker value={categoryId} onChange={setCategoryId} disabled={saving} />
 
-              {coverUrl ? (
-                <img
-                  src={coverUrl}
-                  alt="cover"
+            <div
+              className="row"
+              style={{
+                alignItems: "flex-end",
+                gap: 12,
+                justifyContent: "space-between",
+              }}
+            >
+              <label className="field" style={{ minWidth: 220, flex: 1 }}>
+                <span>Status</span>
+                <select
+                  value={status}
+                  onChange={(e) => setStatus(e.target.value)}
                   style={{
                     width: "100%",
-                    borderRadius: 14,
-                    border: "1px solid rgba(255,255,255,.10)",
-                    display: "block",
-                    objectFit: "cover",
-                    maxHeight: 240,
+                    borderRadius: 12,
+                    border: "1px solid var(--line)",
+                    background: "rgba(255,255,255,.04)",
+                    color: "var(--text)",
+                    padding: "10px 12px",
                   }}
+                >
+                  <option value="draft">draft</option>
+                  <option value="in_review">in_review</option>
+                  {/* authors can keep a live post live, but not publish one */}
+                  {(reviewer || post?.status === "scheduled") && <option value="scheduled">scheduled</option>}
+                  {(reviewer || post?.status === "published" || post?.status === "scheduled") && (
+                    <option value="published">published</option>
+                  )}
+                </select>
+              </label>
+
+              <label className="field" style={{ minWidth: 260, flex: 1 }}>
+                <span>
+                  {status === "scheduled" ? "Publish at (required)" : "Published at (optional)"}
+                </span>
+                <input
+                  type="datetime-local"
+                  value={publishedAtLocal}
+                  onChange={(e) => setPublishedAtLocal(e.target.value)}
                 />
-              ) : (
-                <div className="muted">No cover image</div>
-              )}
+              </label>
+            </div>
+
+            <label className="row" style={{ gap: 8, cursor: "pointer" }}>
+              <input
+                type="checkbox"
+                checked={commentsClosed}
+                onChange={(e) => onToggleComments(e.target.checked)}
+                disabled={saving}
+              />
+              <span>Close comments on this post</span>
+            </label>
+
+            <div className="field">
+              <label htmlFor="edit-body">Body (Markdown)</label>
+              <BodyEditor
+                id="edit-body"
+                value={bodyMd}
+                onChange={setBodyMd}
+                folder={`posts/${id}/inline`}
+                rows={16}
+                placeholder="Write your post in Markdown…"
+                disabled={saving}
+                style={{ fontFamily: "ui-monospace, SFMono-Regular, Menlo, monospace" }}
+              />
             </div>
 
-            <div className="card stack" style={{ border: "1px solid var(--line)" }}>
-              <div className="row" style={{ justifyContent: "space-between" }}>
-                <strong>Images</strong>
-                <label className="btn ghost" style={{ cursor: saving ? "not-allowed" : "pointer" }}>
-                  Add
-                  <input
-                    type="file"
-                    accept="image/*"
-                    multiple
-                    onChange={onAddImages}
-                    disabled={saving}
-                    style={{ display: "none" }}
+            <div className="grid" style={{ gridTemplateColumns: "repeat(auto-fit, minmax(260px, 1fr))" }}>
+              <div className="card stack" style={{ border: "1px solid var(--line)" }}>
+                <div className="row" style={{ justifyContent: "space-between" }}>
+                  <strong>Cover</strong>
+                  <div className="row">
+                    {coverUrl && (
+                      <button className="btn ghost" type="button" onClick={() => setCropping(true)} disabled={saving}>
+                        Crop / focus
+                      </button>
+                    )}
+                    <button className="btn ghost" type="button" onClick={() => setPicking("cover")} disabled={saving}>
+                      Library
+                    </button>
+                    <label className="btn ghost" style={{ cursor: saving ? "not-allowed" : "pointer" }}>
+                      Replace
+                      <input
+                        type="file"
+                        accept="image/*"
+                        onChange={onReplaceCover}
+                        disabled={saving}
+                        style={{ display: "none" }}
+                      />
+                    </label>
+                  </div>
+                </div>
+
+                {coverUrl ? (
+                  <img
+                    src={coverUrl}
+                    alt="cover"
+                    style={{
+                      width: "100%",
+                      borderRadius: 14,
+                      border: "1px solid rgba(255,255,255,.10)",
+                      display: "block",
+                      objectFit: "cover",
+                      objectPosition: coverPosition({ cover_focus_x: coverFocus?.x, cover_focus_y: coverFocus?.y }),
+                      maxHeight: 240,
+                    }}
                   />
-                </label>
+                ) : (
+                  <div className="muted">No cover image</div>
+                )}
               </div>
 
-              {imagePaths.length === 0 ? (
-                <div className="muted">No images</div>
-              ) : (
-                <div style={{ display: "grid", gridTemplateColumns: "repeat(auto-fill, minmax(120px, 1fr))", gap: 10 }}>
-                  {imagePaths.map((p) => {
-                    const url = publicUrlFromPath(p);
-                    return (
-                      <div key={p} style={{ display: "grid", gap: 6 }}>
-                        {url ? (
-                          <img
-                            src={url}
-                            alt="img"
-                            style={{
-                              width: "100%",
-                              height: 90,
-                              objectFit: "cover",
-                              borderRadius: 12,
-                              border: "1px solid rgba(255,255,255,.10)",
-                              display: "block",
-                            }}
-                          />
-                        ) : (
-                          <div className="muted" style={{ fontSize: 12 }}>
-                            {p}
-                          </div>
-                        )}
-
-                        <button
-                          type="button"
-                          className="btn ghost"
-                          onClick={() => removeImage(p)}
-                          disabled={saving}
-                          style={{ padding: "8px 10px" }}
-                        >
-                          Remove
-                        </button>
-                      </div>
-                    );
-                  })}
+              <div className="card stack" style={{ border: "1px solid var(--line)" }}>
+                <div className="row" style={{ justifyContent: "space-between" }}>
+                  <strong>Images</strong>
+                  <div className="row">
+                    <button className="btn ghost" type="button" onClick={() => setPicking("image")} disabled={saving}>
+                      Library
+                    </button>
+                    <label className="btn ghost" style={{ cursor: saving ? "not-allowed" : "pointer" }}>
+                      Add
+                      <input
+                        type="file"
+                        accept="image/*"
+                        multiple
+                        onChange={onAddImages}
+                        disabled={saving}
+                        style={{ display: "none" }}
+                      />
+                    </label>
+                  </div>
                 </div>
-              )}
+
+                {imagePaths.length === 0 ? (
+                  <div className="muted">No images</div>
+                ) : (
+                  <div style={{ display: "grid", gridTemplateColumns: "repeat(auto-fill, minmax(120px, 1fr))", gap: 10 }}>
+                    {imagePaths.map((p) => {
+                      const url = thumbUrlFromPath(p);
+                      return (
+                        <div key={p} style={{ display: "grid", gap: 6 }}>
+                          {url ? (
+                            <img
+                              src={url}
+                              alt="img"
+                              style={{
+                                width: "100%",
+                                height: 90,
+                                objectFit: "cover",
+                                borderRadius: 12,
+                                border: "1px solid rgba(255,255,255,.10)",
+                                display: "block",
+                              }}
+                            />
+                          ) : (
+                            <div className="muted" style={{ fontSize: 12 }}>
+                              {p}
+                            </div>
+                          )}
+
+                          <button
+                            type="button"
+                            className="btn ghost"
+                            onClick={() => removeImage(p)}
+                            disabled={saving}
+                            style={{ padding: "8px 10px" }}
+                          >
+                            Remove
+                          </button>
+                        </div>
+                      );
+                    })}
+                  </div>
+                )}
+              </div>
             </div>
-          </div>
 
-          <div className="row" style={{ justifyContent: "space-between" }}>
-            <div className="row">
-              <button className="btn" type="submit" disabled={saving || !title.trim()}>
-                {saving ? "Saving…" : "Save changes"}
-              </button>
+            {id && <SeriesPanel postId={id} postTitle={title} busy={saving} />}
+
+            <div className="row" style={{ justifyContent: "space-between" }}>
+              <div className="row">
+                <button className="btn" type="submit" disabled={saving || !title.trim() || slugState === "taken"}>
+                  {saving
+                    ? "Saving…"
+                    : status === "in_review" && post?.status !== "in_review"
+                      ? "Submit for review"
+                      : "Save changes"}
+                </button>
+                <button
+                  className="btn ghost"
+                  type="button"
+                  onClick={() => nav(-1)}
+                  disabled={saving}
+                >
+                  Back
+                </button>
+              </div>
+
               <button
                 className="btn ghost"
                 type="button"
-                onClick={() => nav(-1)}
+                onClick={deletePost}
                 disabled={saving}
+                style={{ borderColor: "rgba(255,99,71,.45)" }}
               >
-                Back
+                Delete post
               </button>
             </div>
-
-            <button
-              className="btn ghost"
-              type="button"
-              onClick={deletePost}
-              disabled={saving}
-              style={{ borderColor: "rgba(255,99,71,.45)" }}
-            >
-              Delete post
-            </button>
-          </div>
-        </form>
-      </div>
-
-      {/* Preview */}
-      <div className="card stack">
-        <div className="row" style={{ justifyContent: "space-between" }}>
-          <h2 style={{ margin: 0 }}>Preview</h2>
-          <span className="muted" style={{ fontSize: 12 }}>
-            Markdown preview
-          </span>
+          </form>
         </div>
 
-        <div style={{ overflowWrap: "anywhere", wordBreak: "break-word" }}>
-          <ReactMarkdown remarkPlugins={[remarkGfm]}>{bodyMd || "_(nothing to preview yet)_"}</ReactMarkdown>
-        </div>
+        <PostPreview
+          title={title}
+          excerpt={excerpt}
+          body={bodyMd}
+          tags={previewTags}
+          coverUrl={coverUrl}
+          imageUrls={previewImageUrls}
+        />
       </div>
+
+      {id && post && (
+        <ReviewPanel
+          postId={id}
+          status={post.status}
+          body={bodyMd}
+          role={role}
+          currentUserId={userId}
+          busy={saving}
+          onDecided={onReviewDecided}
+        />
+      )}
+
+      <RevisionsPanel
+        revisions={revisions}
+        currentUserId={userId}
+        busy={saving}
+        onRestore={restoreRevision}
+      />
+
+      {cropping && coverUrl && (
+        <CoverCropper
+          src={coverUrl}
+          name={coverPath?.split("/").pop()}
+          initialFocal={coverFocus}
+          onClose={() => setCropping(false)}
+          onDone={onCropped}
+        />
+      )}
+
+      <MediaPicker
+        open={picking !== null}
+        onClose={() => setPicking(null)}
+        onPick={pickFromLibrary}
+        title={picking === "cover" ? "Choose a cover" : "Add an image"}
+      />
     </section>
   );
 }
\ No newline at end of file
@@ -1,4 +1,6 @@
-import { useEffect, useState } from "react";
+import { useEffect, useMemo, useState } from "react";
+import Lightbox from "../components/ui/Lightbox";
+import { useLightboxParam } from "../lib/lightbox";
 
 const GH = {
   owner: "davstar1",
@@ -16,17 +18,6 @@ type ContentItem = {
   download_url: string | null;
 };
 
-function useBodyScrollLock(locked: boolean) {
-  useEffect(() => {
-    if (!locked) return;
-    const prev = document.body.style.overflow;
-    document.body.style.overflow = "hidden";
-    return () => {
-      document.body.style.overflow = prev;
-    };
-  }, [locked]);
-}
-
 async function fetchDefaultBranch(
   owner: string,
   repo: string
@@ -74,67 +65,12 @@ export default function Gallery() {
   );
   const [errorMsg, setErrorMsg] = useState<string>("");
 
-  const [openIndex, setOpenIndex] = useState<number | null>(null);
-  const isOpen = openIndex !== null;
-  useBodyScrollLock(isOpen);
-
-  const close = () => setOpenIndex(null);
-  const prev = () =>
-    openIndex !== null &&
-    setOpenIndex(openIndex === 0 ? images.length - 1 : openIndex - 1);
-  const next = () =>
-    openIndex !== null &&
-    setOpenIndex(openIndex === images.length - 1 ? 0 : openIndex + 1);
-
-  // keyboard nav
-  useEffect(() => {
-    if (!isOpen) return;
-    const onKeyDown = (e: KeyboardEvent) => {
-      if (e.key === "Escape") close();
-      if (e.key === "ArrowLeft") prev();
-      if (e.key === "ArrowRight") next();
-    };
-    window.addEventListener("keydown", onKeyDown);
-    return () => window.removeEventListener("keydown", onKeyDown);
-    // eslint-disable-next-line react-hooks/exhaustive-deps
-  }, [isOpen, openIndex, images.length]);
-
-  // swipe nav
-  useEffect(() => {
-    if (!isOpen) return;
-    let startX = 0;
-    let startY = 0;
-    let active = false;
-
-    const onTouchStart = (e: TouchEvent) => {
-      active = true;
-      startX = e.touches[0].clientX;
-      startY = e.touches[0].clientY;
-    };
-    const onTouchMove = (e: TouchEvent) => {
-      if (!active) return;
-      const dx = e.touches[0].clientX - startX;
-      const dy = e.touches[0].clientY - startY;
-      if (Math.abs(dy) > Math.abs(dx)) return;
-      e.preventDefault();
-    };
-    const onTouchEnd = (e: TouchEvent) => {
-      if (!active) return;
-      active = false;
-      const dx = e.changedTouches[0].clientX - startX;
-      if (Math.abs(dx) > 40) dx > 0 ? prev() : next();
-    };
-
-    window.addEventListener("touchstart", onTouchStart, { passive: true });
-    window.addEventListener("touchmove", onTouchMove, { passive: false });
-    window.addEventListener("touchend", onTouchEnd, { passive: true });
-    return () => {
-      window.removeEventListener("touchstart", onTouchStart);
-      window.removeEventListener("touchmove", onTouchMove);
-      window.removeEventListener("touchend", onTouchEnd);
-    };
-    // eslint-disable-next-line react-hooks/exhaustive-deps
-  }, [isOpen, openIndex, images.length]);
+  // ?image=N opens the lightbox, so a photo can be linked to
+  const [openIndex, setOpenIndex] = useLightboxParam(images.length);
+  const lightboxImages = useMemo(
+    () => images.map((src, i) => ({ src, alt: `Gallery ${i + 1}` })),
+    [images]
+  );
 
   // load images from GitHub
   useEffect(() => {
@@ -230,33 +166,7 @@ export default function Gallery() {
         </div>
       )}
 
-      {isOpen && openIndex !== null && (
-        <div className="lightbox" role="dialog" aria-modal="true">
-          <button className="lbBackdrop" onClick={close} aria-label="Close" />
-          <div className="lbPanel">
-            <div className="lbTop">
-              <span className="muted">
-                {openIndex + 1} / {images.length}
-              </span>
-              <button className="lbBtn" onClick={close} aria-label="Close">
-                ✕
-              </button>
-            </div>
-            <div className="lbBody">
-              <button className="lbNav" onClick={prev} aria-label="Previous">
-                ‹
-              </button>
-              <img className="lbImg" src={images[openIndex]} alt="Full size" />
-              <button className="lbNav" onClick={next} aria-label="Next">
-                ›
-              </button>
-            </div>
-            <div className="lbHint muted">
-              Tip: ← → keys / swipe • Esc closes
-            </div>
-          </div>
-        </div>
-      )}
+      <Lightbox images={lightboxImages} index={openIndex} onIndexChange={setOpenIndex} />
     </section>
   );
 }
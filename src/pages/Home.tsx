@@ -1,9 +1,24 @@
-import { useEffect, useMemo, useState, type CSSProperties } from "react";
-import { Link } from "react-router-dom";
-import { loadPosts, type PostRow } from "../lib/posts";
+import { useCallback, useEffect, useMemo, useRef, useState, type CSSProperties } from "react";
+import { Link, useNavigate } from "react-router-dom";
+import { loadCategorizedPosts, loadPostPage, postPath, type PostRow } from "../lib/posts";
+import { categoryPath, useCategories } from "../lib/categories";
+import { useAuthors } from "../lib/authors";
 import { supabase } from "../lib/supabase";
+import { loadMostRead, type MostReadRange, type MostReadRow } from "../lib/views";
+import { describeReasons, lastRead, loadRelated, type RelatedPost } from "../lib/related";
+import { SITE } from "../lib/site";
+import { IMAGE_SIZES, coverPosition, srcSetFromPath } from "../lib/images";
 import WeatherWidget from "../components/widgets/WeatherWidget";
 
+const PAGE_SIZE = 12;
+const CATEGORY_SECTION_SIZE = 4;
+
+const MOST_READ_RANGES: { value: MostReadRange; label: string }[] = [
+  { value: "7d", label: "7 days" },
+  { value: "30d", label: "30 days" },
+  { value: "all", label: "All time" },
+];
+
 type HomeVideo = {
   youtube_id: string;
   title: string | null;
@@ -16,7 +31,7 @@ function coverUrlFromPath(path: string | null) {
 }
 
 function bodyPreview(p: any, n = 180) {
-  const raw = (p?.excerpt ?? p?.body_md ?? p?.body ?? "") as string;
+  const raw = (p?.excerpt ?? p?.body_preview ?? p?.body_md ?? p?.body ?? "") as string;
   const clean = raw.replace(/\s+/g, " ").trim();
   if (!clean) return "";
   return clean.length > n ? clean.slice(0, n) + "…" : clean;
@@ -29,31 +44,6 @@ function ytEmbed(id: string) {
   return `https://www.youtube.com/embed/${id}?autoplay=1&rel=0&modestbranding=1`;
 }
 
-/* ===========================
-   "Most Read" — localStorage
-=========================== */
-const VIEW_KEY = "loopblog:views";
-
-function bumpView(id: string) {
-  try {
-    const raw = localStorage.getItem(VIEW_KEY);
-    const data = raw ? (JSON.parse(raw) as Record<string, number>) : {};
-    data[id] = (data[id] ?? 0) + 1;
-    localStorage.setItem(VIEW_KEY, JSON.stringify(data));
-  } catch {
-    // ignore
-  }
-}
-
-function getViews(): Record<string, number> {
-  try {
-    const raw = localStorage.getItem(VIEW_KEY);
-    return raw ? (JSON.parse(raw) as Record<string, number>) : {};
-  } catch {
-    return {};
-  }
-}
-
 /* ===========================
    Videos — gallery + lightbox
 =========================== */
@@ -235,10 +225,20 @@ function VideoGallery({ videos }: { videos: HomeVideo[] }) {
 }
 
 export default function Home() {
+  const nav = useNavigate();
   const [posts, setPosts] = useState<PostRow[]>([]);
   const [loading, setLoading] = useState(true);
   const [error, setError] = useState<string | null>(null);
 
+  // Infinite scroll
+  const [nextCursor, setNextCursor] = useState<string | null>(null);
+  const [loadingMore, setLoadingMore] = useState(false);
+  const sentinelRef = useRef<HTMLDivElement | null>(null);
+
+  // Newest posts per category, for the sections under the main list
+  const [categorized, setCategorized] = useState<PostRow[]>([]);
+  const categories = useCategories();
+
   const [videos, setVideos] = useState<HomeVideo[]>([]);
   const [videoLoading, setVideoLoading] = useState(true);
   const [videoError, setVideoError] = useState<string | null>(null);
@@ -247,16 +247,24 @@ export default function Home() {
   const [query, setQuery] = useState("");
   const [sort, setSort] = useState<"new" | "old">("new");
 
-  // refresh Most Read after clicks/focus
+  // "Most Read" rail (server-side counts)
+  const [mostRead, setMostRead] = useState<MostReadRow[]>([]);
+  const [mostReadRange, setMostReadRange] = useState<MostReadRange>("7d");
+  // refresh Most Read when the tab regains focus
   const [viewsTick, setViewsTick] = useState(0);
 
+  // "Because you read …" (last post opened in this browser)
+  const [readBefore] = useState(() => lastRead());
+  const [suggested, setSuggested] = useState<RelatedPost[]>([]);
+
   useEffect(() => {
     (async () => {
       try {
         setLoading(true);
         setError(null);
-        const rows = await loadPosts();
-        setPosts(Array.isArray(rows) ? rows : []);
+        const page = await loadPostPage({ limit: PAGE_SIZE });
+        setPosts(page.rows);
+        setNextCursor(page.nextCursor);
       } catch (e: any) {
         setError(e?.message ?? "Failed to load posts");
       } finally {
@@ -265,6 +273,38 @@ export default function Home() {
     })();
   }, []);
 
+  useEffect(() => {
+    let alive = true;
+    if (!readBefore) return;
+
+    loadRelated(readBefore.id, SITE.relatedCount)
+      .then((rows) => {
+        if (alive) setSuggested(rows);
+      })
+      .catch((e) => console.error(e));
+
+    return () => {
+      alive = false;
+    };
+  }, [readBefore]);
+
+  useEffect(() => {
+    let alive = true;
+    if (categories.length === 0) return;
+
+    loadCategorizedPosts(
+      categories.map((c) => c.id),
+      CATEGORY_SECTION_SIZE
+    )
+      .then((rows) => {
+        if (alive) setCategorized(rows);
+      })
+      .catch((e) => console.error(e));
+    return () => {
+      alive = false;
+    };
+  }, [categories]);
+
   useEffect(() => {
     (async () => {
       try {
@@ -297,16 +337,60 @@ export default function Home() {
     })();
   }, []);
 
+  const loadMore = useCallback(async () => {
+    if (!nextCursor || loadingMore) return;
+    setLoadingMore(true);
+    try {
+      const page = await loadPostPage({ cursor: nextCursor, limit: PAGE_SIZE });
+      setPosts((prev) => {
+        const seen = new Set(prev.map((p) => p.id));
+        return [...prev, ...page.rows.filter((p) => !seen.has(p.id))];
+      });
+      setNextCursor(page.nextCursor);
+    } catch (e) {
+      console.error(e);
+      // stop auto-loading rather than retrying in a loop
+      setNextCursor(null);
+    } finally {
+      setLoadingMore(false);
+    }
+  }, [nextCursor, loadingMore]);
+
+  // Load the next page when the bottom of the list scrolls into view
+  useEffect(() => {
+    const el = sentinelRef.current;
+    if (!el || !nextCursor) return;
+
+    const io = new IntersectionObserver(
+      (entries) => {
+        if (entries.some((e) => e.isIntersecting)) loadMore();
+      },
+      { rootMargin: "600px 0px" }
+    );
+    io.observe(el);
+    return () => io.disconnect();
+  }, [nextCursor, loadMore]);
+
   useEffect(() => {
     const onFocus = () => setViewsTick((x) => x + 1);
     window.addEventListener("focus", onFocus);
     return () => window.removeEventListener("focus", onFocus);
   }, []);
 
-  const bumpAndTick = (id: string) => {
-    bumpView(id);
-    setViewsTick((x) => x + 1);
-  };
+  useEffect(() => {
+    let alive = true;
+    loadMostRead(mostReadRange)
+      .then((rows) => {
+        if (alive) setMostRead(rows);
+      })
+      .catch((e) => {
+        console.error(e);
+        if (alive) setMostRead([]);
+      });
+    return () => {
+      alive = false;
+    };
+  }, [mostReadRange, viewsTick]);
 
   const filteredPosts = useMemo(() => {
     const q = query.trim().toLowerCase();
@@ -328,21 +412,32 @@ export default function Home() {
     });
   }, [posts, query, sort]);
 
-  const mostRead = useMemo(() => {
-    const views = getViews();
-    return [...posts]
-      .sort((a, b) => (views[b.id] ?? 0) - (views[a.id] ?? 0))
-      .slice(0, 8);
-  }, [posts, viewsTick]);
+  // Bylines: cards are links already, so names are plain text here
+  const authors = useAuthors([...posts, ...categorized].map((p) => p.author_id));
+  const byline = (p: PostRow) => {
+    const name = p.author_id ? authors.get(p.author_id)?.display_name : null;
+    return name ? `${name} • ` : "";
+  };
 
   const slices = useMemo(() => {
     const hero = filteredPosts[0] ?? null;
     const leftRail = filteredPosts.slice(1, 5);
-    const main = filteredPosts.slice(5, 11);
+    const main = filteredPosts.slice(5);
     const headlines = filteredPosts.slice(0, 8);
     return { hero, leftRail, main, headlines };
   }, [filteredPosts]);
 
+  const categorySections = useMemo(
+    () =>
+      categories
+        .map((c) => ({
+          category: c,
+          posts: categorized.filter((p) => p.category_id === c.id),
+        }))
+        .filter((s) => s.posts.length > 0),
+    [categories, categorized]
+  );
+
   const noMatches =
     posts.length > 0 && filteredPosts.length === 0 && query.trim().length > 0;
 
@@ -373,6 +468,12 @@ export default function Home() {
               className="homeSearch"
               value={query}
               onChange={(e) => setQuery(e.target.value)}
+              onKeyDown={(e) => {
+                // Enter = full-text search (bodies, phrases, #tags)
+                if (e.key === "Enter" && query.trim()) {
+                  nav(`/search?q=${encodeURIComponent(query.trim())}`);
+                }
+              }}
               placeholder="Search posts…"
               aria-label="Search posts"
             />
@@ -410,19 +511,26 @@ export default function Home() {
             return (
               <Link
                 key={p.id}
-                to={`/post/${p.id}`}
+                to={postPath(p)}
                 className="railCard"
-                onClick={() => bumpAndTick(p.id)}
               >
                 {img && (
                   <div className="railThumb">
-                    <img src={img} alt={p.title} loading="lazy" />
+                    <img
+                      src={img}
+                      srcSet={srcSetFromPath(p.cover_path)}
+                      sizes={IMAGE_SIZES.thumb}
+                      style={{ objectPosition: coverPosition(p) }}
+                      alt={p.title}
+                      loading="lazy"
+                    />
                   </div>
                 )}
                 <div className="railBody">
                   <div className="railTitle">{p.title}</div>
                   <div className="railDeck muted">{bodyPreview(p, 110)}</div>
                   <div className="railMeta muted">
+                    {byline(p)}
                     {new Date(p.published_at ?? p.created_at).toLocaleString()}
                   </div>
                 </div>
@@ -434,13 +542,19 @@ export default function Home() {
         <main className="newsMain">
           {slices.hero && (
             <Link
-              to={`/post/${slices.hero.id}`}
+              to={postPath(slices.hero)}
               className="heroCard"
-              onClick={() => bumpAndTick(slices.hero!.id)}
             >
               {heroCover && (
                 <div className="heroMedia">
-                  <img src={heroCover} alt={slices.hero.title} loading="lazy" />
+                  <img
+                    src={heroCover}
+                    srcSet={srcSetFromPath(slices.hero.cover_path)}
+                    sizes={IMAGE_SIZES.hero}
+                    style={{ objectPosition: coverPosition(slices.hero) }}
+                    alt={slices.hero.title}
+                    loading="lazy"
+                  />
                 </div>
               )}
               <div className="heroContent">
@@ -451,6 +565,7 @@ export default function Home() {
                 </div>
                 <div className="heroMeta">
                   <span className="chip">
+                    {byline(slices.hero)}
                     {new Date(
                       slices.hero.published_at ?? slices.hero.created_at
                     ).toLocaleString()}
@@ -475,14 +590,14 @@ export default function Home() {
               return (
                 <Link
                   key={p.id}
-                  to={`/post/${p.id}`}
+                  to={postPath(p)}
                   className="mainItem"
-                  onClick={() => bumpAndTick(p.id)}
                 >
                   <div className="mainText">
                     <div className="mainTitle">{p.title}</div>
                     <div className="mainDeck muted">{bodyPreview(p, 160)}</div>
                     <div className="mainMeta muted">
+                      {byline(p)}
                       {new Date(
                         p.published_at ?? p.created_at
                       ).toLocaleString()}
@@ -491,7 +606,14 @@ export default function Home() {
 
                   {img && (
                     <div className="mainThumb">
-                      <img src={img} alt={p.title} loading="lazy" />
+                      <img
+                        src={img}
+                        srcSet={srcSetFromPath(p.cover_path)}
+                        sizes={IMAGE_SIZES.card}
+                        style={{ objectPosition: coverPosition(p) }}
+                        alt={p.title}
+                        loading="lazy"
+                      />
                     </div>
                   )}
                 </Link>
@@ -499,6 +621,56 @@ export default function Home() {
             })}
           </div>
 
+          {(nextCursor || loadingMore) && (
+            <div ref={sentinelRef} className="muted" style={{ textAlign: "center" }}>
+              {loadingMore ? (
+                "Loading more posts…"
+              ) : (
+                <button type="button" className="homeClear" onClick={loadMore}>
+                  Load more
+                </button>
+              )}
+            </div>
+          )}
+
+          {!query.trim() &&
+            categorySections.map(({ category, posts: catPosts }) => (
+              <section key={category.id} className="catSection">
+                <div className="sectionTitle">
+                  <h2 style={{ margin: 0 }}>{category.name}</h2>
+                  <Link to={categoryPath(category)}>See all →</Link>
+                </div>
+                <div className="catGrid">
+                  {catPosts.map((p) => {
+                    const img = coverUrlFromPath(p.cover_path);
+                    return (
+                      <Link key={p.id} to={postPath(p)} className="railCard">
+                        {img && (
+                          <div className="railThumb">
+                            <img
+                              src={img}
+                              srcSet={srcSetFromPath(p.cover_path)}
+                              sizes={IMAGE_SIZES.thumb}
+                              style={{ objectPosition: coverPosition(p) }}
+                              alt={p.title}
+                              loading="lazy"
+                            />
+                          </div>
+                        )}
+                        <div className="railBody">
+                          <div className="railTitle">{p.title}</div>
+                          <div className="railMeta muted">
+                            {byline(p)}
+                            {new Date(p.published_at ?? p.created_at).toLocaleDateString()}
+                          </div>
+                        </div>
+                      </Link>
+                    );
+                  })}
+                </div>
+              </section>
+            ))}
+
           {videoLoading ? (
             <div className="muted">Loading videos…</div>
           ) : videoError ? (
@@ -516,9 +688,8 @@ export default function Home() {
               {slices.headlines.map((p) => (
                 <Link
                   key={p.id}
-                  to={`/post/${p.id}`}
+                  to={postPath(p)}
                   className="sideLink"
-                  onClick={() => bumpAndTick(p.id)}
                 >
                   {p.title}
                 </Link>
@@ -526,17 +697,63 @@ export default function Home() {
             </div>
           </div>
 
+          {readBefore && suggested.length > 0 && (
+            <div className="sideCard">
+              <div className="sideTitle">
+                Because you read{" "}
+                <Link to={postPath(readBefore)} style={{ color: "inherit" }}>
+                  {readBefore.title}
+                </Link>
+              </div>
+              <div className="sideList">
+                {suggested.map((p) => (
+                  <Link key={p.id} to={postPath(p)} className="sideLink">
+                    {p.title}
+                    {describeReasons(p.reasons) && (
+                      <span className="muted" style={{ fontSize: 12, display: "block" }}>
+                        {describeReasons(p.reasons)}
+                      </span>
+                    )}
+                  </Link>
+                ))}
+              </div>
+            </div>
+          )}
+
           <div className="sideCard">
             <div className="sideTitle">Most Read</div>
+            <div className="row" style={{ gap: 6, marginBottom: 10 }}>
+              {MOST_READ_RANGES.map((r) => (
+                <button
+                  key={r.value}
+                  type="button"
+                  className="chip"
+                  aria-pressed={mostReadRange === r.value}
+                  onClick={() => setMostReadRange(r.value)}
+                  style={{
+                    cursor: "pointer",
+                    color: "inherit",
+                    fontWeight: mostReadRange === r.value ? 800 : 400,
+                    opacity: mostReadRange === r.value ? 1 : 0.72,
+                  }}
+                >
+                  {r.label}
+                </button>
+              ))}
+            </div>
             <div className="sideList">
+              {mostRead.length === 0 && (
+                <div className="muted" style={{ fontSize: 13 }}>
+                  No views yet.
+                </div>
+              )}
               {mostRead.map((p) => (
-                <Link
-                  key={p.id}
-                  to={`/post/${p.id}`}
-                  className="sideLink"
-                  onClick={() => bumpAndTick(p.id)}
-                >
+                <Link key={p.id} to={postPath(p)} className="sideLink">
                   {p.title}
+                  <span className="muted" style={{ fontSize: 12 }}>
+                    {" "}
+                    · {p.views.toLocaleString()} {p.views === 1 ? "view" : "views"}
+                  </span>
                 </Link>
               ))}
             </div>
@@ -0,0 +1,232 @@
+import { useEffect, useMemo, useState } from "react";
+import { Link } from "react-router-dom";
+import { hasRole, useRole } from "../lib/roles";
+import { publicUrlFromPath, thumbUrlFromPath } from "../lib/images";
+import { removeBlogImages } from "../lib/uploadImage";
+import { formatBytes, loadMediaLibrary, matchesMedia, type MediaItem } from "../lib/media";
+
+type Dims = { width: number; height: number };
+
+/**
+ * Everything in the loopblogimages bucket: one row per image (srcset
+ * variants included), with the posts and profiles using it. Editors and
+ * admins can delete.
+ */
+export default function Media() {
+  const { role } = useRole();
+  const canDelete = hasRole(role, ["admin", "editor"]);
+
+  const [items, setItems] = useState<MediaItem[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [busy, setBusy] = useState(false);
+  const [msg, setMsg] = useState<string | null>(null);
+  const [query, setQuery] = useState("");
+  const [usage, setUsage] = useState<"all" | "used" | "unused">("all");
+  const [selected, setSelected] = useState<Set<string>>(new Set());
+  // read off the thumbnails as they load (storage doesn't know them)
+  const [dims, setDims] = useState<Record<string, Dims>>({});
+
+  useEffect(() => {
+    let alive = true;
+
+    (async () => {
+      try {
+        const rows = await loadMediaLibrary();
+        if (alive) setItems(rows);
+      } catch (e) {
+        if (alive) setMsg(e instanceof Error ? e.message : "Failed to load media.");
+      } finally {
+        if (alive) setLoading(false);
+      }
+    })();
+
+    return () => {
+      alive = false;
+    };
+  }, []);
+
+  const shown = useMemo(
+    () =>
+      items.filter(
+        (m) =>
+          matchesMedia(m, query) &&
+          (usage === "all" || (usage === "used") === m.usedBy.length > 0)
+      ),
+    [items, query, usage]
+  );
+
+  const totalBytes = useMemo(() => items.reduce((n, m) => n + m.bytes, 0), [items]);
+
+  function onThumbLoad(m: MediaItem, img: HTMLImageElement) {
+    // thumbnails may be a smaller variant: scale up to the main width
+    const mainWidth = m.widths[m.widths.length - 1];
+    const width = mainWidth ?? img.naturalWidth;
+    const height = mainWidth ? Math.round((img.naturalHeight * mainWidth) / img.naturalWidth) : img.naturalHeight;
+    setDims((d) => (d[m.path] ? d : { ...d, [m.path]: { width, height } }));
+  }
+
+  function toggle(path: string) {
+    setSelected((prev) => {
+      const next = new Set(prev);
+      if (next.has(path)) next.delete(path);
+      else next.add(path);
+      return next;
+    });
+  }
+
+  async function removeSelected() {
+    const paths = Array.from(selected);
+    if (!paths.length) return;
+
+    const inUse = items.filter((m) => selected.has(m.path) && m.usedBy.length > 0);
+    const warning = inUse.length
+      ? `\n\n${inUse.length} of them are still in use and will show as broken images.`
+      : "";
+    const yes = window.confirm(`Delete ${paths.length} image(s)? This cannot be undone.${warning}`);
+    if (!yes) return;
+
+    setMsg(null);
+    setBusy(true);
+    try {
+      await removeBlogImages(paths);
+      setItems((prev) => prev.filter((m) => !selected.has(m.path)));
+      setSelected(new Set());
+      setMsg(`Deleted ${paths.length} image(s) ✅`);
+    } catch (e) {
+      setMsg(e instanceof Error ? e.message : "Failed to delete images.");
+    } finally {
+      setBusy(false);
+    }
+  }
+
+  return (
+    <section className="stack" style={{ maxWidth: 1100, margin: "0 auto", padding: "0 14px" }}>
+      <div className="sectionTitle">
+        <h2>Media</h2>
+        <span className="muted">
+          {items.length} images • {formatBytes(totalBytes)} • <Link to="/admin">Back to admin</Link>
+        </span>
+      </div>
+
+      <div className="card stack">
+        <div className="row" style={{ flexWrap: "wrap" }}>
+          <input
+            className="sideInput"
+            placeholder="Search file names or post titles…"
+            value={query}
+            onChange={(e) => setQuery(e.target.value)}
+            style={{ flex: 1, minWidth: 220 }}
+          />
+          <select className="sideInput" value={usage} onChange={(e) => setUsage(e.target.value as typeof usage)}>
+            <option value="all">All</option>
+            <option value="used">In use</option>
+            <option value="unused">Not used</option>
+          </select>
+          {canDelete && (
+            <>
+              <button
+                className="btn ghost"
+                type="button"
+                onClick={() => setSelected(new Set(shown.map((m) => m.path)))}
+                disabled={busy || !shown.length}
+              >
+                Select shown
+              </button>
+              <button
+                className="btn ghost"
+                type="button"
+                onClick={removeSelected}
+                disabled={busy || !selected.size}
+                style={{ color: "tomato" }}
+              >
+                {busy ? "Deleting…" : `Delete selected (${selected.size})`}
+              </button>
+            </>
+          )}
+        </div>
+
+        {msg && <div style={{ color: msg.includes("✅") ? "inherit" : "tomato" }}>{msg}</div>}
+
+        {loading ? (
+          <div style={{ opacity: 0.85 }}>Loading media…</div>
+        ) : shown.length === 0 ? (
+          <div style={{ opacity: 0.85 }}>No images match.</div>
+        ) : (
+          <div style={{ display: "grid", gap: 10 }}>
+            {shown.map((m) => {
+              const d = dims[m.path];
+              return (
+                <div
+                  key={m.path}
+                  style={{
+                    display: "grid",
+                    gridTemplateColumns: "96px minmax(0, 1fr) auto",
+                    gap: 12,
+                    alignItems: "center",
+                    border: "1px solid var(--line)",
+                    borderRadius: 14,
+                    padding: 12,
+                    background: selected.has(m.path) ? "rgba(255,255,255,.07)" : "rgba(255,255,255,.03)",
+                  }}
+                >
+                  <a
+                    href={publicUrlFromPath(m.path) ?? undefined}
+                    target="_blank"
+                    rel="noreferrer"
+                    className="thumb"
+                    style={{ width: 96, height: 72 }}
+                  >
+                    <img
+                      src={thumbUrlFromPath(m.path, 160) ?? ""}
+                      alt={m.name}
+                      loading="lazy"
+                      onLoad={(e) => onThumbLoad(m, e.currentTarget)}
+                    />
+                  </a>
+
+                  <div style={{ minWidth: 0 }}>
+                    <div style={{ fontWeight: 800, overflow: "hidden", textOverflow: "ellipsis", whiteSpace: "nowrap" }}>
+                      {m.name}
+                    </div>
+                    <div style={{ opacity: 0.85, fontSize: 12, marginTop: 4 }}>
+                      {m.folder || "/"} • {d ? `${d.width}×${d.height}` : "…"} • {formatBytes(m.bytes)}
+                      {m.widths.length > 1 && ` • ${m.widths.length} sizes`}
+                      {m.created_at && ` • ${new Date(m.created_at).toLocaleDateString()}`}
+                    </div>
+                    <div style={{ fontSize: 12, marginTop: 4 }}>
+                      {m.usedBy.length === 0 ? (
+                        <span style={{ opacity: 0.7 }}>Not used anywhere</span>
+                      ) : (
+                        m.usedBy.map((u, i) => (
+                          <span key={`${u.id}-${u.as}`}>
+                            {i > 0 && ", "}
+                            <Link to={u.href}>{u.label}</Link>
+                            <span style={{ opacity: 0.7 }}>
+                              {" "}
+                              ({u.as}
+                              {u.status && u.status !== "published" ? `, ${u.status}` : ""})
+                            </span>
+                          </span>
+                        ))
+                      )}
+                    </div>
+                  </div>
+
+                  {canDelete && (
+                    <input
+                      type="checkbox"
+                      checked={selected.has(m.path)}
+                      onChange={() => toggle(m.path)}
+                      aria-label={`Select ${m.name}`}
+                      disabled={busy}
+                    />
+                  )}
+                </div>
+              );
+            })}
+          </div>
+        )}
+      </div>
+    </section>
+  );
+}
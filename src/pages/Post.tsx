@@ -1,113 +1,33 @@
-import { useEffect, useMemo, useRef, useState } from "react";
-import { Link, useParams } from "react-router-dom";
-import ReactMarkdown from "react-markdown";
-import remarkGfm from "remark-gfm";
-import { getPost, loadPosts, type PostRow } from "../lib/posts";
-import { supabase } from "../lib/supabase";
-
-/* ===========================
-   Storage helpers (views)
-=========================== */
-const VIEW_KEY = "loopblog:views";
-
-function bumpView(id: string) {
-  try {
-    const raw = localStorage.getItem(VIEW_KEY);
-    const data = raw ? (JSON.parse(raw) as Record<string, number>) : {};
-    data[id] = (data[id] ?? 0) + 1;
-    localStorage.setItem(VIEW_KEY, JSON.stringify(data));
-  } catch {
-    // ignore
-  }
-}
-
-function publicUrlFromPath(path: string | null): string | null {
-  if (!path) return null;
-  return supabase.storage.from("loopblogimages").getPublicUrl(path).data
-    .publicUrl;
-}
-
-/* ===========================
-   Reading time + TOC helpers
-=========================== */
-function stripMarkdown(md: string) {
-  // remove fenced code blocks
-  let s = md.replace(/```[\s\S]*?```/g, " ");
-  // remove inline code
-  s = s.replace(/`[^`]*`/g, " ");
-  // remove images ![alt](url)
-  s = s.replace(/!\[[^\]]*\]\([^)]+\)/g, " ");
-  // turn links [text](url) -> text
-  s = s.replace(/\[([^\]]+)\]\([^)]+\)/g, "$1");
-  // remove heading markers/bullets
-  s = s.replace(/^#{1,6}\s+/gm, "");
-  s = s.replace(/^[-*+]\s+/gm, "");
-  // collapse whitespace
-  s = s.replace(/\s+/g, " ").trim();
-  return s;
-}
-
-function countWords(text: string) {
-  if (!text) return 0;
-  const words = text.trim().split(/\s+/).filter(Boolean);
-  return words.length;
-}
-
-function slugify(input: string) {
-  return input
-    .toLowerCase()
-    .trim()
-    .replace(/[^\w\s-]/g, "")
-    .replace(/\s+/g, "-")
-    .replace(/-+/g, "-");
-}
-
-function createSlugger() {
-  const counts: Record<string, number> = {};
-  return (text: string) => {
-    const base = slugify(text) || "section";
-    const n = (counts[base] ?? 0) + 1;
-    counts[base] = n;
-    return n === 1 ? base : `${base}-${n}`;
-  };
-}
-
-type TocItem = {
-  level: 2 | 3;
-  text: string;
-  id: string;
-};
-
-function extractToc(md: string): TocItem[] {
-  const slug = createSlugger();
-  const items: TocItem[] = [];
-  const lines = (md || "").split("\n");
-
-  for (const line of lines) {
-    const m = /^(#{2,3})\s+(.+?)\s*$/.exec(line);
-    if (!m) continue;
-
-    const level = m[1].length as 2 | 3;
-    const text = m[2]
-      .replace(/\[([^\]]+)\]\([^)]+\)/g, "$1")
-      .replace(/[*_`]/g, "")
-      .trim();
-
-    if (!text) continue;
-    items.push({ level, text, id: slug(text) });
-  }
-
-  return items;
-}
-
-function getNodeText(node: any): string {
-  if (node == null) return "";
-  if (typeof node === "string" || typeof node === "number") return String(node);
-  if (Array.isArray(node)) return node.map(getNodeText).join("");
-  if (typeof node === "object" && node.props?.children)
-    return getNodeText(node.props.children);
-  return "";
-}
+import { useCallback, useEffect, useMemo, useRef, useState } from "react";
+import { Link, useNavigate, useParams } from "react-router-dom";
+import {
+  getNeighborPosts,
+  getPost,
+  getPostByOldSlug,
+  isLive,
+  isPostId,
+  loadPostPage,
+  loadPostsByCategory,
+  postPath,
+  type PostLink,
+  type PostRow,
+} from "../lib/posts";
+import { recordView } from "../lib/views";
+import { SITE } from "../lib/site";
+import { IMAGE_SIZES, downloadUrlFromPath, publicUrlFromPath, srcSetFromPath } from "../lib/images";
+import { useAuthors } from "../lib/authors";
+import { getPostSeries, type PostSeries } from "../lib/series";
+import { categoryPath, useCategories } from "../lib/categories";
+import { describeReasons, loadRelated, rememberRead, type RelatedPost } from "../lib/related";
+import { extractToc, isStoragePath, markdownImages, readingTimeLabel, type TocItem } from "../lib/markdown";
+import { useLightboxParam, type LightboxImage } from "../lib/lightbox";
+import MarkdownBody from "../components/post/MarkdownBody";
+import Byline from "../components/post/Byline";
+import CommentsSection from "../components/post/CommentsSection";
+import PostPhotos from "../components/post/PostPhotos";
+import PostToc from "../components/post/PostToc";
+import SeriesNav from "../components/post/SeriesNav";
+import Lightbox from "../components/ui/Lightbox";
 
 /* ===========================
    Clipboard helper
@@ -135,10 +55,19 @@ async function copyText(text: string) {
 }
 
 export default function Post() {
-  const { id } = useParams<{ id: string }>();
+  // Either the current slug, a previous slug, or the post id
+  const { slug: ref } = useParams<{ slug: string }>();
+  const navigate = useNavigate();
 
   const [post, setPost] = useState<PostRow | null>(null);
-  const [allPosts, setAllPosts] = useState<PostRow[]>([]);
+  const [neighbors, setNeighbors] = useState<{
+    newer: PostLink | null;
+    older: PostLink | null;
+  }>({ newer: null, older: null });
+  const [recentPosts, setRecentPosts] = useState<PostRow[]>([]);
+  const [series, setSeries] = useState<PostSeries | null>(null);
+  const [categoryPosts, setCategoryPosts] = useState<PostRow[]>([]);
+  const [scoredRelated, setScoredRelated] = useState<RelatedPost[]>([]);
   const [loading, setLoading] = useState(true);
   const [err, setErr] = useState<string | null>(null);
 
@@ -165,13 +94,20 @@ export default function Post() {
         setLoading(true);
         setErr(null);
 
-        if (!id) {
+        if (!ref) {
           if (alive) setPost(null);
           return;
         }
 
-        const row = await getPost(id);
-        if (alive) setPost(row);
+        let row = await getPost(ref);
+        if (!row && !isPostId(ref)) row = await getPostByOldSlug(ref);
+        if (!alive) return;
+
+        // /post/<id> and renamed slugs land on the canonical /post/<slug>
+        if (row?.slug && row.slug !== ref) {
+          navigate(postPath(row), { replace: true });
+        }
+        setPost(row);
       } catch (e: any) {
         console.error(e);
         if (alive) {
@@ -186,18 +122,84 @@ export default function Post() {
     return () => {
       alive = false;
     };
-  }, [id]);
+  }, [ref, navigate]);
 
-  // Load all posts for next/prev/related
+  const postId = post?.id;
+  const authors = useAuthors([post?.author_id]);
+  const author = post?.author_id ? authors.get(post.author_id) ?? null : null;
+  const postPublishedAt = post?.published_at ?? null;
+
+  // Prev/next: two tiny lookups around this post's publish time
+  useEffect(() => {
+    let alive = true;
+    if (!postId) return;
+
+    getNeighborPosts({ id: postId, published_at: postPublishedAt })
+      .then((n) => {
+        if (alive) setNeighbors(n);
+      })
+      .catch((e) => {
+        console.error(e);
+        if (alive) setNeighbors({ newer: null, older: null });
+      });
+
+    return () => {
+      alive = false;
+    };
+  }, [postId, postPublishedAt]);
+
+  // Series membership (null for standalone posts)
+  useEffect(() => {
+    let alive = true;
+    if (!postId) return;
+
+    getPostSeries(postId)
+      .then((s) => {
+        if (alive) setSeries(s);
+      })
+      .catch((e) => {
+        console.error(e);
+        if (alive) setSeries(null);
+      });
+
+    return () => {
+      alive = false;
+    };
+  }, [postId]);
+
+  // Same-category posts, preferred for "Related"
+  const postCategoryId = post?.category_id ?? null;
+  useEffect(() => {
+    let alive = true;
+    if (!postCategoryId) return;
+
+    loadPostsByCategory(postCategoryId, { limit: 9 })
+      .then((rows) => {
+        if (alive) setCategoryPosts(rows);
+      })
+      .catch((e) => {
+        console.error(e);
+        if (alive) setCategoryPosts([]);
+      });
+
+    return () => {
+      alive = false;
+    };
+  }, [postCategoryId]);
+
+  const categories = useCategories();
+  const category = postCategoryId ? categories.find((c) => c.id === postCategoryId) ?? null : null;
+
+  // Recent posts (list columns only) for "Related"
   useEffect(() => {
     let alive = true;
     (async () => {
       try {
-        const rows = await loadPosts();
-        if (alive) setAllPosts(Array.isArray(rows) ? rows : []);
+        const page = await loadPostPage({ limit: 9 });
+        if (alive) setRecentPosts(page.rows);
       } catch (e) {
         console.error(e);
-        if (alive) setAllPosts([]);
+        if (alive) setRecentPosts([]);
       }
     })();
     return () => {
@@ -205,11 +207,45 @@ export default function Post() {
     };
   }, []);
 
-  // Count a view on mount / when id changes (counts direct links too)
+  // Precomputed content matches (see lib/related); empty until indexed
+  useEffect(() => {
+    let alive = true;
+    if (!postId) return;
+
+    loadRelated(postId, SITE.relatedCount)
+      .then((rows) => {
+        if (alive) setScoredRelated(rows);
+      })
+      .catch((e) => {
+        console.error(e);
+        if (alive) setScoredRelated([]);
+      });
+
+    return () => {
+      alive = false;
+    };
+  }, [postId]);
+
+  // Count a view on mount / when the post changes (counts direct links too)
   useEffect(() => {
-    if (!id) return;
-    bumpView(id);
-  }, [id]);
+    if (!postId) return;
+    recordView(postId);
+  }, [postId]);
+
+  // Remembered for "Because you read …" on Home (live posts only)
+  useEffect(() => {
+    if (post && isLive(post)) rememberRead(post);
+  }, [post]);
+
+  // Match the pre-rendered page's <title> while reading
+  const postTitle = post?.title;
+  useEffect(() => {
+    if (!postTitle) return;
+    document.title = `${postTitle} • ${SITE.title}`;
+    return () => {
+      document.title = SITE.title;
+    };
+  }, [postTitle]);
 
   // ✅ Hooks MUST be called every render (even while loading / post=null)
   const bodyText: string = useMemo(() => {
@@ -237,78 +273,80 @@ export default function Post() {
     return Array.from(new Set(urls));
   }, [post]);
 
-  const readingTimeLabel = useMemo(() => {
-    const text = stripMarkdown(bodyText);
-    const words = countWords(text);
-    const minutes = Math.max(1, Math.round(words / 200));
-    return `${minutes} min read`;
-  }, [bodyText]);
+  // Everything the lightbox pages through: cover, body images, photos
+  const lightboxImages: LightboxImage[] = useMemo(() => {
+    const list: LightboxImage[] = [];
+    const add = (img: LightboxImage) => {
+      if (!list.some((x) => x.src === img.src)) list.push(img);
+    };
+    const fromPath = (path: string, alt: string, caption: string | null = null) => {
+      const src = publicUrlFromPath(path);
+      if (src) add({ src, srcSet: srcSetFromPath(path), alt, caption, download: downloadUrlFromPath(path) });
+    };
+
+    const title = post?.title ?? "";
+    if (post?.cover_path) fromPath(post.cover_path, title || "Cover");
+
+    for (const m of markdownImages(bodyText)) {
+      if (isStoragePath(m.src)) fromPath(m.src, m.alt, m.title);
+      else add({ src: m.src, alt: m.alt, caption: m.title });
+    }
+
+    post?.image_paths.forEach((path, i) => fromPath(path, `${title} — photo ${i + 1}`));
+    return list;
+  }, [post, bodyText]);
+
+  const [lightboxIndex, setLightboxIndex] = useLightboxParam(lightboxImages.length);
+
+  const openImage = useCallback(
+    (src: string) => {
+      const i = lightboxImages.findIndex((x) => x.src === src);
+      if (i >= 0) setLightboxIndex(i);
+    },
+    [lightboxImages, setLightboxIndex]
+  );
+
+  const readingTime = useMemo(() => readingTimeLabel(bodyText), [bodyText]);
 
   const toc: TocItem[] = useMemo(() => extractToc(bodyText), [bodyText]);
 
-  const nav = useMemo(() => {
-    if (!post || !allPosts.length)
-      return { prev: null as PostRow | null, next: null as PostRow | null };
-
-    const sorted = [...allPosts].sort((a, b) => {
-      const ad = new Date(
-        (a as any).published_at ?? (a as any).created_at
-      ).getTime();
-      const bd = new Date(
-        (b as any).published_at ?? (b as any).created_at
-      ).getTime();
-      return bd - ad; // newest first
-    });
-
-    const idx = sorted.findIndex((p) => p.id === (post as any).id);
-    const prev = idx > 0 ? sorted[idx - 1] : null; // newer
-    const next = idx >= 0 && idx < sorted.length - 1 ? sorted[idx + 1] : null; // older
-    return { prev, next };
-  }, [post, allPosts]);
-
-  const related: PostRow[] = useMemo(() => {
-    if (!post || !allPosts.length) return [];
-    const currentId = (post as any).id;
-
-    const category = ((post as any).category ?? (post as any).topic ?? null) as
-      | string
-      | null;
-
-    const others = allPosts.filter((p) => p.id !== currentId);
-
-    const sameCat = category
-      ? others.filter((p: any) => (p.category ?? p.topic ?? null) === category)
+  // Parts readers can see (plus this one, when staff preview an unpublished part)
+  const seriesParts = useMemo(
+    () => (series ? series.parts.filter((p) => p.id === postId || isLive(p)) : []),
+    [series, postId]
+  );
+  const partIndex = seriesParts.findIndex((p) => p.id === postId);
+
+  // In a series, prev/next follow the series order; otherwise publish date
+  // (newer = "prev" (left), older = "next" (right))
+  const nav =
+    partIndex >= 0
+      ? {
+          prev: seriesParts[partIndex - 1] ?? null,
+          next: seriesParts[partIndex + 1] ?? null,
+          prevLabel: `← Part ${partIndex}`,
+          nextLabel: `Part ${partIndex + 2} →`,
+        }
+      : { prev: neighbors.newer, next: neighbors.older, prevLabel: "← Newer", nextLabel: "Older →" };
+
+  // Content matches when indexed; otherwise same category first (newest
+  // first), topped up with the newest others
+  const related: Array<PostRow | RelatedPost> = useMemo(() => {
+    if (!post) return [];
+    if (scoredRelated.length) return scoredRelated;
+
+    const sameCat = post.category_id
+      ? categoryPosts.filter((p) => p.id !== post.id && p.category_id === post.category_id)
       : [];
+    const picked = new Set(sameCat.map((p) => p.id));
+    const others = recentPosts.filter((p) => p.id !== post.id && !picked.has(p.id));
 
-    const pool = sameCat.length ? sameCat : others;
-
-    // newest first
-    pool.sort((a: any, b: any) => {
-      const ad = new Date(a.published_at ?? a.created_at).getTime();
-      const bd = new Date(b.published_at ?? b.created_at).getTime();
-      return bd - ad;
-    });
-
-    return pool.slice(0, 4);
-  }, [post, allPosts]);
-
-  const markdownComponents = useMemo(() => {
-    // Slugger must match TOC order; ReactMarkdown renders headings in order, so this aligns well.
-    const slug = createSlugger();
-
-    return {
-      h2: ({ children }: any) => {
-        const text = getNodeText(children);
-        const id = slug(text);
-        return <h2 id={id}>{children}</h2>;
-      },
-      h3: ({ children }: any) => {
-        const text = getNodeText(children);
-        const id = slug(text);
-        return <h3 id={id}>{children}</h3>;
-      },
-    };
-  }, [bodyText]);
+    const byDate = (a: PostRow, b: PostRow) =>
+      new Date(b.published_at ?? b.created_at).getTime() -
+      new Date(a.published_at ?? a.created_at).getTime();
+
+    return [...sameCat.sort(byDate), ...others.sort(byDate)].slice(0, SITE.relatedCount);
+  }, [post, categoryPosts, recentPosts, scoredRelated]);
 
   // ----- NOW it’s safe to early-return -----
   if (loading) {
@@ -369,7 +407,12 @@ export default function Post() {
           }}
         >
           <span className="chip">{dateLabel}</span>
-          <span className="chip">{readingTimeLabel}</span>
+          <span className="chip">{readingTime}</span>
+          {category && (
+            <Link className="chip" to={categoryPath(category)} style={{ textDecoration: "none" }}>
+              {category.name}
+            </Link>
+          )}
           {(post as any).status && (
             <span className="chip">{(post as any).status}</span>
           )}
@@ -402,6 +445,23 @@ export default function Post() {
           <p className="muted postExcerpt">{(post as any).excerpt}</p>
         )}
 
+        {author && <Byline author={author} />}
+
+        {post.tags.length > 0 && (
+          <div className="row postTags">
+            {post.tags.map((t) => (
+              <Link
+                key={t}
+                className="chip"
+                to={`/tag/${encodeURIComponent(t)}`}
+                style={{ textDecoration: "none" }}
+              >
+                #{t}
+              </Link>
+            ))}
+          </div>
+        )}
+
         {/* Text left, TOC/cover right */}
         <div
           className="postWrap"
@@ -416,47 +476,11 @@ export default function Post() {
         >
           <div className="postMain">
             {/* TOC for mobile (top) */}
-            {isNarrow && toc.length > 0 && (
-              <div
-                className="tocCard"
-                style={{
-                  border: "1px solid var(--line)",
-                  borderRadius: 16,
-                  padding: 12,
-                  marginBottom: 12,
-                  background: "rgba(255,255,255,.02)",
-                }}
-              >
-                <div style={{ fontWeight: 700, marginBottom: 8 }}>
-                  On this page
-                </div>
-                <div style={{ display: "grid", gap: 6 }}>
-                  {toc.map((t) => (
-                    <a
-                      key={t.id}
-                      href={`#${t.id}`}
-                      style={{
-                        textDecoration: "none",
-                        color: "inherit",
-                        paddingLeft: t.level === 3 ? 12 : 0,
-                        opacity: t.level === 3 ? 0.9 : 1,
-                      }}
-                    >
-                      {t.text}
-                    </a>
-                  ))}
-                </div>
-              </div>
-            )}
+            {isNarrow && <PostToc items={toc} style={{ marginBottom: 12 }} />}
 
-            <div className="postBody">
-              <ReactMarkdown
-                remarkPlugins={[remarkGfm]}
-                components={markdownComponents as any}
-              >
-                {bodyText}
-              </ReactMarkdown>
-            </div>
+            {series && <SeriesNav data={series} parts={seriesParts} currentId={post.id} />}
+
+            <MarkdownBody markdown={bodyText} onImageClick={openImage} />
 
             {/* Next / Prev */}
             {(nav.prev || nav.next) && (
@@ -471,14 +495,14 @@ export default function Post() {
                 {nav.prev ? (
                   <Link
                     className="card"
-                    to={`/post/${(nav.prev as any).id}`}
+                    to={postPath(nav.prev)}
                     style={{ padding: 12, textDecoration: "none" }}
                   >
                     <div className="muted" style={{ fontSize: 12 }}>
-                      ← Newer
+                      {nav.prevLabel}
                     </div>
                     <div style={{ fontWeight: 800, marginTop: 6 }}>
-                      {(nav.prev as any).title}
+                      {nav.prev.title}
                     </div>
                   </Link>
                 ) : (
@@ -488,14 +512,14 @@ export default function Post() {
                 {nav.next ? (
                   <Link
                     className="card"
-                    to={`/post/${(nav.next as any).id}`}
+                    to={postPath(nav.next)}
                     style={{ padding: 12, textDecoration: "none" }}
                   >
                     <div
                       className="muted"
                       style={{ fontSize: 12, textAlign: "right" }}
                     >
-                      Older →
+                      {nav.nextLabel}
                     </div>
                     <div
                       style={{
@@ -504,7 +528,7 @@ export default function Post() {
                         textAlign: "right",
                       }}
                     >
-                      {(nav.next as any).title}
+                      {nav.next.title}
                     </div>
                   </Link>
                 ) : (
@@ -529,10 +553,10 @@ export default function Post() {
                     gap: 12,
                   }}
                 >
-                  {related.map((p: any) => (
+                  {related.map((p) => (
                     <Link
                       key={p.id}
-                      to={`/post/${p.id}`}
+                      to={postPath(p)}
                       className="card"
                       style={{ padding: 12, textDecoration: "none" }}
                     >
@@ -542,11 +566,18 @@ export default function Post() {
                           p.published_at ?? p.created_at
                         ).toLocaleString()}
                       </div>
+                      {"reasons" in p && describeReasons(p.reasons, category?.name) && (
+                        <div className="muted" style={{ marginTop: 4, fontSize: 12 }}>
+                          {describeReasons(p.reasons, category?.name)}
+                        </div>
+                      )}
                     </Link>
                   ))}
                 </div>
               </div>
             )}
+
+            <CommentsSection postId={post.id} closed={!!post.comments_closed} />
           </div>
 
           {/* Right column (desktop): cover + TOC */}
@@ -561,10 +592,16 @@ export default function Post() {
                   target="_blank"
                   rel="noreferrer"
                   className="thumb"
-                  style={{ textDecoration: "none" }}
+                  style={{ textDecoration: "none", cursor: "zoom-in" }}
+                  onClick={(e) => {
+                    e.preventDefault();
+                    openImage(coverUrl);
+                  }}
                 >
                   <img
                     src={coverUrl}
+                    srcSet={srcSetFromPath(post.cover_path)}
+                    sizes={IMAGE_SIZES.card}
                     alt={(post as any).title ?? "Cover"}
                     style={{
                       width: "100%",
@@ -576,82 +613,15 @@ export default function Post() {
                 </a>
               )}
 
-              {toc.length > 0 && (
-                <div
-                  className="tocCard"
-                  style={{
-                    border: "1px solid var(--line)",
-                    borderRadius: 16,
-                    padding: 12,
-                    background: "rgba(255,255,255,.02)",
-                  }}
-                >
-                  <div style={{ fontWeight: 800, marginBottom: 8 }}>
-                    On this page
-                  </div>
-                  <div style={{ display: "grid", gap: 6 }}>
-                    {toc.map((t) => (
-                      <a
-                        key={t.id}
-                        href={`#${t.id}`}
-                        style={{
-                          textDecoration: "none",
-                          color: "inherit",
-                          paddingLeft: t.level === 3 ? 12 : 0,
-                          opacity: t.level === 3 ? 0.9 : 1,
-                        }}
-                      >
-                        {t.text}
-                      </a>
-                    ))}
-                  </div>
-                </div>
-              )}
+              <PostToc items={toc} />
             </aside>
           )}
         </div>
 
         {/* Photos */}
-        {imageUrls.length > 0 && (
-          <>
-            <div className="sectionTitle" style={{ marginTop: 12 }}>
-              <h3>Photos</h3>
-              <span className="muted">{imageUrls.length} uploaded</span>
-            </div>
-
-            <div
-              className="postImageGrid"
-              style={{
-                display: "grid",
-                gridTemplateColumns: "repeat(auto-fill, minmax(160px, 1fr))",
-                gap: 12,
-              }}
-            >
-              {imageUrls.map((url) => (
-                <a
-                  key={url}
-                  href={url}
-                  target="_blank"
-                  rel="noreferrer"
-                  className="thumb"
-                >
-                  <img
-                    src={url}
-                    alt="post"
-                    style={{
-                      width: "100%",
-                      height: 160,
-                      objectFit: "cover",
-                      borderRadius: 14,
-                      border: "1px solid var(--line)",
-                      display: "block",
-                    }}
-                  />
-                </a>
-              ))}
-            </div>
-          </>
-        )}
+        <PostPhotos urls={imageUrls} onOpen={openImage} />
+
+        <Lightbox images={lightboxImages} index={lightboxIndex} onIndexChange={setLightboxIndex} />
 
         <div className="row">
           <Link className="btn ghost" to="/">
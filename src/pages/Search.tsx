@@ -0,0 +1,169 @@
+import { useEffect, useMemo, useState } from "react";
+import { Link, useSearchParams } from "react-router-dom";
+import { loadPosts, postPath, type PostRow } from "../lib/posts";
+import {
+  buildSearchIndex,
+  isEmptyQuery,
+  parseQuery,
+  searchPosts,
+  type Segment,
+} from "../lib/search";
+
+function Highlighted({ segments }: { segments: Segment[] }) {
+  return (
+    <>
+      {segments.map((s, i) =>
+        s.hit ? <mark key={i}>{s.text}</mark> : <span key={i}>{s.text}</span>
+      )}
+    </>
+  );
+}
+
+export default function Search() {
+  const [params, setParams] = useSearchParams();
+  const q = params.get("q") ?? "";
+
+  const [input, setInput] = useState(q);
+  const [posts, setPosts] = useState<PostRow[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+
+  // keep the box in sync with back/forward navigation
+  useEffect(() => {
+    setInput(q);
+  }, [q]);
+
+  useEffect(() => {
+    let alive = true;
+
+    (async () => {
+      try {
+        setLoading(true);
+        setError(null);
+        const rows = await loadPosts();
+        if (alive) setPosts(rows);
+      } catch (e) {
+        console.error(e);
+        if (alive) setError(e instanceof Error ? e.message : "Failed to load posts");
+      } finally {
+        if (alive) setLoading(false);
+      }
+    })();
+
+    return () => {
+      alive = false;
+    };
+  }, []);
+
+  const index = useMemo(() => buildSearchIndex(posts), [posts]);
+  const parsed = useMemo(() => parseQuery(q), [q]);
+  const results = useMemo(() => searchPosts(index, parsed), [index, parsed]);
+
+  // Tag shortcuts: every tag in use, most common first
+  const allTags = useMemo(() => {
+    const counts = new Map<string, number>();
+    for (const p of posts) for (const t of p.tags) counts.set(t, (counts.get(t) ?? 0) + 1);
+    return [...counts.entries()].sort((a, b) => b[1] - a[1]).map(([t]) => t).slice(0, 16);
+  }, [posts]);
+
+  function submit(next: string) {
+    const clean = next.trim();
+    setParams(clean ? { q: clean } : {}, { replace: true });
+  }
+
+  function toggleTag(tag: string) {
+    const token = `#${tag}`;
+    const words = input.split(/\s+/).filter(Boolean);
+    const has = parsed.tags.includes(tag);
+    const next = has
+      ? words.filter((w) => w.toLowerCase() !== token && w.toLowerCase() !== `tag:${tag}`).join(" ")
+      : [...words, token].join(" ");
+    setInput(next);
+    submit(next);
+  }
+
+  return (
+    <section className="stack">
+      <div className="sectionTitle">
+        <h2>Search</h2>
+        <span className="muted">
+          {loading ? "Loading…" : isEmptyQuery(parsed) ? `${posts.length} posts` : `${results.length} results`}
+        </span>
+      </div>
+
+      <form
+        className="homeControls"
+        role="search"
+        onSubmit={(e) => {
+          e.preventDefault();
+          submit(input);
+        }}
+      >
+        <input
+          className="homeSearch"
+          value={input}
+          onChange={(e) => setInput(e.target.value)}
+          placeholder='Search posts… try "exact phrase" or #tag'
+          aria-label="Search posts"
+          autoFocus
+          style={{ flex: 1 }}
+        />
+        <button type="submit" className="homeClear">
+          Search
+        </button>
+      </form>
+
+      {allTags.length > 0 && (
+        <div className="row">
+          {allTags.map((t) => (
+            <button
+              key={t}
+              type="button"
+              className="chip"
+              onClick={() => toggleTag(t)}
+              aria-pressed={parsed.tags.includes(t)}
+              style={{
+                cursor: "pointer",
+                color: "inherit",
+                opacity: parsed.tags.includes(t) ? 1 : 0.72,
+                fontWeight: parsed.tags.includes(t) ? 800 : 400,
+              }}
+            >
+              #{t}
+            </button>
+          ))}
+        </div>
+      )}
+
+      {error && <div className="error">Error: {error}</div>}
+
+      {!loading && !error && !isEmptyQuery(parsed) && results.length === 0 && (
+        <div className="emptyState">
+          <div className="emptyTitle">No posts match “{q}”.</div>
+          <div className="muted" style={{ marginTop: 6 }}>
+            Try fewer words, or remove a tag filter.
+          </div>
+        </div>
+      )}
+
+      <div className="mainList">
+        {results.map((r) => (
+          <Link key={r.post.id} to={postPath(r.post)} className="mainItem searchResult">
+            <div className="mainText">
+              <div className="mainTitle">
+                <Highlighted segments={r.title} />
+              </div>
+              <div className="mainDeck muted">
+                <Highlighted segments={r.snippet} />
+              </div>
+              <div className="mainMeta muted">
+                {new Date(r.post.published_at ?? r.post.created_at).toLocaleString()}
+                {r.post.tags.length > 0 && ` • ${r.post.tags.map((t) => `#${t}`).join(" ")}`}
+              </div>
+            </div>
+          </Link>
+        ))}
+      </div>
+    </section>
+  );
+}
@@ -0,0 +1,136 @@
+import { useEffect, useState } from "react";
+import { Link, useParams } from "react-router-dom";
+import { postPath } from "../lib/posts";
+import { getSeriesBySlug, liveParts, loadSeriesParts, type Series as SeriesRow, type SeriesPart } from "../lib/series";
+import { SITE } from "../lib/site";
+import { supabase } from "../lib/supabase";
+
+function coverUrlFromPath(path: string | null) {
+  if (!path) return null;
+  return supabase.storage.from("loopblogimages").getPublicUrl(path).data
+    .publicUrl;
+}
+
+export default function Series() {
+  const { slug = "" } = useParams<{ slug: string }>();
+
+  const [series, setSeries] = useState<SeriesRow | null>(null);
+  const [parts, setParts] = useState<SeriesPart[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    let alive = true;
+
+    (async () => {
+      try {
+        setLoading(true);
+        setError(null);
+        const s = await getSeriesBySlug(slug);
+        const rows = s ? liveParts(await loadSeriesParts(s.id)) : [];
+        if (!alive) return;
+        setSeries(s);
+        setParts(rows);
+      } catch (e) {
+        console.error(e);
+        if (alive) {
+          setError(e instanceof Error ? e.message : "Failed to load series");
+          setSeries(null);
+          setParts([]);
+        }
+      } finally {
+        if (alive) setLoading(false);
+      }
+    })();
+
+    return () => {
+      alive = false;
+    };
+  }, [slug]);
+
+  const seriesTitle = series?.title;
+  useEffect(() => {
+    if (!seriesTitle) return;
+    document.title = `${seriesTitle} • ${SITE.title}`;
+    return () => {
+      document.title = SITE.title;
+    };
+  }, [seriesTitle]);
+
+  if (loading) return <div className="muted">Loading…</div>;
+
+  if (!series) {
+    return (
+      <section className="stack">
+        {error && <div className="error">Error: {error}</div>}
+        <div className="card stack">
+          <h2>Series not found</h2>
+          <p className="muted">There’s no series at this address.</p>
+          <Link className="btn" to="/">
+            Go Home
+          </Link>
+        </div>
+      </section>
+    );
+  }
+
+  return (
+    <section className="stack">
+      <div className="sectionTitle">
+        <h2>{series.title}</h2>
+        <span className="muted">
+          {parts.length} {parts.length === 1 ? "part" : "parts"}
+        </span>
+      </div>
+
+      {series.description && (
+        <p className="muted" style={{ margin: 0, whiteSpace: "pre-wrap" }}>
+          {series.description}
+        </p>
+      )}
+
+      {parts.length === 0 && (
+        <div className="card">
+          <p className="muted">No parts have been published yet.</p>
+        </div>
+      )}
+
+      <div className="mainList">
+        {parts.map((p, i) => {
+          const img = coverUrlFromPath(p.cover_path);
+          return (
+            <Link key={p.id} to={postPath(p)} className="mainItem">
+              <div className="mainText">
+                <div className="muted" style={{ fontSize: 12 }}>
+                  Part {i + 1}
+                </div>
+                <div className="mainTitle">{p.title}</div>
+                {p.excerpt && <div className="mainDeck muted">{p.excerpt}</div>}
+                <div className="mainMeta muted">
+                  {new Date(p.published_at ?? p.created_at).toLocaleString()}
+                </div>
+              </div>
+
+              {img && (
+                <div className="mainThumb">
+                  <img src={img} alt={p.title} loading="lazy" />
+                </div>
+              )}
+            </Link>
+          );
+        })}
+      </div>
+
+      <div className="row">
+        <Link className="btn ghost" to="/">
+          ← Back
+        </Link>
+        {parts[0] && (
+          <Link className="btn" to={postPath(parts[0])}>
+            Start reading
+          </Link>
+        )}
+      </div>
+    </section>
+  );
+}
@@ -0,0 +1,106 @@
+import { useEffect, useState } from "react";
+import { Link, useParams } from "react-router-dom";
+import { loadPostsByTag, postPath, type PostRow } from "../lib/posts";
+import { supabase } from "../lib/supabase";
+
+function coverUrlFromPath(path: string | null) {
+  if (!path) return null;
+  return supabase.storage.from("loopblogimages").getPublicUrl(path).data
+    .publicUrl;
+}
+
+function bodyPreview(p: PostRow, n = 160) {
+  const raw = p.excerpt ?? p.body_preview ?? p.body_md ?? "";
+  const clean = raw.replace(/\s+/g, " ").trim();
+  if (!clean) return "";
+  return clean.length > n ? clean.slice(0, n) + "…" : clean;
+}
+
+export default function Tag() {
+  const { tag = "" } = useParams<{ tag: string }>();
+
+  const [posts, setPosts] = useState<PostRow[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    let alive = true;
+
+    (async () => {
+      try {
+        setLoading(true);
+        setError(null);
+        const rows = await loadPostsByTag(tag);
+        if (alive) setPosts(rows);
+      } catch (e) {
+        console.error(e);
+        if (alive) {
+          setError(e instanceof Error ? e.message : "Failed to load posts");
+          setPosts([]);
+        }
+      } finally {
+        if (alive) setLoading(false);
+      }
+    })();
+
+    return () => {
+      alive = false;
+    };
+  }, [tag]);
+
+  return (
+    <section className="stack">
+      <div className="sectionTitle">
+        <h2>#{tag}</h2>
+        <span className="muted">
+          {loading ? "Loading…" : `${posts.length} posts`}
+        </span>
+      </div>
+
+      {error && <div className="error">Error: {error}</div>}
+
+      {!loading && !error && posts.length === 0 && (
+        <div className="card">
+          <p className="muted">No published posts are tagged #{tag}.</p>
+        </div>
+      )}
+
+      <div className="mainList">
+        {posts.map((p) => {
+          const img = coverUrlFromPath(p.cover_path);
+          return (
+            <Link key={p.id} to={postPath(p)} className="mainItem">
+              <div className="mainText">
+                <div className="mainTitle">{p.title}</div>
+                <div className="mainDeck muted">{bodyPreview(p)}</div>
+                <div className="mainMeta muted">
+                  {new Date(p.published_at ?? p.created_at).toLocaleString()}
+                </div>
+              </div>
+
+              {img && (
+                <div className="mainThumb">
+                  <img src={img} alt={p.title} loading="lazy" />
+                </div>
+              )}
+            </Link>
+          );
+        })}
+      </div>
+
+      <div className="row">
+        <Link className="btn ghost" to="/">
+          ← Back
+        </Link>
+        {/* generated at build time by plugins/feeds.ts */}
+        <a
+          className="btn ghost"
+          href={`${import.meta.env.BASE_URL}feeds/tags/${encodeURIComponent(tag)}.xml`}
+          type="application/rss+xml"
+        >
+          RSS for #{tag}
+        </a>
+      </div>
+    </section>
+  );
+}
@@ -1,41 +1,251 @@
-import { useMemo, useState } from "react";
+import { useEffect, useMemo, useRef, useState } from "react";
 import { useNavigate } from "react-router-dom";
-import { addPost } from "../lib/posts";
-import { uploadBlogImage } from "../lib/uploadImage";
+import {
+  parseTags,
+  postPath,
+  slugify,
+  uniqueSlug,
+  type PostStatus,
+} from "../lib/posts";
+import {
+  createPostWithImages,
+  createUploadSession,
+  discardUploadSession,
+} from "../lib/createPost";
+import { formatBytes, removeIfUnused } from "../lib/media";
+import { inlineImagePaths } from "../lib/markdown";
+import { publicUrlFromPath, thumbUrlFromPath, type FocalPoint } from "../lib/images";
+import {
+  clearLocalDraft,
+  loadDraftImages,
+  readLocalDraft,
+  storeDraftImage,
+  writeLocalDraft,
+  type LocalDraft,
+} from "../lib/localDraft";
+import { canPublish, useRole } from "../lib/roles";
+import { indexPostForRelated } from "../lib/related";
+import PostPreview from "../components/post/PostPreview";
+import CategoryPicker from "../components/post/CategoryPicker";
+import MediaPicker from "../components/media/MediaPicker";
+import BodyEditor from "../components/post/BodyEditor";
+import CoverCropper, { type CoverCropResult } from "../components/post/CoverCropper";
+
+const AUTOSAVE_MS = 5000;
 
 type PendingImage = { file: File; previewUrl: string };
 
-function slugify(input: string) {
-  return input
-    .toLowerCase()
-    .trim()
-    .replace(/['"]/g, "")
-    .replace(/[^a-z0-9]+/g, "-")
-    .replace(/(^-|-$)+/g, "")
-    .slice(0, 80);
-}
+// Crop/focal point for the cover image it was made for (`key`)
+type CoverEdit = { key: string; file: File | null; previewUrl: string | null; focal: FocalPoint };
 
 export default function Write() {
   const nav = useNavigate();
+  // authors can't publish directly; their posts go to an editor first
+  const { role } = useRole();
 
   const [title, setTitle] = useState("");
   const [excerpt, setExcerpt] = useState("");
   const [body, setBody] = useState("");
   const [tagsRaw, setTagsRaw] = useState("looping, guitar");
+  const [categoryId, setCategoryId] = useState<string | null>(null);
   const [pending, setPending] = useState<PendingImage[]>([]);
+  // already in the bucket (picked from the media library), not re-uploaded
+  const [libraryPaths, setLibraryPaths] = useState<string[]>([]);
+  const [pickerOpen, setPickerOpen] = useState(false);
+  // previewUrl of a pending image or a library path; unset = first image
+  const [coverChoice, setCoverChoice] = useState<string | null>(null);
+  const [coverEdit, setCoverEdit] = useState<CoverEdit | null>(null);
+  const [cropping, setCropping] = useState(false);
   const [saving, setSaving] = useState(false);
+  const [savingAs, setSavingAs] = useState<PostStatus>("published");
   const [err, setErr] = useState<string | null>(null);
   const [stage, setStage] = useState<string | null>(null);
-  const [step, setStep] = useState(0);
-  const [totalSteps, setTotalSteps] = useState(0);
+  // upload progress in bytes, across all images
+  const [progress, setProgress] = useState<{ sent: number; total: number } | null>(null);
+
+  const tags = useMemo(() => parseTags(tagsRaw), [tagsRaw]);
+
+  // Without a (still present) choice, the first upload, else the first library image
+  const chosenLibrary = libraryPaths.find((p) => p === coverChoice) ?? null;
+  const coverPending = chosenLibrary
+    ? undefined
+    : pending.find((p) => p.previewUrl === coverChoice) ?? pending[0];
+  const coverLibrary = coverPending ? null : chosenLibrary ?? libraryPaths[0] ?? null;
+  const coverKey = coverPending?.previewUrl ?? coverLibrary;
+  const cover = coverEdit && coverEdit.key === coverKey ? coverEdit : null;
+  const coverSrc = coverPending?.previewUrl ?? publicUrlFromPath(coverLibrary);
+
+  // Unsaved draft left behind by a refresh/crash (asked about once on mount)
+  const [restoreOffer, setRestoreOffer] = useState<LocalDraft | null>(() =>
+    readLocalDraft()
+  );
+  const [autosavedAt, setAutosavedAt] = useState<string | null>(null);
+
+  // File -> IndexedDB key, so each image blob is only stored once
+  const draftIds = useRef(new Map<File, string>());
+  const lastSig = useRef("");
+  const finished = useRef(false);
+  // uploads finished by a failed save, reused by the next one
+  const uploads = useRef(createUploadSession());
+  // images uploaded into the body (posts/inline); not tied to a post until it's saved
+  const inlineUploads = useRef(new Set<string>());
+  const coverFile = coverPending?.file ?? null;
+  const latest = useRef({ title, excerpt, body, tagsRaw, categoryId, pending, libraryPaths, coverFile, coverLibrary, cover });
+
+  useEffect(() => {
+    latest.current = { title, excerpt, body, tagsRaw, categoryId, pending, libraryPaths, coverFile, coverLibrary, cover };
+  }, [title, excerpt, body, tagsRaw, categoryId, pending, libraryPaths, coverFile, coverLibrary, cover]);
+
+  // Leaving with a half-finished save: don't strand its uploads (body
+  // images still in the text stay, the autosaved draft points at them)
+  useEffect(() => {
+    const session = uploads.current;
+    const inline = inlineUploads.current;
+    const state = latest;
+    return () => {
+      discardUploadSession(session).catch((e) => console.error(e));
+      const kept = new Set(inlineImagePaths(state.current.body));
+      const dropped = Array.from(inline).filter((p) => !kept.has(p));
+      if (dropped.length) removeIfUnused(dropped).catch((e) => console.error(e));
+    };
+  }, []);
+
+  // Periodic autosave, plus a last one when the tab is hidden or closed
+  // (paused while a save runs; the form is locked while the restore prompt shows)
+  useEffect(() => {
+    if (restoreOffer || saving) return;
+
+    const flush = async () => {
+      const s = latest.current;
+      const crop = s.cover ? `${s.cover.focal.x},${s.cover.focal.y},${s.cover.previewUrl ?? ""}` : "";
+      const sig = [
+        s.title, s.excerpt, s.body, s.tagsRaw, s.categoryId ?? "",
+        ...s.pending.map((p) => p.previewUrl), ...s.libraryPaths,
+        String(s.pending.findIndex((p) => p.file === s.coverFile)), s.coverLibrary ?? "", crop,
+      ].join("\u0000");
+      if (sig === lastSig.current || finished.current) return;
+
+      const isEmpty =
+        !s.title.trim() && !s.excerpt.trim() && !s.body.trim() && !s.pending.length && !s.libraryPaths.length;
+      lastSig.current = sig;
+
+      try {
+        if (isEmpty) {
+          await clearLocalDraft();
+          draftIds.current.clear();
+          setAutosavedAt(null);
+          return;
+        }
+
+        const idOf = async (file: File) => {
+          let id = draftIds.current.get(file);
+          if (!id) {
+            id = await storeDraftImage(file);
+            draftIds.current.set(file, id);
+          }
+          return id;
+        };
+
+        const imageIds: string[] = [];
+        for (const p of s.pending) imageIds.push(await idOf(p.file));
+        const coverCropId = s.cover?.file ? await idOf(s.cover.file) : null;
+        if (finished.current) return;
+
+        const savedAt = new Date().toISOString();
+        await writeLocalDraft({
+          title: s.title,
+          excerpt: s.excerpt,
+          body: s.body,
+          tagsRaw: s.tagsRaw,
+          categoryId: s.categoryId,
+          imageIds,
+          libraryPaths: s.libraryPaths,
+          coverImageId: s.coverFile ? draftIds.current.get(s.coverFile) ?? null : null,
+          coverLibraryPath: s.coverFile ? null : s.coverLibrary,
+          coverFocal: s.cover?.focal ?? null,
+          coverCropId,
+          savedAt,
+        });
+        setAutosavedAt(savedAt);
+      } catch (e) {
+        // autosave is best-effort; try again next tick
+        console.error(e);
+        lastSig.current = "";
+      }
+    };
+
+    const onHide = () => {
+      if (document.visibilityState === "hidden") void flush();
+    };
+
+    const t = window.setInterval(flush, AUTOSAVE_MS);
+    window.addEventListener("pagehide", flush);
+    document.addEventListener("visibilitychange", onHide);
+
+    return () => {
+      window.clearInterval(t);
+      window.removeEventListener("pagehide", flush);
+      document.removeEventListener("visibilitychange", onHide);
+    };
+  }, [restoreOffer, saving]);
+
+  async function restoreDraft() {
+    const d = restoreOffer;
+    setRestoreOffer(null);
+    if (!d) return;
+
+    setTitle(d.title);
+    setExcerpt(d.excerpt);
+    setBody(d.body);
+    setTagsRaw(d.tagsRaw);
+    setCategoryId(d.categoryId);
+    setLibraryPaths(d.libraryPaths);
+    if (d.coverLibraryPath) setCoverChoice(d.coverLibraryPath);
 
-  const tags = useMemo(() => {
-    return tagsRaw
-      .split(",")
-      .map((t) => t.trim().replace(/^#/, ""))
-      .filter(Boolean)
-      .slice(0, 12);
-  }, [tagsRaw]);
+    try {
+      const images = await loadDraftImages(d.imageIds);
+      const urls = new Map<string, string>();
+      const restored = images.map(({ id, file }) => {
+        draftIds.current.set(file, id);
+        const previewUrl = URL.createObjectURL(file);
+        urls.set(id, previewUrl);
+        return { file, previewUrl };
+      });
+      setPending((p) => [...restored, ...p].slice(0, 12));
+
+      const chosen = (d.coverImageId && urls.get(d.coverImageId)) || null;
+      if (chosen) setCoverChoice(chosen);
+
+      // the crop goes back on the cover it was made for, if that came back
+      const key = d.coverImageId ? chosen : d.coverLibraryPath;
+      if (d.coverFocal && key) {
+        const [crop] = d.coverCropId ? await loadDraftImages([d.coverCropId]) : [];
+        // a focal point set on a crop that's gone doesn't fit the original
+        if (crop || !d.coverCropId) {
+          if (crop) draftIds.current.set(crop.file, crop.id);
+          setCoverEdit({
+            key,
+            file: crop?.file ?? null,
+            previewUrl: crop ? URL.createObjectURL(crop.file) : null,
+            focal: d.coverFocal,
+          });
+        }
+      }
+    } catch (e) {
+      console.error(e);
+      setErr("Draft text restored, but its images could not be loaded.");
+    }
+  }
+
+  async function discardDraft() {
+    const d = restoreOffer;
+    setRestoreOffer(null);
+    await clearLocalDraft();
+
+    // the draft's body images were never saved with a post
+    const inline = inlineImagePaths(d?.body ?? "").filter((p) => p.startsWith("posts/inline/"));
+    if (inline.length) removeIfUnused(inline).catch((e) => console.error(e));
+  }
 
   function onPickFiles(files: FileList | null) {
     if (!files) return;
@@ -56,6 +266,22 @@ export default function Write() {
     });
   }
 
+  function chooseCover(key: string) {
+    setCoverChoice(key);
+    // a crop belongs to the image it was made from
+    if (coverEdit && coverEdit.key !== key) {
+      if (coverEdit.previewUrl) URL.revokeObjectURL(coverEdit.previewUrl);
+      setCoverEdit(null);
+    }
+  }
+
+  function onCropped({ file, focal }: CoverCropResult) {
+    if (!coverKey) return;
+    if (coverEdit?.previewUrl) URL.revokeObjectURL(coverEdit.previewUrl);
+    setCoverEdit({ key: coverKey, file, previewUrl: file ? URL.createObjectURL(file) : null, focal });
+    setCropping(false);
+  }
+
   function prettyError(e: any) {
     const msg = e?.message || String(e);
 
@@ -69,16 +295,15 @@ export default function Write() {
       return "A required database field is missing. This usually means your insert payload doesn’t match your table columns.";
     }
     if (e?.status === 413 || msg.toLowerCase().includes("payload too large")) {
-      return "Image is too large. Try a smaller image or compress it before uploading.";
+      return "Image is still too large after resizing. Try a smaller image.";
     }
     return msg;
   }
 
-  async function onSave() {
+  async function onSave(status: PostStatus) {
     setErr(null);
     setStage(null);
-    setStep(0);
-    setTotalSteps(0);
+    setProgress(null);
 
     const cleanTitle = title.trim();
     const cleanBody = body.trim();
@@ -88,69 +313,75 @@ export default function Write() {
     if (!cleanBody) return setErr("Body is required.");
 
     setSaving(true);
+    setSavingAs(status);
     try {
-      const slug = slugify(cleanTitle) || `post-${Date.now()}`;
-
-      // We upload ALL images to "posts/".
-      // The first image also becomes cover_path in "covers/" (optional).
-      const hasImages = pending.length > 0;
-
-      const steps = (hasImages ? pending.length : 0) + (hasImages ? 1 : 0) + 1;
-      // upload N images to posts/  + upload cover (1) + insert post (1)
-      setTotalSteps(steps);
-
-      // 1) Upload cover (optional)
-      let cover_path: string | null = null;
-      let currentStep = 0;
+      // Pick a free slug up front ("my-post", "my-post-2", …)
+      const slug = await uniqueSlug(slugify(cleanTitle) || `post-${Date.now()}`);
+
+      // All images go to "posts/"; the cover (cropped, if it was) is also
+      // uploaded to "covers/", unless it's an untouched library image
+      // (files are resized/re-encoded on the way up, see lib/imagePipeline)
+      const created = await createPostWithImages(
+        {
+          title: cleanTitle,
+          slug,
+          excerpt: cleanExcerpt || null,
+          body_md: cleanBody,
+          coverPath: coverLibrary,
+          cover_focus: cover?.focal ?? null,
+          imagePaths: libraryPaths,
+          tags,
+          category_id: categoryId,
+          status,
+        },
+        { cover: cover?.file ?? coverPending?.file ?? null, images: pending.map((p) => p.file) },
+        uploads.current,
+        (p) => {
+          setStage(p.stage);
+          setProgress(p.total ? { sent: p.sent, total: p.total } : null);
+        }
+      );
 
-      if (hasImages) {
-        setStage("Uploading cover image…");
-        setStep(++currentStep);
-        const coverUploaded = await uploadBlogImage(pending[0].file, "covers");
-        cover_path = coverUploaded.path;
+      // Stale recommendations aren't worth failing the save over
+      try {
+        await indexPostForRelated(created);
+      } catch (e) {
+        console.error(e);
       }
 
-      // 2) Upload all images
-      const image_paths: string[] = [];
-      if (hasImages) {
-        for (let i = 0; i < pending.length; i++) {
-          setStage(`Uploading image ${i + 1} of ${pending.length}…`);
-          setStep(++currentStep);
-          const uploaded = await uploadBlogImage(pending[i].file, "posts");
-          image_paths.push(uploaded.path);
-        }
-      }
+      finished.current = true;
+      await clearLocalDraft();
+      draftIds.current.clear();
 
-      // 3) Insert post
-      setStage("Saving post to Supabase…");
-      setStep(++currentStep);
-
-      const created = await addPost({
-        title: cleanTitle,
-        slug,
-        excerpt: cleanExcerpt || null,
-        body_md: cleanBody,
-        cover_path,
-        image_paths,
-        status: "published",
-      });
+      // body images that were taken out of the text again before saving
+      const kept = new Set(inlineImagePaths(cleanBody));
+      const dropped = Array.from(inlineUploads.current).filter((p) => !kept.has(p));
+      inlineUploads.current.clear();
+      if (dropped.length) removeIfUnused(dropped).catch((e) => console.error(e));
 
       pending.forEach((p) => URL.revokeObjectURL(p.previewUrl));
+      if (coverEdit?.previewUrl) URL.revokeObjectURL(coverEdit.previewUrl);
       setPending([]);
+      setLibraryPaths([]);
+      setCoverEdit(null);
 
       setStage(null);
-      nav(`/post/${created.id}`);
+      nav(status === "published" ? postPath(created) : `/edit/${created.id}`);
     } catch (e: any) {
       console.error(e);
       const rawMsg = e?.message ?? "";
       if (rawMsg.includes("posts_slug_key")) {
+        // lost a race with another post taking the same slug
         setErr(
           "A post with this slug already exists. Change the title and try again."
         );
+      } else if (uploads.current.done.size) {
+        setErr(`${prettyError(e)} Finished uploads are kept; save again to continue.`);
       } else {
         setErr(prettyError(e));
       }
       setStage(null);
+      setProgress(null);
     } finally {
       setSaving(false);
     }
@@ -161,109 +392,250 @@ export default function Write() {
       <div className="sectionTitle">
         <h2>Write a Post</h2>
         <span className="muted">
-          Saving to Supabase • Tags (UI only):{" "}
+          Saving to Supabase • Tags:{" "}
           {tags.length ? tags.join(", ") : "none"}
+          {autosavedAt &&
+            ` • Draft autosaved ${new Date(autosavedAt).toLocaleTimeString()}`}
         </span>
       </div>
 
-      <div className="card stack">
-        <label className="field">
-          <span>Title</span>
-          <input
-            value={title}
-            onChange={(e) => setTitle(e.target.value)}
-            placeholder="Post title..."
-          />
-        </label>
-
-        <label className="field">
-          <span>Excerpt (optional)</span>
-          <input
-            value={excerpt}
-            onChange={(e) => setExcerpt(e.target.value)}
-            placeholder="Short summary that shows on Home..."
-          />
-        </label>
-
-        <label className="field">
-          <span>Tags (comma-separated) — UI only</span>
-          <input
-            value={tagsRaw}
-            onChange={(e) => setTagsRaw(e.target.value)}
-            placeholder="looping, busking, pedals"
-          />
-        </label>
-
-        <label className="field">
-          <span>Body (Markdown)</span>
-          <textarea
-            value={body}
-            onChange={(e) => setBody(e.target.value)}
-            placeholder="Write your post..."
-            rows={10}
-          />
-        </label>
-
-        <div className="field">
-          <span>Images (optional)</span>
-          <div className="dropzone">
+      {restoreOffer && (
+        <div className="card stack">
+          <div>
+            <strong>Restore unsaved draft?</strong>
+            <div className="muted">
+              “{restoreOffer.title.trim() || "Untitled"}” — autosaved{" "}
+              {new Date(restoreOffer.savedAt).toLocaleString()}
+              {restoreOffer.imageIds.length > 0 &&
+                ` • ${restoreOffer.imageIds.length} image(s)`}
+            </div>
+          </div>
+          <div className="row">
+            <button className="btn" onClick={restoreDraft} type="button">
+              Restore
+            </button>
+            <button className="btn ghost" onClick={discardDraft} type="button">
+              Discard
+            </button>
+          </div>
+        </div>
+      )}
+
+      {/* answer the restore prompt first, so nothing typed meanwhile goes unsaved */}
+      <div className="editorSplit" inert={!!restoreOffer} style={{ opacity: restoreOffer ? 0.5 : 1 }}>
+        <div className="card stack">
+          <label className="field">
+            <span>Title</span>
+            <input
+              value={title}
+              onChange={(e) => setTitle(e.target.value)}
+              placeholder="Post title..."
+            />
+          </label>
+
+          <label className="field">
+            <span>Excerpt (optional)</span>
+            <input
+              value={excerpt}
+              onChange={(e) => setExcerpt(e.target.value)}
+              placeholder="Short summary that shows on Home..."
+            />
+          </label>
+
+          <label className="field">
+            <span>Tags (comma-separated)</span>
             <input
-              type="file"
-              accept="image/*"
-              multiple
-              onChange={(e) => onPickFiles(e.target.files)}
+              value={tagsRaw}
+              onChange={(e) => setTagsRaw(e.target.value)}
+              placeholder="looping, busking, pedals"
+            />
+          </label>
+
+          <CategoryPicker value={categoryId} onChange={setCategoryId} />
+
+          <div className="field">
+            <label htmlFor="write-body">Body (Markdown)</label>
+            <BodyEditor
+              id="write-body"
+              value={body}
+              onChange={setBody}
+              folder="posts/inline"
+              onUploaded={(path) => inlineUploads.current.add(path)}
+              placeholder="Write your post..."
+              rows={10}
             />
-            <p className="muted">
-              Pick up to 12 images. First becomes the cover.
-            </p>
           </div>
 
-          {pending.length > 0 && (
-            <div className="thumbGrid">
-              {pending.map((p, i) => (
-                <div key={p.previewUrl} className="thumb">
-                  <img src={p.previewUrl} alt={`upload-${i}`} />
-                  <button
-                    className="xBtn"
-                    onClick={() => removePending(i)}
-                    aria-label="Remove image"
-                    type="button"
-                  >
-                    ✕
-                  </button>
-                </div>
-              ))}
+          <div className="field">
+            <span>Images (optional)</span>
+            <div className="dropzone">
+              <input
+                type="file"
+                accept="image/*"
+                multiple
+                onChange={(e) => onPickFiles(e.target.files)}
+              />
+              <p className="muted">
+                Pick up to 12 images, then choose the cover (the first one unless you pick
+                another). Large photos are resized and location data is removed before upload.
+              </p>
+              <button className="btn ghost" type="button" onClick={() => setPickerOpen(true)}>
+                Choose from library
+              </button>
             </div>
-          )}
-        </div>
 
-        {stage && (
-          <div className="card">
-            <div className="muted">{stage}</div>
-            {totalSteps > 0 && (
-              <div className="muted">
-                Step {step} of {totalSteps}
+            {libraryPaths.length > 0 && (
+              <div className="thumbGrid">
+                {libraryPaths.map((path) => (
+                  <div key={path} className="thumb">
+                    <img src={thumbUrlFromPath(path) ?? ""} alt="From library" />
+                    <button
+                      className="coverBtn"
+                      onClick={() => chooseCover(path)}
+                      aria-pressed={path === coverKey}
+                      type="button"
+                    >
+                      {path === coverKey ? "Cover" : "Make cover"}
+                    </button>
+                    <button
+                      className="xBtn"
+                      onClick={() => setLibraryPaths((p) => p.filter((x) => x !== path))}
+                      aria-label="Remove image"
+                      type="button"
+                    >
+                      ✕
+                    </button>
+                  </div>
+                ))}
+              </div>
+            )}
+
+            {pending.length > 0 && (
+              <div className="thumbGrid">
+                {pending.map((p, i) => (
+                  <div key={p.previewUrl} className="thumb">
+                    <img src={p.previewUrl} alt={`upload-${i}`} />
+                    <button
+                      className="coverBtn"
+                      onClick={() => chooseCover(p.previewUrl)}
+                      aria-pressed={p.previewUrl === coverKey}
+                      type="button"
+                    >
+                      {p.previewUrl === coverKey ? "Cover" : "Make cover"}
+                    </button>
+                    <button
+                      className="xBtn"
+                      onClick={() => removePending(i)}
+                      aria-label="Remove image"
+                      type="button"
+                    >
+                      ✕
+                    </button>
+                  </div>
+                ))}
               </div>
             )}
           </div>
-        )}
-
-        {err && <div className="error">{err}</div>}
-
-        <div className="row">
-          <button
-            className="btn"
-            onClick={onSave}
-            disabled={saving}
-            type="button"
-          >
-            {saving ? "Publishing..." : "Publish"}
-          </button>
-          <button className="btn ghost" onClick={() => nav("/")} type="button">
-            Cancel
-          </button>
+
+          {coverSrc && (
+            <div className="row" style={{ alignItems: "center" }}>
+              <div className="thumb" style={{ width: 120, height: 68, flex: "none" }}>
+                <img
+                  src={cover?.previewUrl ?? coverSrc}
+                  alt="Cover"
+                  style={{ objectPosition: cover ? `${cover.focal.x * 100}% ${cover.focal.y * 100}%` : undefined }}
+                />
+              </div>
+              <div className="stack" style={{ gap: 4 }}>
+                <span className="muted">
+                  Cover{cover?.file ? " (cropped)" : ""}
+                  {cover ? " • focal point set" : ""}
+                </span>
+                <button className="btn ghost" type="button" onClick={() => setCropping(true)} disabled={saving}>
+                  Crop / focal point
+                </button>
+              </div>
+            </div>
+          )}
+
+          {stage && (
+            <div className="card">
+              <div className="muted">{stage}</div>
+              {progress && (
+                <>
+                  <progress value={progress.sent} max={progress.total} style={{ width: "100%" }} />
+                  <div className="muted">
+                    {formatBytes(progress.sent)} of {formatBytes(progress.total)}
+                  </div>
+                </>
+              )}
+            </div>
+          )}
+
+          {err && <div className="error">{err}</div>}
+
+          <div className="row">
+            {canPublish(role) ? (
+              <button
+                className="btn"
+                onClick={() => onSave("published")}
+                disabled={saving}
+                type="button"
+              >
+                {saving && savingAs === "published" ? "Publishing..." : "Publish"}
+              </button>
+            ) : (
+              <button
+                className="btn"
+                onClick={() => onSave("in_review")}
+                disabled={saving || !role}
+                type="button"
+              >
+                {saving && savingAs === "in_review" ? "Submitting..." : "Submit for review"}
+              </button>
+            )}
+            <button
+              className="btn ghost"
+              onClick={() => onSave("draft")}
+              disabled={saving}
+              type="button"
+            >
+              {saving && savingAs === "draft" ? "Saving..." : "Save as draft"}
+            </button>
+            <button className="btn ghost" onClick={() => nav("/")} type="button">
+              Cancel
+            </button>
+          </div>
         </div>
+
+        <PostPreview
+          title={title}
+          excerpt={excerpt}
+          body={body}
+          tags={tags}
+          coverUrl={cover?.previewUrl ?? coverSrc}
+          imageUrls={[
+            ...libraryPaths.map((p) => publicUrlFromPath(p) ?? ""),
+            ...pending.map((p) => p.previewUrl),
+          ]}
+        />
       </div>
+
+      {cropping && coverSrc && (
+        <CoverCropper
+          src={coverSrc}
+          name={coverPending?.file.name ?? coverLibrary?.split("/").pop()}
+          initialFocal={cover?.file ? null : cover?.focal}
+          onClose={() => setCropping(false)}
+          onDone={onCropped}
+        />
+      )}
+
+      <MediaPicker
+        open={pickerOpen}
+        onClose={() => setPickerOpen(false)}
+        onPick={(path) => setLibraryPaths((p) => (p.includes(path) ? p : [...p, path]))}
+      />
     </section>
   );
 }
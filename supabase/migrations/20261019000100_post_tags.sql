@@ -0,0 +1,5 @@
+-- Tags stored with each post (lowercase, without the leading "#").
+alter table public.posts
+  add column if not exists tags text[] not null default '{}';
+
+create index if not exists posts_tags_idx on public.posts using gin (tags);
@@ -0,0 +1,22 @@
+-- "scheduled" posts: published, but published_at is in the future.
+alter table public.posts drop constraint if exists posts_status_check;
+alter table public.posts
+  add constraint posts_status_check
+  check (status in ('draft', 'scheduled', 'published'));
+
+-- Older published rows may have no publish time; the policy and the list
+-- queries below need one, so give them their creation time.
+update public.posts
+  set published_at = coalesce(published_at, created_at)
+  where status = 'published' and published_at is null;
+
+-- Anonymous readers only see posts whose publish time has passed.
+drop policy if exists "Public can read published posts" on public.posts;
+create policy "Public can read published posts"
+  on public.posts for select
+  to anon
+  using (
+    status in ('published', 'scheduled')
+    and published_at is not null
+    and published_at <= now()
+  );
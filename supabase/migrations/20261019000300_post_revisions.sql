@@ -0,0 +1,32 @@
+-- Snapshot of a post taken on every save in EditPost (append-only).
+create table if not exists public.post_revisions (
+  id uuid primary key default gen_random_uuid(),
+  post_id uuid not null references public.posts (id) on delete cascade,
+  title text not null,
+  excerpt text,
+  body text,
+  cover_path text,
+  image_paths text[] not null default '{}',
+  status text not null,
+  author_id uuid references auth.users (id),
+  -- set when this revision was created by restoring an older one
+  restored_from uuid references public.post_revisions (id) on delete set null,
+  created_at timestamptz not null default now()
+);
+
+create index if not exists post_revisions_post_id_idx
+  on public.post_revisions (post_id, created_at desc);
+
+alter table public.post_revisions enable row level security;
+
+drop policy if exists "Authenticated can read revisions" on public.post_revisions;
+create policy "Authenticated can read revisions"
+  on public.post_revisions for select
+  to authenticated
+  using (true);
+
+drop policy if exists "Authenticated can add revisions" on public.post_revisions;
+create policy "Authenticated can add revisions"
+  on public.post_revisions for insert
+  to authenticated
+  with check (author_id = auth.uid());
@@ -0,0 +1,39 @@
+-- Old slugs keep working after a rename: /post/<old-slug> redirects to the current one.
+create table if not exists public.post_slug_redirects (
+  old_slug text primary key,
+  post_id uuid not null references public.posts (id) on delete cascade,
+  created_at timestamptz not null default now()
+);
+
+alter table public.post_slug_redirects enable row level security;
+
+drop policy if exists "Anyone can read slug redirects" on public.post_slug_redirects;
+create policy "Anyone can read slug redirects"
+  on public.post_slug_redirects for select
+  using (true);
+
+create or replace function public.record_post_slug_change()
+returns trigger
+language plpgsql
+security definer
+set search_path = public
+as $$
+begin
+  if old.slug is not null and old.slug is distinct from new.slug then
+    insert into public.post_slug_redirects (old_slug, post_id)
+    values (old.slug, new.id)
+    on conflict (old_slug) do update
+      set post_id = excluded.post_id, created_at = now();
+  end if;
+
+  -- a slug in use by a post must never be shadowed by a redirect
+  delete from public.post_slug_redirects where old_slug = new.slug;
+
+  return new;
+end;
+$$;
+
+drop trigger if exists posts_slug_redirect on public.posts;
+create trigger posts_slug_redirect
+  after update of slug on public.posts
+  for each row execute function public.record_post_slug_change();
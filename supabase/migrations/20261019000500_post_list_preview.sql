@@ -0,0 +1,16 @@
+-- Computed column for list queries: cards need a short preview, not the full body.
+-- Select it like a column: .select("id,title,body_preview,...")
+create or replace function public.body_preview(p public.posts)
+returns text
+language sql
+stable
+as $$
+  select left(
+    regexp_replace(coalesce(nullif(p.body_md, ''), p.body, ''), '\s+', ' ', 'g'),
+    400
+  );
+$$;
+
+-- Cursor pagination walks (published_at desc, id desc)
+create index if not exists posts_published_at_id_idx
+  on public.posts (published_at desc, id desc);
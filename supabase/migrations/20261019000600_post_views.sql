@@ -0,0 +1,97 @@
+-- One row per counted view. A visitor (random id kept in their localStorage)
+-- counts at most once per post per 6 hours.
+create table if not exists public.post_views (
+  id bigint generated always as identity primary key,
+  post_id uuid not null references public.posts (id) on delete cascade,
+  visitor_id text not null,
+  viewed_at timestamptz not null default now()
+);
+
+create index if not exists post_views_dedupe_idx
+  on public.post_views (post_id, visitor_id, viewed_at desc);
+create index if not exists post_views_viewed_at_idx
+  on public.post_views (viewed_at);
+
+-- No direct table access; everything goes through the functions below.
+alter table public.post_views enable row level security;
+
+create or replace function public.record_post_view(p_post_id uuid, p_visitor_id text)
+returns boolean
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  -- stored truncated, so compare truncated too
+  v_visitor text := left(coalesce(trim(p_visitor_id), ''), 64);
+begin
+  if v_visitor = '' then
+    return false;
+  end if;
+
+  -- drafts and not-yet-due posts don't collect views
+  if not exists (
+    select 1 from public.posts
+    where id = p_post_id
+      and status in ('published', 'scheduled')
+      and published_at <= now()
+  ) then
+    return false;
+  end if;
+
+  if exists (
+    select 1 from public.post_views
+    where post_id = p_post_id
+      and visitor_id = v_visitor
+      and viewed_at > now() - interval '6 hours'
+  ) then
+    return false;
+  end if;
+
+  insert into public.post_views (post_id, visitor_id)
+  values (p_post_id, v_visitor);
+  return true;
+end;
+$$;
+
+-- Live posts ranked by views since p_since (null = all time).
+create or replace function public.most_read_posts(p_since timestamptz default null, p_limit int default 8)
+returns table (id uuid, slug text, title text, views bigint)
+language sql
+stable
+security definer
+set search_path = public
+as $$
+  select p.id, p.slug, p.title, count(v.id) as views
+  from public.posts p
+  join public.post_views v on v.post_id = p.id
+  where p.status in ('published', 'scheduled')
+    and p.published_at <= now()
+    and (p_since is null or v.viewed_at >= p_since)
+  group by p.id
+  order by views desc, p.published_at desc
+  limit least(greatest(p_limit, 1), 50);
+$$;
+
+-- Views per day for one post over the last p_days days (zero-filled).
+create or replace function public.post_views_daily(p_post_id uuid, p_days int default 30)
+returns table (day date, views bigint)
+language sql
+stable
+security definer
+set search_path = public
+as $$
+  select d::date as day, count(v.id) as views
+  from generate_series(current_date - (least(p_days, 365) - 1), current_date, interval '1 day') d
+  left join public.post_views v
+    on v.post_id = p_post_id
+   and v.viewed_at >= d
+   and v.viewed_at < d + interval '1 day'
+  group by d
+  order by d;
+$$;
+
+revoke all on function public.post_views_daily(uuid, int) from public, anon;
+grant execute on function public.record_post_view(uuid, text) to anon, authenticated;
+grant execute on function public.most_read_posts(timestamptz, int) to anon, authenticated;
+grant execute on function public.post_views_daily(uuid, int) to authenticated;
@@ -0,0 +1,118 @@
+-- Reader comments: threaded, moderated, closable per post.
+alter table public.posts
+  add column if not exists comments_closed boolean not null default false;
+
+create table if not exists public.comments (
+  id uuid primary key default gen_random_uuid(),
+  post_id uuid not null references public.posts (id) on delete cascade,
+  parent_id uuid references public.comments (id) on delete cascade,
+  body text not null check (char_length(body) between 1 and 4000),
+  -- anonymous readers give a name; logged-in users are identified by author_id
+  author_name text check (char_length(author_name) <= 60),
+  author_id uuid references auth.users (id) on delete set null,
+  visitor_id text,
+  status text not null default 'pending'
+    check (status in ('pending', 'approved', 'rejected', 'spam')),
+  created_at timestamptz not null default now()
+);
+
+create index if not exists comments_post_idx on public.comments (post_id, created_at);
+create index if not exists comments_status_idx on public.comments (status, created_at);
+
+create table if not exists public.comment_bans (
+  id uuid primary key default gen_random_uuid(),
+  visitor_id text,
+  author_id uuid references auth.users (id) on delete cascade,
+  reason text,
+  created_at timestamptz not null default now(),
+  check (visitor_id is not null or author_id is not null)
+);
+
+alter table public.comments enable row level security;
+alter table public.comment_bans enable row level security;
+
+drop policy if exists "Anyone can read approved comments" on public.comments;
+create policy "Anyone can read approved comments"
+  on public.comments for select
+  using (status = 'approved' or auth.role() = 'authenticated');
+
+drop policy if exists "Authenticated can moderate comments" on public.comments;
+create policy "Authenticated can moderate comments"
+  on public.comments for update
+  to authenticated
+  using (true)
+  with check (true);
+
+drop policy if exists "Authenticated manage bans" on public.comment_bans;
+create policy "Authenticated manage bans"
+  on public.comment_bans for all
+  to authenticated
+  using (true)
+  with check (true);
+
+-- All new comments go through here (no direct insert policy).
+create or replace function public.submit_comment(
+  p_post_id uuid,
+  p_parent_id uuid,
+  p_body text,
+  p_author_name text,
+  p_visitor_id text
+)
+returns text
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  v_status text;
+  -- stored truncated (below), so bans are matched on the same value
+  v_visitor text := left(p_visitor_id, 64);
+begin
+  if not exists (
+    select 1 from public.posts
+    where id = p_post_id
+      and status in ('published', 'scheduled')
+      and published_at <= now()
+      and not comments_closed
+  ) then
+    raise exception 'Comments are closed for this post.';
+  end if;
+
+  if exists (
+    select 1 from public.comment_bans
+    where (visitor_id is not null and visitor_id = v_visitor)
+       or (author_id is not null and author_id = auth.uid())
+  ) then
+    raise exception 'You can no longer comment on this blog.';
+  end if;
+
+  if p_parent_id is not null and not exists (
+    select 1 from public.comments
+    where id = p_parent_id and post_id = p_post_id and status = 'approved'
+  ) then
+    raise exception 'The comment you are replying to no longer exists.';
+  end if;
+
+  if auth.uid() is null and coalesce(trim(p_author_name), '') = '' then
+    raise exception 'Please enter a name.';
+  end if;
+
+  -- logged-in users are trusted; everyone else waits for moderation
+  v_status := case when auth.uid() is not null then 'approved' else 'pending' end;
+
+  insert into public.comments (post_id, parent_id, body, author_name, author_id, visitor_id, status)
+  values (
+    p_post_id,
+    p_parent_id,
+    trim(p_body),
+    nullif(trim(p_author_name), ''),
+    auth.uid(),
+    v_visitor,
+    v_status
+  );
+
+  return v_status;
+end;
+$$;
+
+grant execute on function public.submit_comment(uuid, uuid, text, text, text) to anon, authenticated;
@@ -0,0 +1,366 @@
+-- Per-user roles: admin > editor > author > viewer.
+--   admin  - everything, including managing users
+--   editor - write, edit any post, moderate comments
+--   author - write, edit own posts only
+--   viewer - signed in, no access to the back office
+create table if not exists public.user_roles (
+  user_id uuid primary key references auth.users (id) on delete cascade,
+  -- copied from auth.users so Admin can list people without the service key
+  email text,
+  role text not null default 'viewer'
+    check (role in ('admin', 'editor', 'author', 'viewer')),
+  created_at timestamptz not null default now(),
+  updated_at timestamptz not null default now()
+);
+
+-- Existing accounts start at the lowest role like new ones (sign-up may
+-- have been open, so having an account proves nothing). Only the owner
+-- named in app.owner_email becomes admin, e.g. run this migration after
+--   set app.owner_email = 'me@example.com';
+-- or promote them by hand afterwards:
+--   update public.user_roles set role = 'admin' where email = 'me@example.com';
+-- From then on admins promote everyone else in Admin.
+insert into public.user_roles (user_id, email, role)
+select id, email,
+  case when lower(email) = lower(nullif(current_setting('app.owner_email', true), ''))
+       then 'admin' else 'viewer' end
+from auth.users
+on conflict (user_id) do nothing;
+
+-- New accounts start as viewers until an admin promotes them.
+create or replace function public.handle_new_user_role()
+returns trigger
+language plpgsql
+security definer
+set search_path = public
+as $$
+begin
+  insert into public.user_roles (user_id, email)
+  values (new.id, new.email)
+  on conflict (user_id) do nothing;
+  return new;
+end;
+$$;
+
+drop trigger if exists on_auth_user_created_role on auth.users;
+create trigger on_auth_user_created_role
+  after insert on auth.users
+  for each row execute function public.handle_new_user_role();
+
+create or replace function public.user_role(p_user_id uuid)
+returns text
+language sql
+stable
+security definer
+set search_path = public
+as $$
+  select coalesce((select role from public.user_roles where user_id = p_user_id), 'viewer');
+$$;
+
+create or replace function public.has_role(p_roles text[])
+returns boolean
+language sql
+stable
+security definer
+set search_path = public
+as $$
+  select auth.uid() is not null and public.user_role(auth.uid()) = any (p_roles);
+$$;
+
+alter table public.user_roles enable row level security;
+
+drop policy if exists "Users read own role, admins read all" on public.user_roles;
+create policy "Users read own role, admins read all"
+  on public.user_roles for select
+  to authenticated
+  using (user_id = auth.uid() or public.has_role(array['admin']));
+
+-- Role changes go through here (no direct update policy).
+create or replace function public.set_user_role(p_user_id uuid, p_role text)
+returns void
+language plpgsql
+security definer
+set search_path = public
+as $$
+begin
+  if not public.has_role(array['admin']) then
+    raise exception 'Only admins can change roles.';
+  end if;
+
+  if p_role not in ('admin', 'editor', 'author', 'viewer') then
+    raise exception 'Unknown role: %', p_role;
+  end if;
+
+  if p_role <> 'admin'
+    and public.user_role(p_user_id) = 'admin'
+    and (select count(*) from public.user_roles where role = 'admin') <= 1 then
+    raise exception 'The last admin can''t be demoted.';
+  end if;
+
+  update public.user_roles
+  set role = p_role, updated_at = now()
+  where user_id = p_user_id;
+end;
+$$;
+
+grant execute on function public.set_user_role(uuid, text) to authenticated;
+
+-- ---------------------------------------------------------------------------
+-- Posts: replace the old "any signed-in user" write policies.
+-- ---------------------------------------------------------------------------
+do $$
+declare
+  pol record;
+begin
+  for pol in
+    select policyname from pg_policies
+    where schemaname = 'public' and tablename = 'posts'
+      and cmd in ('INSERT', 'UPDATE', 'DELETE', 'ALL')
+  loop
+    execute format('drop policy %I on public.posts', pol.policyname);
+  end loop;
+end;
+$$;
+
+drop policy if exists "Signed-in users read live posts" on public.posts;
+create policy "Signed-in users read live posts"
+  on public.posts for select
+  to authenticated
+  using (
+    status in ('published', 'scheduled')
+    and published_at is not null
+    and published_at <= now()
+  );
+
+drop policy if exists "Staff read all posts" on public.posts;
+create policy "Staff read all posts"
+  on public.posts for select
+  to authenticated
+  using (public.has_role(array['admin', 'editor', 'author']));
+
+drop policy if exists "Staff create own posts" on public.posts;
+create policy "Staff create own posts"
+  on public.posts for insert
+  to authenticated
+  with check (
+    public.has_role(array['admin', 'editor', 'author'])
+    and author_id = auth.uid()
+  );
+
+drop policy if exists "Editors edit any post, authors their own" on public.posts;
+create policy "Editors edit any post, authors their own"
+  on public.posts for update
+  to authenticated
+  using (
+    public.has_role(array['admin', 'editor'])
+    or (public.has_role(array['author']) and author_id = auth.uid())
+  )
+  with check (
+    public.has_role(array['admin', 'editor'])
+    or (public.has_role(array['author']) and author_id = auth.uid())
+  );
+
+drop policy if exists "Editors delete any post, authors their own" on public.posts;
+create policy "Editors delete any post, authors their own"
+  on public.posts for delete
+  to authenticated
+  using (
+    public.has_role(array['admin', 'editor'])
+    or (public.has_role(array['author']) and author_id = auth.uid())
+  );
+
+-- Revisions hold unpublished drafts: staff only, authors for their own posts.
+drop policy if exists "Authenticated can read revisions" on public.post_revisions;
+drop policy if exists "Staff read revisions" on public.post_revisions;
+create policy "Staff read revisions"
+  on public.post_revisions for select
+  to authenticated
+  using (
+    public.has_role(array['admin', 'editor'])
+    or (
+      public.has_role(array['author'])
+      and exists (select 1 from public.posts p where p.id = post_id and p.author_id = auth.uid())
+    )
+  );
+
+drop policy if exists "Authenticated can add revisions" on public.post_revisions;
+drop policy if exists "Staff add revisions" on public.post_revisions;
+create policy "Staff add revisions"
+  on public.post_revisions for insert
+  to authenticated
+  with check (
+    author_id = auth.uid()
+    and (
+      public.has_role(array['admin', 'editor'])
+      or (
+        public.has_role(array['author'])
+        and exists (select 1 from public.posts p where p.id = post_id and p.author_id = auth.uid())
+      )
+    )
+  );
+
+-- Comment moderation is for editors and admins only.
+drop policy if exists "Anyone can read approved comments" on public.comments;
+create policy "Anyone can read approved comments"
+  on public.comments for select
+  using (status = 'approved' or public.has_role(array['admin', 'editor']));
+
+drop policy if exists "Authenticated can moderate comments" on public.comments;
+drop policy if exists "Editors moderate comments" on public.comments;
+create policy "Editors moderate comments"
+  on public.comments for update
+  to authenticated
+  using (public.has_role(array['admin', 'editor']))
+  with check (public.has_role(array['admin', 'editor']));
+
+drop policy if exists "Authenticated manage bans" on public.comment_bans;
+drop policy if exists "Editors manage bans" on public.comment_bans;
+create policy "Editors manage bans"
+  on public.comment_bans for all
+  to authenticated
+  using (public.has_role(array['admin', 'editor']))
+  with check (public.has_role(array['admin', 'editor']));
+
+-- visitor_id links a reader's comments, views and bans: keep it out of
+-- reach of the API. Moderators get it through the functions below.
+revoke select on public.comments from anon, authenticated;
+grant select (id, post_id, parent_id, body, author_name, author_id, status, created_at)
+  on public.comments to anon, authenticated;
+
+create or replace function public.comment_moderation_queue()
+returns table (
+  id uuid,
+  post_id uuid,
+  parent_id uuid,
+  body text,
+  author_name text,
+  author_id uuid,
+  visitor_id text,
+  status text,
+  created_at timestamptz,
+  post jsonb
+)
+language sql
+stable
+security definer
+set search_path = public
+as $$
+  select c.id, c.post_id, c.parent_id, c.body, c.author_name, c.author_id, c.visitor_id,
+         c.status, c.created_at,
+         case when p.id is null then null
+              else jsonb_build_object('id', p.id, 'slug', p.slug, 'title', p.title) end
+  from public.comments c
+  left join public.posts p on p.id = c.post_id
+  where c.status = 'pending'
+    and public.has_role(array['admin', 'editor'])
+  order by c.created_at;
+$$;
+
+-- Bans whoever wrote the comment and marks their queued comments as spam.
+create or replace function public.ban_commenter(p_comment_id uuid, p_reason text default null)
+returns void
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  c public.comments;
+begin
+  if not public.has_role(array['admin', 'editor']) then
+    raise exception 'Only editors can ban commenters.';
+  end if;
+
+  select * into c from public.comments where id = p_comment_id;
+  if not found then
+    raise exception 'That comment no longer exists.';
+  end if;
+  if c.author_id is null and c.visitor_id is null then
+    raise exception 'This comment can''t be traced back to anyone.';
+  end if;
+
+  insert into public.comment_bans (author_id, visitor_id, reason)
+  values (c.author_id, case when c.author_id is null then c.visitor_id end, p_reason);
+
+  update public.comments
+  set status = 'spam'
+  where status = 'pending'
+    and (
+      (c.author_id is not null and author_id = c.author_id)
+      or (c.author_id is null and visitor_id = c.visitor_id)
+    );
+end;
+$$;
+
+revoke all on function public.comment_moderation_queue() from public, anon;
+revoke all on function public.ban_commenter(uuid, text) from public, anon;
+grant execute on function public.comment_moderation_queue() to authenticated;
+grant execute on function public.ban_commenter(uuid, text) to authenticated;
+
+-- Only staff comments skip the queue now; signed-in viewers are moderated too.
+create or replace function public.submit_comment(
+  p_post_id uuid,
+  p_parent_id uuid,
+  p_body text,
+  p_author_name text,
+  p_visitor_id text
+)
+returns text
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  v_status text;
+  -- stored truncated (below), so bans are matched on the same value
+  v_visitor text := left(p_visitor_id, 64);
+begin
+  if not exists (
+    select 1 from public.posts
+    where id = p_post_id
+      and status in ('published', 'scheduled')
+      and published_at <= now()
+      and not comments_closed
+  ) then
+    raise exception 'Comments are closed for this post.';
+  end if;
+
+  if exists (
+    select 1 from public.comment_bans
+    where (visitor_id is not null and visitor_id = v_visitor)
+       or (author_id is not null and author_id = auth.uid())
+  ) then
+    raise exception 'You can no longer comment on this blog.';
+  end if;
+
+  if p_parent_id is not null and not exists (
+    select 1 from public.comments
+    where id = p_parent_id and post_id = p_post_id and status = 'approved'
+  ) then
+    raise exception 'The comment you are replying to no longer exists.';
+  end if;
+
+  if auth.uid() is null and coalesce(trim(p_author_name), '') = '' then
+    raise exception 'Please enter a name.';
+  end if;
+
+  v_status := case
+    when public.has_role(array['admin', 'editor', 'author']) then 'approved'
+    else 'pending'
+  end;
+
+  insert into public.comments (post_id, parent_id, body, author_name, author_id, visitor_id, status)
+  values (
+    p_post_id,
+    p_parent_id,
+    trim(p_body),
+    nullif(trim(p_author_name), ''),
+    auth.uid(),
+    v_visitor,
+    v_status
+  );
+
+  return v_status;
+end;
+$$;
+
+grant execute on function public.submit_comment(uuid, uuid, text, text, text) to anon, authenticated;
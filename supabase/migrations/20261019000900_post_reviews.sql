@@ -0,0 +1,255 @@
+-- Editorial review: authors submit drafts ("in_review"), editors and admins
+-- approve them (-> published/scheduled) or send them back (-> draft), and
+-- leave comments pinned to lines of the body along the way.
+alter table public.posts drop constraint if exists posts_status_check;
+alter table public.posts
+  add constraint posts_status_check
+  check (status in ('draft', 'in_review', 'scheduled', 'published'));
+
+-- when the post last went into review (for "waiting since" in Admin)
+alter table public.posts
+  add column if not exists submitted_at timestamptz;
+
+-- Only editors and admins can make a post go live; authors go through review.
+create or replace function public.posts_guard_status()
+returns trigger
+language plpgsql
+security definer
+set search_path = public
+as $$
+begin
+  if new.status in ('published', 'scheduled')
+    and (tg_op = 'INSERT' or old.status not in ('published', 'scheduled'))
+    and not public.has_role(array['admin', 'editor']) then
+    raise exception 'Only editors can publish. Submit the post for review instead.';
+  end if;
+
+  if new.status = 'in_review'
+    and (tg_op = 'INSERT' or old.status is distinct from 'in_review') then
+    new.submitted_at := now();
+  end if;
+
+  return new;
+end;
+$$;
+
+drop trigger if exists posts_guard_status on public.posts;
+create trigger posts_guard_status
+  before insert or update of status on public.posts
+  for each row execute function public.posts_guard_status();
+
+-- One row per decision; the newest one is the post's current verdict.
+create table if not exists public.post_reviews (
+  id uuid primary key default gen_random_uuid(),
+  post_id uuid not null references public.posts (id) on delete cascade,
+  reviewer_id uuid references auth.users (id) on delete set null,
+  decision text not null check (decision in ('approved', 'changes_requested')),
+  note text,
+  created_at timestamptz not null default now()
+);
+
+create index if not exists post_reviews_post_id_idx
+  on public.post_reviews (post_id, created_at desc);
+
+-- line is 1-based; line_text is kept so the comment can follow its line
+-- when the body is edited above it.
+create table if not exists public.post_review_comments (
+  id uuid primary key default gen_random_uuid(),
+  post_id uuid not null references public.posts (id) on delete cascade,
+  line integer not null check (line > 0),
+  line_text text not null default '',
+  body text not null check (char_length(body) between 1 and 2000),
+  author_id uuid references auth.users (id) on delete set null default auth.uid(),
+  resolved boolean not null default false,
+  created_at timestamptz not null default now()
+);
+
+create index if not exists post_review_comments_post_id_idx
+  on public.post_review_comments (post_id, line);
+
+alter table public.post_reviews enable row level security;
+alter table public.post_review_comments enable row level security;
+
+drop policy if exists "Staff read reviews" on public.post_reviews;
+create policy "Staff read reviews"
+  on public.post_reviews for select
+  to authenticated
+  using (public.has_role(array['admin', 'editor', 'author']));
+
+drop policy if exists "Staff read review comments" on public.post_review_comments;
+create policy "Staff read review comments"
+  on public.post_review_comments for select
+  to authenticated
+  using (public.has_role(array['admin', 'editor', 'author']));
+
+drop policy if exists "Staff add review comments" on public.post_review_comments;
+create policy "Staff add review comments"
+  on public.post_review_comments for insert
+  to authenticated
+  with check (
+    public.has_role(array['admin', 'editor', 'author'])
+    and author_id = auth.uid()
+  );
+
+-- Only the comment's author may edit it, and only its text; resolving
+-- goes through set_review_comment_resolved() below.
+drop policy if exists "Staff resolve review comments" on public.post_review_comments;
+drop policy if exists "Authors edit own review comments" on public.post_review_comments;
+create policy "Authors edit own review comments"
+  on public.post_review_comments for update
+  to authenticated
+  using (author_id = auth.uid())
+  with check (author_id = auth.uid());
+
+revoke update on public.post_review_comments from anon, authenticated;
+grant update (body) on public.post_review_comments to authenticated;
+
+drop policy if exists "Authors delete own review comments" on public.post_review_comments;
+create policy "Authors delete own review comments"
+  on public.post_review_comments for delete
+  to authenticated
+  using (author_id = auth.uid());
+
+-- Records the decision and moves the post on in one go.
+create or replace function public.review_post(p_post_id uuid, p_decision text, p_note text)
+returns public.posts
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  v_post public.posts;
+begin
+  if not public.has_role(array['admin', 'editor']) then
+    raise exception 'Only editors and admins can review posts.';
+  end if;
+
+  if p_decision not in ('approved', 'changes_requested') then
+    raise exception 'Unknown decision: %', p_decision;
+  end if;
+
+  select * into v_post from public.posts where id = p_post_id for update;
+  if not found then
+    raise exception 'Post not found.';
+  end if;
+  if v_post.status <> 'in_review' then
+    raise exception 'This post is not waiting for review.';
+  end if;
+
+  insert into public.post_reviews (post_id, reviewer_id, decision, note)
+  values (p_post_id, auth.uid(), p_decision, nullif(trim(p_note), ''));
+
+  if p_decision = 'approved' then
+    update public.posts
+    set status = case when published_at > now() then 'scheduled' else 'published' end,
+        published_at = coalesce(published_at, now())
+    where id = p_post_id
+    returning * into v_post;
+  else
+    update public.posts
+    set status = 'draft'
+    where id = p_post_id
+    returning * into v_post;
+  end if;
+
+  return v_post;
+end;
+$$;
+
+grant execute on function public.review_post(uuid, text, text) to authenticated;
+
+-- Reviewers, the comment's author and the post's author can resolve it
+-- (and nothing else about it).
+create or replace function public.set_review_comment_resolved(p_comment_id uuid, p_resolved boolean)
+returns void
+language plpgsql
+security definer
+set search_path = public
+as $$
+begin
+  update public.post_review_comments c
+  set resolved = p_resolved
+  where c.id = p_comment_id
+    and (
+      public.has_role(array['admin', 'editor'])
+      or (public.has_role(array['author']) and (
+        c.author_id = auth.uid()
+        or exists (
+          select 1 from public.posts p
+          where p.id = c.post_id and p.author_id = auth.uid()
+        )
+      ))
+    );
+
+  if not found then
+    raise exception 'Comment not found, or not yours to resolve.';
+  end if;
+end;
+$$;
+
+revoke all on function public.set_review_comment_resolved(uuid, boolean) from public, anon;
+grant execute on function public.set_review_comment_resolved(uuid, boolean) to authenticated;
+
+-- Posts waiting on someone: in review (waiting on reviewers) or sent back
+-- with changes requested (waiting on their author). Editors and admins see
+-- everything; authors only their own posts.
+create or replace function public.review_queue()
+returns table (
+  post_id uuid,
+  title text,
+  slug text,
+  status text,
+  author_id uuid,
+  author_email text,
+  submitted_at timestamptz,
+  decision text,
+  reviewer_email text,
+  reviewed_at timestamptz,
+  open_comments integer
+)
+language plpgsql
+stable
+security definer
+set search_path = public
+as $$
+begin
+  if not public.has_role(array['admin', 'editor', 'author']) then
+    raise exception 'Not allowed.';
+  end if;
+
+  return query
+  select
+    p.id,
+    p.title,
+    p.slug,
+    p.status,
+    p.author_id,
+    au.email,
+    p.submitted_at,
+    r.decision,
+    ru.email,
+    r.created_at,
+    (
+      select count(*)::integer from public.post_review_comments c
+      where c.post_id = p.id and not c.resolved
+    )
+  from public.posts p
+  left join public.user_roles au on au.user_id = p.author_id
+  left join lateral (
+    select pr.decision, pr.reviewer_id, pr.created_at
+    from public.post_reviews pr
+    where pr.post_id = p.id
+    order by pr.created_at desc
+    limit 1
+  ) r on true
+  left join public.user_roles ru on ru.user_id = r.reviewer_id
+  where (
+      p.status = 'in_review'
+      or (p.status = 'draft' and r.decision = 'changes_requested')
+    )
+    and (public.has_role(array['admin', 'editor']) or p.author_id = auth.uid())
+  order by p.status = 'in_review' desc, coalesce(p.submitted_at, r.created_at) asc;
+end;
+$$;
+
+grant execute on function public.review_queue() to authenticated;
@@ -0,0 +1,54 @@
+-- Public author profiles for bylines and /author/:handle.
+-- links: [{ "label": "Instagram", "url": "https://…" }, …]
+create table if not exists public.author_profiles (
+  user_id uuid primary key references auth.users (id) on delete cascade,
+  handle text not null unique
+    check (handle ~ '^[a-z0-9][a-z0-9_-]{1,39}$'),
+  display_name text not null
+    check (char_length(trim(display_name)) between 1 and 80),
+  avatar_path text,
+  bio text check (char_length(bio) <= 1000),
+  links jsonb not null default '[]'::jsonb
+    check (jsonb_typeof(links) = 'array'),
+  created_at timestamptz not null default now(),
+  updated_at timestamptz not null default now()
+);
+
+alter table public.author_profiles enable row level security;
+
+drop policy if exists "Anyone can read author profiles" on public.author_profiles;
+create policy "Anyone can read author profiles"
+  on public.author_profiles for select
+  using (true);
+
+-- Staff write their own profile; admins can fix anyone's.
+drop policy if exists "Staff create own profile" on public.author_profiles;
+create policy "Staff create own profile"
+  on public.author_profiles for insert
+  to authenticated
+  with check (
+    (user_id = auth.uid() and public.has_role(array['admin', 'editor', 'author']))
+    or public.has_role(array['admin'])
+  );
+
+drop policy if exists "Staff edit own profile" on public.author_profiles;
+create policy "Staff edit own profile"
+  on public.author_profiles for update
+  to authenticated
+  using (
+    (user_id = auth.uid() and public.has_role(array['admin', 'editor', 'author']))
+    or public.has_role(array['admin'])
+  )
+  with check (
+    (user_id = auth.uid() and public.has_role(array['admin', 'editor', 'author']))
+    or public.has_role(array['admin'])
+  );
+
+drop policy if exists "Admins delete profiles" on public.author_profiles;
+create policy "Admins delete profiles"
+  on public.author_profiles for delete
+  to authenticated
+  using (public.has_role(array['admin']));
+
+create index if not exists posts_author_id_idx
+  on public.posts (author_id, published_at desc);
@@ -0,0 +1,121 @@
+-- Series: named, ordered collections of posts ("Part 2 of 5").
+create table if not exists public.series (
+  id uuid primary key default gen_random_uuid(),
+  slug text not null unique check (slug ~ '^[a-z0-9][a-z0-9-]*$'),
+  title text not null check (char_length(trim(title)) between 1 and 120),
+  description text check (char_length(description) <= 1000),
+  created_by uuid references auth.users (id) on delete set null default auth.uid(),
+  created_at timestamptz not null default now(),
+  updated_at timestamptz not null default now()
+);
+
+-- A post is in at most one series. position is only a sort key, so gaps
+-- left behind by removed posts don't matter.
+create table if not exists public.series_posts (
+  post_id uuid primary key references public.posts (id) on delete cascade,
+  series_id uuid not null references public.series (id) on delete cascade,
+  position integer not null
+);
+
+create index if not exists series_posts_series_idx
+  on public.series_posts (series_id, position);
+
+alter table public.series enable row level security;
+alter table public.series_posts enable row level security;
+
+drop policy if exists "Anyone can read series" on public.series;
+create policy "Anyone can read series"
+  on public.series for select
+  using (true);
+
+drop policy if exists "Staff create series" on public.series;
+create policy "Staff create series"
+  on public.series for insert
+  to authenticated
+  with check (
+    public.has_role(array['admin', 'editor', 'author'])
+    and created_by = auth.uid()
+  );
+
+drop policy if exists "Editors edit any series, authors their own" on public.series;
+create policy "Editors edit any series, authors their own"
+  on public.series for update
+  to authenticated
+  using (
+    public.has_role(array['admin', 'editor'])
+    or (public.has_role(array['author']) and created_by = auth.uid())
+  )
+  with check (
+    public.has_role(array['admin', 'editor'])
+    or (public.has_role(array['author']) and created_by = auth.uid())
+  );
+
+drop policy if exists "Editors delete series" on public.series;
+create policy "Editors delete series"
+  on public.series for delete
+  to authenticated
+  using (public.has_role(array['admin', 'editor']));
+
+-- Membership rows are public (posts' own RLS still hides unpublished
+-- parts); changes go through set_post_series().
+drop policy if exists "Anyone can read series posts" on public.series_posts;
+create policy "Anyone can read series posts"
+  on public.series_posts for select
+  using (true);
+
+-- Moves a post into a series at a 1-based position (null = at the end),
+-- shifting the parts after it down. p_series_id null takes it out.
+create or replace function public.set_post_series(
+  p_post_id uuid,
+  p_series_id uuid,
+  p_position integer
+)
+returns void
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  v_ids uuid[];
+  v_len integer;
+  v_at integer;
+begin
+  if not (
+    public.has_role(array['admin', 'editor'])
+    or (
+      public.has_role(array['author'])
+      and exists (select 1 from public.posts where id = p_post_id and author_id = auth.uid())
+    )
+  ) then
+    raise exception 'You can''t edit this post.';
+  end if;
+
+  delete from public.series_posts where post_id = p_post_id;
+
+  if p_series_id is null then
+    return;
+  end if;
+
+  if not exists (select 1 from public.series where id = p_series_id) then
+    raise exception 'Series not found.';
+  end if;
+
+  select coalesce(array_agg(post_id order by position, post_id), '{}')
+  into v_ids
+  from public.series_posts
+  where series_id = p_series_id;
+
+  v_len := coalesce(array_length(v_ids, 1), 0);
+  v_at := greatest(1, least(coalesce(p_position, v_len + 1), v_len + 1));
+  v_ids := v_ids[1:v_at - 1] || p_post_id || v_ids[v_at:v_len];
+
+  insert into public.series_posts (post_id, series_id, position)
+  select t.id, p_series_id, t.ord
+  from unnest(v_ids) with ordinality as t(id, ord)
+  on conflict (post_id) do update set position = excluded.position;
+
+  update public.series set updated_at = now() where id = p_series_id;
+end;
+$$;
+
+grant execute on function public.set_post_series(uuid, uuid, integer) to authenticated;
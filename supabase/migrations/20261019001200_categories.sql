@@ -0,0 +1,29 @@
+-- Managed categories: each post has at most one (tags stay free-form).
+create table if not exists public.categories (
+  id uuid primary key default gen_random_uuid(),
+  slug text not null unique check (slug ~ '^[a-z0-9][a-z0-9-]*$'),
+  name text not null unique check (char_length(trim(name)) between 1 and 60),
+  description text check (char_length(description) <= 500),
+  created_at timestamptz not null default now(),
+  updated_at timestamptz not null default now()
+);
+
+alter table public.posts
+  add column if not exists category_id uuid references public.categories (id) on delete set null;
+
+create index if not exists posts_category_id_idx
+  on public.posts (category_id, published_at desc);
+
+alter table public.categories enable row level security;
+
+drop policy if exists "Anyone can read categories" on public.categories;
+create policy "Anyone can read categories"
+  on public.categories for select
+  using (true);
+
+drop policy if exists "Editors manage categories" on public.categories;
+create policy "Editors manage categories"
+  on public.categories for all
+  to authenticated
+  using (public.has_role(array['admin', 'editor']))
+  with check (public.has_role(array['admin', 'editor']));
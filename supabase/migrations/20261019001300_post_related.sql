@@ -0,0 +1,65 @@
+-- Content-based "related posts". Scores are computed in the app
+-- (src/lib/similarity.ts) whenever a post is saved and stored here, so
+-- readers only ever do a single lookup.
+
+-- Weighted term counts per post (title + excerpt + body), the input for
+-- TF-IDF. Staff-only: drafts are indexed too.
+create table if not exists public.post_terms (
+  post_id uuid primary key references public.posts (id) on delete cascade,
+  terms jsonb not null default '{}'::jsonb,
+  updated_at timestamptz not null default now()
+);
+
+-- Top matches per post, best first. reasons:
+--   { "tags": ["gear"], "category": true, "terms": ["pedal", "loop"] }
+create table if not exists public.post_related (
+  post_id uuid not null references public.posts (id) on delete cascade,
+  related_id uuid not null references public.posts (id) on delete cascade,
+  score real not null,
+  reasons jsonb not null default '{}'::jsonb,
+  computed_at timestamptz not null default now(),
+  primary key (post_id, related_id),
+  check (post_id <> related_id)
+);
+
+create index if not exists post_related_related_idx
+  on public.post_related (related_id);
+
+alter table public.post_terms enable row level security;
+alter table public.post_related enable row level security;
+
+drop policy if exists "Staff manage post terms" on public.post_terms;
+create policy "Staff manage post terms"
+  on public.post_terms for all
+  to authenticated
+  using (public.has_role(array['admin', 'editor', 'author']))
+  with check (public.has_role(array['admin', 'editor', 'author']));
+
+-- Readers only see pairs of live posts: drafts are indexed too, and
+-- reasons would give away their terms and tags. (Staff read everything
+-- through the policy below.)
+drop policy if exists "Anyone can read related posts" on public.post_related;
+create policy "Anyone can read related posts"
+  on public.post_related for select
+  using (
+    exists (
+      select 1 from public.posts p
+      where p.id = post_id
+        and p.status in ('published', 'scheduled')
+        and p.published_at <= now()
+    )
+    and exists (
+      select 1 from public.posts p
+      where p.id = related_id
+        and p.status in ('published', 'scheduled')
+        and p.published_at <= now()
+    )
+  );
+
+-- Derived data: saving any post may reshuffle other posts' lists.
+drop policy if exists "Staff manage related posts" on public.post_related;
+create policy "Staff manage related posts"
+  on public.post_related for all
+  to authenticated
+  using (public.has_role(array['admin', 'editor', 'author']))
+  with check (public.has_role(array['admin', 'editor', 'author']));
@@ -0,0 +1,5 @@
+-- Focal point of the cover image, as fractions of its width/height
+-- (0,0 = top left). Cards and the hero crop around it; null = centre.
+alter table public.posts
+  add column if not exists cover_focus_x real check (cover_focus_x between 0 and 1),
+  add column if not exists cover_focus_y real check (cover_focus_y between 0 and 1);
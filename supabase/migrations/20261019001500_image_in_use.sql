@@ -0,0 +1,33 @@
+-- Whether a storage file is still referenced before the editors delete it:
+-- as a cover, in a gallery, or embedded in the text of any post (other than
+-- p_except_post) or of any revision. Runs as definer so an author's answer
+-- isn't narrowed by RLS to the posts and revisions they can read; anyone
+-- else gets "in use", which never deletes anything.
+create or replace function public.image_in_use(p_path text, p_except_post uuid default null)
+returns boolean
+language sql
+stable
+security definer
+set search_path = public
+as $$
+  select not public.has_role(array['admin', 'editor', 'author'])
+    or exists (
+      select 1 from public.posts p
+      where (p_except_post is null or p.id <> p_except_post)
+        and (
+          p.cover_path = p_path
+          or p_path = any (coalesce(p.image_paths, '{}'))
+          or position(p_path in coalesce(p.body, '')) > 0
+          or position(p_path in coalesce(p.body_md, '')) > 0
+        )
+    )
+    or exists (
+      select 1 from public.post_revisions r
+      where r.cover_path = p_path
+        or p_path = any (coalesce(r.image_paths, '{}'))
+        or position(p_path in coalesce(r.body, '')) > 0
+    );
+$$;
+
+revoke all on function public.image_in_use(text, uuid) from public, anon;
+grant execute on function public.image_in_use(text, uuid) to authenticated;
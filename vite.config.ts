@@ -1,7 +1,10 @@
 import { defineConfig } from "vite";
 import react from "@vitejs/plugin-react";
+import feeds from "./plugins/feeds";
+import prerender from "./plugins/prerender";
+import sitemap from "./plugins/sitemap";
 
 export default defineConfig({
-  plugins: [react()],
+  plugins: [react(), feeds({ content: "full" }), sitemap(), prerender()],
   base: "/loopblog/",
 });
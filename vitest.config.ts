@@ -0,0 +1,14 @@
+import { defineConfig } from "vitest/config";
+
+// Unit tests for the pure helpers in src/lib. Kept apart from vite.config.ts
+// so the build plugins (feeds, sitemap, prerender) don't run for tests.
+export default defineConfig({
+  test: {
+    include: ["src/**/*.test.ts"],
+    // src/lib/supabase.ts refuses to load without these; tests never hit the network
+    env: {
+      VITE_SUPABASE_URL: "http://localhost:54321",
+      VITE_SUPABASE_ANON_KEY: "test-anon-key",
+    },
+  },
+});